@@ -1,20 +1,165 @@
-import { promises as fs } from "fs";
+import { FSWatcher, promises as fs, watch } from "fs";
+import { randomUUID } from "crypto";
 import path from "path";
-import { fileURLToPath } from "url";
-import { generateIconVariants } from "./lib/vivaldiIconMaker.js";
+import { createRequire } from "module";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  generateIconVariants,
+  generateThemedIconVariants,
+  GenerateVariantsOptions,
+  IconVariant,
+} from "./lib/vivaldiIconMaker.js";
 import { validateColorInput } from "./lib/svgColorizer.js";
+import {
+  INACTIVE_COLOR_MODELS,
+  InactiveColorModel,
+  isInactiveColorModel,
+  WCAG_NON_TEXT_CONTRAST_RATIO,
+} from "./lib/colorTransforms.js";
+import { ColorMap, parseColorMap } from "./lib/colorMap.js";
+import { GRADIENT_MODES, GradientMode, isGradientMode } from "./lib/gradientRecolor.js";
+import { ColorReplacement, DEFAULT_REPLACE_TOLERANCE, parseColorReplacement } from "./lib/paletteSwap.js";
+import {
+  DEFAULT_INACTIVE_STYLE,
+  getInactiveStrategy,
+  InactiveStyleOptions,
+  listInactiveStrategies,
+} from "./lib/inactiveStrategies.js";
+import {
+  BACKGROUND_SHAPES,
+  BackgroundShape,
+  BackgroundStyle,
+  DEFAULT_BACKGROUND_BORDER_WIDTH,
+  DEFAULT_BACKGROUND_SHAPE,
+  isBackgroundShape,
+} from "./lib/backgroundShapes.js";
+import { DEFAULT_PNG_SCALES, DEFAULT_PNG_SIZES, initRasterizer, rasterizeIcon } from "./lib/rasterize.js";
+import {
+  CONTAINER_FORMATS,
+  ContainerFormat,
+  exportIconContainer,
+  getContainerExtension,
+  isContainerFormat,
+} from "./lib/iconContainers.js";
+import {
+  CODE_FORMATS,
+  CodeFormat,
+  createComponentName,
+  createCssClasses,
+  createDataUriModule,
+  createReactComponent,
+  isCodeFormat,
+} from "./lib/codeOutputs.js";
+import { buildSpriteSheet, createSprite, createSpriteEntries } from "./lib/sprite.js";
+import {
+  DEFAULT_OPTIMIZE_PRECISION,
+  isOptimizeStep,
+  OPTIMIZE_STEPS,
+  OptimizeReport,
+  OptimizeStep,
+} from "./lib/svgOptimizer.js";
+import { sanitizeSvg, summarizeSanitizeRemovals } from "./lib/svgSanitizer.js";
+import { ContactSheetRow, createContactSheet } from "./lib/contactSheet.js";
+import { formatInspection, inspectSvg } from "./lib/svgInspector.js";
+import {
+  ConfigPalette,
+  PROJECT_CONFIG_FILE_NAMES,
+  ProjectConfig,
+  ProjectJobRun,
+  resolveProjectJobs,
+  validateProjectConfig,
+} from "./lib/projectConfig.js";
+import { createVivaldiThemeArchive, isVivaldiButtonName, VivaldiThemeButton } from "./lib/vivaldiTheme.js";
+import { DEFAULT_TOOLBAR_BACKGROUNDS, THEMED_INACTIVE_STYLE } from "./lib/themes.js";
+import { BUILT_IN_ICON_STATES, BuiltInIconState, isBuiltInIconState } from "./lib/iconStates.js";
+import { DEFAULT_SECONDARY_MARKER, parseSecondaryMarker, SecondaryMarker } from "./lib/duotone.js";
+import {
+  isOutputMode,
+  isStateTrigger,
+  OUTPUT_MODES,
+  OutputMode,
+  STATE_TRIGGERS,
+  StateTrigger,
+} from "./lib/cssVariables.js";
 
 interface RawCliOptions {
-  input?: string;
+  inputs: string[];
   iconPreset?: keyof typeof ICON_PRESETS;
   output?: string;
   fill?: string;
   stroke?: string;
+  fills: string[];
+  strokes: string[];
+  fillPaletteFiles: string[];
+  strokePaletteFiles: string[];
+  secondaryColor?: string;
+  secondaryMarker: SecondaryMarker;
+  colorMapSource?: string;
+  replaceColors: ColorReplacement[];
+  replaceTolerance: number;
   overwrite: boolean;
   preserveFillNone: boolean;
   preserveStrokeNone: boolean;
   generateInactive: boolean;
   inactiveMix: number;
+  inactiveColorModel: InactiveColorModel;
+  inactiveStyle?: string;
+  inactiveStyleOptions: InactiveStyleOptions;
+  minContrast?: number;
+  gradientMode: GradientMode;
+  gradientEndColor?: string;
+  outputMode: OutputMode;
+  stateTrigger: StateTrigger;
+  states: BuiltInIconState[];
+  themePair: boolean;
+  lightToolbar?: string;
+  darkToolbar?: string;
+  backgroundShape?: BackgroundShape;
+  backgroundPath?: string;
+  backgroundBorder?: string;
+  backgroundBorderWidth?: number;
+  backgroundGradient?: string;
+  backgroundShadow?: string;
+  activeBackground?: string;
+  png: boolean;
+  pngSizes?: number[];
+  pngScales?: number[];
+  formats: OutputFormat[];
+  sprite: boolean;
+  optimize: boolean;
+  optimizeSkip: OptimizeStep[];
+  optimizePrecision: number;
+  sanitize: boolean;
+  concurrency: number;
+  configPath?: string;
+  watch: boolean;
+  explicitFlags: Set<string>;
+}
+
+type OutputFormat = ContainerFormat | CodeFormat;
+
+interface BatchInputFile {
+  inputPath: string;
+  relativePath: string;
+}
+
+interface BatchFailure {
+  source: string;
+  message: string;
+}
+
+interface BuildPlan {
+  batch: boolean;
+  targets: CliOptions[];
+  failures: BatchFailure[];
+  dependencies: string[];
+  watchDirectories: Map<string, boolean>;
+  contactSheetPath?: string;
+}
+
+interface ThemeButtonArg {
+  name: string;
+  path?: string;
 }
 
 interface CliOptions {
@@ -24,15 +169,97 @@ interface CliOptions {
   outputExtension: string;
   fill?: string;
   stroke?: string;
+  secondaryColor?: string;
+  secondaryMarker: SecondaryMarker;
+  colorMap?: ColorMap;
+  replaceColors: ColorReplacement[];
+  replaceTolerance: number;
   overwrite: boolean;
   preserveFillNone: boolean;
   preserveStrokeNone: boolean;
   generateInactive: boolean;
   inactiveMix: number;
+  inactiveColorModel: InactiveColorModel;
+  inactiveStyle?: string;
+  inactiveStyleOptions: InactiveStyleOptions;
+  minContrast?: number;
+  gradientMode: GradientMode;
+  gradientEndColor?: string;
+  outputMode: OutputMode;
+  stateTrigger: StateTrigger;
+  states: BuiltInIconState[];
+  themePair: boolean;
+  lightToolbar?: string;
+  darkToolbar?: string;
+  backgroundStyle: BackgroundStyle;
+  activeBackground?: string;
+  png: boolean;
+  pngSizes: number[];
+  pngScales: number[];
+  formats: OutputFormat[];
+  sprite: boolean;
+  spriteIdPrefix: string;
+  // Set on batch targets that add their symbols to one sprite written there for the whole run.
+  spriteDirectory?: string;
+  optimize: boolean;
+  optimizeSkip: OptimizeStep[];
+  optimizePrecision: number;
+  sanitize: boolean;
+  variantOptions?: GenerateVariantsOptions;
 }
 
+const THEME_COMMAND = "theme";
+const INSPECT_COMMAND = "inspect";
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const PARTIAL_FAILURE_EXIT_CODE = 2;
+const WATCH_DEBOUNCE_MS = 200;
+const GLOB_PATTERN = /[*?[{]/;
+const SVG_FILE_PATTERN = /\.svg$/i;
+const PALETTE_FILE_PATTERN = /\.(json|txt)$/i;
+const CONTACT_SHEET_FILE_NAME = "contact-sheet.html";
+const BATCH_SPRITE_BASE_NAME = "sprite";
+
+// Flags that replace the matching project config options; every other flag applies on top of each job as usual.
+const CONFIG_OVERRIDE_FLAGS: Record<string, (keyof GenerateVariantsOptions)[]> = {
+  "-f": ["fill"],
+  "--fill": ["fill"],
+  "-s": ["stroke"],
+  "--stroke": ["stroke"],
+  "--secondary": ["secondaryColor"],
+  "--secondary-marker": ["secondaryMarker"],
+  "--color-map": ["colorMap"],
+  "--replace-color": ["replaceColors"],
+  "--replace-tolerance": ["replaceTolerance"],
+  "--no-preserve-fill-none": ["preserveFillNone"],
+  "--no-preserve-stroke-none": ["preserveStrokeNone"],
+  "--no-inactive": ["generateInactive"],
+  "--inactive-mix": ["inactiveMix"],
+  "--inactive-model": ["inactiveColorModel"],
+  "--inactive-style": ["inactiveStyle"],
+  "--inactive-style-option": ["inactiveStyleOptions"],
+  "--min-contrast": ["minContrastRatio"],
+  "--gradient": ["gradientMode"],
+  "--gradient-end": ["gradientEndColor"],
+  "--output-mode": ["outputMode"],
+  "--state-trigger": ["stateTrigger"],
+  "--states": ["states"],
+  "--bg-shape": ["backgroundStyle"],
+  "--bg-path": ["backgroundStyle"],
+  "--bg-border": ["backgroundStyle"],
+  "--bg-border-width": ["backgroundStyle"],
+  "--bg-gradient": ["backgroundStyle"],
+  "--bg-shadow": ["backgroundStyle"],
+  "--active-bg": ["activeBackground"],
+  "--no-optimize": ["optimize"],
+  "--optimize-skip": ["optimize"],
+  "--precision": ["optimize"],
+};
+
+const COLOR_SOURCE_OPTIONS: (keyof GenerateVariantsOptions)[] = ["fill", "stroke", "secondaryColor", "colorMap", "replaceColors"];
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
+const require = createRequire(import.meta.url);
 const PROJECT_ROOT = path.resolve(__dirname, "..");
 
 const ICON_PRESETS = {
@@ -42,28 +269,39 @@ const ICON_PRESETS = {
 
 async function main(): Promise<void> {
   try {
-    const rawOptions = parseArgs(process.argv.slice(2));
-    const options = await resolveOptions(rawOptions);
-    const svgContent = await fs.readFile(options.inputPath, "utf8");
-
-    const variants = generateIconVariants({
-      svgContent,
-      fill: options.fill,
-      stroke: options.stroke,
-      preserveFillNone: options.preserveFillNone,
-      preserveStrokeNone: options.preserveStrokeNone,
-      generateInactive: options.generateInactive,
-      inactiveMix: options.inactiveMix,
-    });
+    const argv = process.argv.slice(2);
+    if (argv[0] === THEME_COMMAND) {
+      await runThemeCommand(argv.slice(1));
+      return;
+    }
+    if (argv[0] === INSPECT_COMMAND) {
+      await runInspectCommand(argv.slice(1));
+      return;
+    }
 
-    await fs.mkdir(options.outputDir, { recursive: true });
+    const rawOptions = parseArgs(argv);
+    const configPath = await findProjectConfig(rawOptions);
+    if (!configPath) {
+      if (argv.length === 0) {
+        printHelp();
+        return;
+      }
+      assertColorSource(rawOptions);
+    }
 
-    for (const variant of variants) {
-      const outputPath = buildOutputPath(options, variant.name);
-      await ensureWritablePath(outputPath, options.overwrite);
-      await fs.writeFile(outputPath, variant.svg, "utf8");
-      console.log(`Created ${path.relative(process.cwd(), outputPath)}`);
+    if (rawOptions.watch) {
+      await watchBuild(rawOptions, configPath);
+      return;
     }
+    const plan = await createBuildPlan(rawOptions, configPath);
+    if (!plan.batch) {
+      await processIcon(plan.targets[0]);
+      return;
+    }
+
+    const results = await runTargets(plan.targets, plan.failures, rawOptions.concurrency, "Batch");
+    await writeContactSheet(plan, results, rawOptions.overwrite);
+    await writeBatchSprites(plan, results, rawOptions.overwrite);
   } catch (error) {
     if (error instanceof Error) {
       console.error(`Error: ${error.message}`);
@@ -74,22 +312,1055 @@ async function main(): Promise<void> {
   }
 }
 
-function parseArgs(argv: string[]): RawCliOptions {
+async function processIcon(options: CliOptions): Promise<IconVariant[]> {
+  const svgContent = await readInputSvg(options.inputPath, options.sanitize);
+
+  const variantOptions = createVariantOptions(options, svgContent);
+  const variants = options.themePair
+    ? generateThemedIconVariants({
+        ...variantOptions,
+        toolbarBackgrounds: { light: options.lightToolbar, dark: options.darkToolbar },
+      })
+    : generateIconVariants(variantOptions);
+
+  await fs.mkdir(options.outputDir, { recursive: true });
+
+  if (options.png || options.formats.some(isContainerFormat)) {
+    await loadRasterizer();
+  }
+
+  for (const variant of variants) {
+    if (options.sprite) {
+      console.log(
+        `Added ${variant.name} to sprite${formatContrast(variant.contrastRatio)}${formatOptimization(variant.optimization)}`,
+      );
+    } else {
+      const outputPath = buildOutputPath(options, variant.name);
+      await ensureWritablePath(outputPath, options.overwrite);
+      await writeOutputFile(outputPath, variant.svg);
+      console.log(
+        `Created ${path.relative(process.cwd(), outputPath)}${formatContrast(variant.contrastRatio)}${formatOptimization(variant.optimization)}`,
+      );
+    }
+
+    if (variant.meetsContrast === false) {
+      const threshold = options.minContrast ?? WCAG_NON_TEXT_CONTRAST_RATIO;
+      console.warn(
+        `Warning: ${variant.name} contrast ${variant.contrastRatio?.toFixed(2)}:1 against ${variant.contrastBackground} is below ${threshold}:1`,
+      );
+    }
+
+    if (options.png) {
+      for (const image of rasterizeIcon(variant.svg, { sizes: options.pngSizes, scales: options.pngScales })) {
+        const pngPath = buildOutputPath(options, `${variant.name}-${image.suffix}`, ".png");
+        await ensureWritablePath(pngPath, options.overwrite);
+        await writeOutputFile(pngPath, image.png);
+        console.log(`Created ${path.relative(process.cwd(), pngPath)} (${image.width}x${image.height})`);
+      }
+    }
+
+    for (const format of options.formats.filter(isContainerFormat)) {
+      const containerPath = buildOutputPath(options, variant.name, getContainerExtension(format));
+      await ensureWritablePath(containerPath, options.overwrite);
+      await writeOutputFile(containerPath, exportIconContainer(variant.svg, format));
+      console.log(`Created ${path.relative(process.cwd(), containerPath)}`);
+    }
+
+    if (options.formats.includes("react")) {
+      const componentPath = buildOutputPath(options, variant.name, ".tsx");
+      await ensureWritablePath(componentPath, options.overwrite);
+      await writeOutputFile(
+        componentPath,
+        createReactComponent(variant.svg, createComponentName(options.outputBaseName, variant.name)),
+      );
+      console.log(`Created ${path.relative(process.cwd(), componentPath)}`);
+    }
+  }
+
+  const codeFiles: [string, string, string][] = [];
+  if (options.formats.includes("data-uri")) {
+    codeFiles.push(["data-uri", ".js", createDataUriModule(variants)]);
+  }
+  if (options.formats.includes("css")) {
+    codeFiles.push(["icons", ".css", createCssClasses(variants, options.outputBaseName)]);
+  }
+  for (const [name, extension, content] of codeFiles) {
+    const codePath = buildOutputPath(options, name, extension);
+    await ensureWritablePath(codePath, options.overwrite);
+    await writeOutputFile(codePath, content);
+    console.log(`Created ${path.relative(process.cwd(), codePath)}`);
+  }
+
+  if (options.sprite && !options.spriteDirectory) {
+    const sprite = createSprite(variants, {
+      idPrefix: options.spriteIdPrefix,
+      title: `${options.outputBaseName} sprite`,
+      toolbarBackgrounds: { light: options.lightToolbar, dark: options.darkToolbar },
+    });
+    for (const [extension, content] of [[".svg", sprite.svg], [".html", sprite.html]]) {
+      const spritePath = buildOutputPath(options, "sprite", extension);
+      await ensureWritablePath(spritePath, options.overwrite);
+      await writeOutputFile(spritePath, content);
+      console.log(`Created ${path.relative(process.cwd(), spritePath)}`);
+    }
+  }
+
+  return variants;
+}
+
+function createVariantOptions(options: CliOptions, svgContent: string): GenerateVariantsOptions {
+  if (options.variantOptions) {
+    return { ...options.variantOptions, svgContent, sanitize: false };
+  }
+
+  return {
+    svgContent,
+    fill: options.fill,
+    stroke: options.stroke,
+    secondaryColor: options.secondaryColor,
+    secondaryMarker: options.secondaryMarker,
+    colorMap: options.colorMap,
+    replaceColors: options.replaceColors,
+    replaceTolerance: options.replaceTolerance,
+    preserveFillNone: options.preserveFillNone,
+    preserveStrokeNone: options.preserveStrokeNone,
+    generateInactive: options.generateInactive,
+    inactiveMix: options.inactiveMix,
+    inactiveColorModel: options.inactiveColorModel,
+    inactiveStyle: options.inactiveStyle,
+    inactiveStyleOptions: options.inactiveStyleOptions,
+    minContrastRatio: options.minContrast,
+    gradientMode: options.gradientMode,
+    gradientEndColor: options.gradientEndColor,
+    outputMode: options.outputMode,
+    stateTrigger: options.stateTrigger,
+    states: options.states,
+    backgroundStyle: options.backgroundStyle,
+    activeBackground: options.activeBackground,
+    optimize: options.optimize && { skip: options.optimizeSkip, precision: options.optimizePrecision },
+    // readInputSvg has already sanitized (and reported on) the input unless --no-sanitize was given.
+    sanitize: false,
+  };
+}
+
+async function isBatchRun(raw: RawCliOptions): Promise<boolean> {
+  if (raw.inputs.length !== 1) {
+    return raw.inputs.length > 1;
+  }
+  const [input] = raw.inputs;
+  return GLOB_PATTERN.test(input) || (await isDirectory(path.resolve(process.cwd(), input)));
+}
+
+async function createBuildPlan(raw: RawCliOptions, configPath: string | undefined): Promise<BuildPlan> {
+  if (configPath) {
+    return planProjectConfig(raw, configPath);
+  }
+
+  const combinations = await expandColorMatrix(raw);
+  if (combinations.length === 1) {
+    return planInputs(combinations[0]);
+  }
+
+  // A color matrix is a batch of batches: every combination builds all inputs, named through createSuffix.
+  const plan: BuildPlan = {
+    batch: true,
+    targets: [],
+    failures: [],
+    dependencies: collectDependencies(raw),
+    watchDirectories: new Map(),
+  };
+  for (const combination of combinations) {
+    const combinationPlan = await planInputs(combination);
+    if (!combinationPlan.batch && raw.output) {
+      combinationPlan.targets[0].outputBaseName += `-${createSuffix(combination)}`;
+    }
+    plan.targets.push(...combinationPlan.targets);
+    plan.failures.push(
+      ...combinationPlan.failures.filter(
+        (failure) => !plan.failures.some((known) => known.source === failure.source && known.message === failure.message),
+      ),
+    );
+    combinationPlan.watchDirectories.forEach((recursive, directory) =>
+      plan.watchDirectories.set(directory, recursive || Boolean(plan.watchDirectories.get(directory))),
+    );
+  }
+
+  const outputDir = (await isBatchRun(raw))
+    ? path.resolve(process.cwd(), raw.output ?? "output")
+    : plan.targets[0].outputDir;
+  plan.contactSheetPath = path.join(outputDir, CONTACT_SHEET_FILE_NAME);
+  shareSprite(plan.targets, outputDir);
+  return plan;
+}
+
+async function planInputs(raw: RawCliOptions): Promise<BuildPlan> {
+  if (await isBatchRun(raw)) {
+    return planBatch(raw);
+  }
+
+  const options = await resolveOptions(raw);
+  return {
+    batch: false,
+    targets: [options],
+    failures: [],
+    dependencies: collectDependencies(raw),
+    watchDirectories: new Map([[path.dirname(options.inputPath), false]]),
+  };
+}
+
+// Every input gets its own outputs under the output directory, mirroring its path relative to the directory
+// or glob base it came from. Failures are collected instead of thrown so one bad file does not stop the run.
+async function planBatch(raw: RawCliOptions): Promise<BuildPlan> {
+  if (raw.iconPreset) {
+    throw new Error("--icon cannot be combined with multiple inputs, directories or globs");
+  }
+
+  const outputRoot = path.resolve(process.cwd(), raw.output ?? "output");
+  const { files, failures } = await expandBatchInputs(raw.inputs, outputRoot);
+  const plan: BuildPlan = {
+    batch: true,
+    targets: [],
+    failures,
+    dependencies: collectDependencies(raw),
+    watchDirectories: new Map(),
+  };
+  await addWatchDirectories(plan.watchDirectories, raw.inputs.map((input) => path.resolve(process.cwd(), input)));
+
+  if (files.length > 0) {
+    const shared = await resolveOptions({ ...raw, inputs: [files[0].inputPath], output: undefined });
+    plan.targets = files.map((file) => createBatchFileOptions(shared, file, outputRoot, createSuffix(raw)));
+    shareSprite(plan.targets, outputRoot);
+  }
+  return plan;
+}
+
+async function findProjectConfig(raw: RawCliOptions): Promise<string | undefined> {
+  if (raw.configPath) {
+    const resolved = path.resolve(process.cwd(), raw.configPath);
+    await assertFileExists(resolved);
+    return resolved;
+  }
+  if (raw.inputs.length > 0 || raw.iconPreset) {
+    return undefined;
+  }
+
+  for (const fileName of PROJECT_CONFIG_FILE_NAMES) {
+    const candidate = path.join(process.cwd(), fileName);
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+async function loadProjectConfig(configPath: string): Promise<ProjectConfig> {
+  const source = path.relative(process.cwd(), configPath) || configPath;
+  const extension = path.extname(configPath);
+
+  if (extension === ".json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(configPath, "utf8"));
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return validateProjectConfig(parsed, source);
+  }
+
+  if (![".mjs", ".js", ".ts"].includes(extension)) {
+    throw new Error(`Unsupported config file ${source}. Use .json, .mjs, .js or .ts`);
+  }
+
+  let loaded: { default?: unknown };
+  try {
+    // The query keys the module cache on the file's mtime, so --watch picks up edits to the config.
+    const { mtimeMs } = await fs.stat(configPath);
+    loaded = await import(`${pathToFileURL(configPath).href}?mtime=${mtimeMs}`);
+  } catch (error) {
+    if (extension === ".ts" && (error as NodeJS.ErrnoException)?.code === "ERR_UNKNOWN_FILE_EXTENSION") {
+      throw new Error(
+        `Cannot load ${source}: this Node.js version cannot import TypeScript. ` +
+          `Use Node.js 23.6+ (or 22.6+ with --experimental-strip-types), or a .json or .mjs config`,
+      );
+    }
+    throw new Error(`Cannot load ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateProjectConfig(loaded.default, `${source} (default export)`);
+}
+
+// Each job runs once per palette as a batch of its own. Paths in the config are relative to the config file,
+// and flags given on the command line override the config (see CONFIG_OVERRIDE_FLAGS).
+async function planProjectConfig(raw: RawCliOptions, configPath: string): Promise<BuildPlan> {
+  if (raw.inputs.length > 0 || raw.iconPreset) {
+    throw new Error("--input and --icon cannot be combined with a project config; list the inputs in its jobs");
+  }
+  if (isColorMatrix(raw)) {
+    throw new Error("Color lists and palette files cannot be combined with a project config; define palettes in it instead");
+  }
+
+  const config = await loadProjectConfig(configPath);
+  const configDir = path.dirname(configPath);
+  const plan: BuildPlan = {
+    batch: true,
+    targets: [],
+    failures: [],
+    dependencies: [configPath, ...collectDependencies(raw)],
+    watchDirectories: new Map([[configDir, false]]),
+  };
+
+  for (const run of resolveProjectJobs(config)) {
+    if (run.palette) {
+      assertNoPaletteOverride(run, config.palettes?.[run.palette] ?? {}, raw.explicitFlags);
+    }
+    const outputRoot = raw.output
+      ? path.resolve(process.cwd(), raw.output)
+      : path.resolve(configDir, run.output ?? "output");
+    const inputs = run.inputs.map((input) => path.resolve(configDir, input));
+    const { files, failures } = await expandBatchInputs(inputs, outputRoot);
+    await addWatchDirectories(plan.watchDirectories, inputs);
+    plan.failures.push(...failures);
+    if (files.length === 0) {
+      continue;
+    }
+
+    const shared = await resolveOptions({
+      ...raw,
+      inputs: [files[0].inputPath],
+      output: undefined,
+      overwrite: raw.overwrite || Boolean(config.overwrite),
+    });
+    const variantOptions = applyConfigOptions(createVariantOptions(shared, ""), run, raw.explicitFlags);
+    if (!variantOptions.fill && !variantOptions.stroke && !variantOptions.colorMap && !variantOptions.replaceColors?.length) {
+      plan.failures.push({
+        source: run.label,
+        message: "No fill, stroke, colorMap or replaceColors in the config defaults, palette, job options or flags",
+      });
+      continue;
+    }
+
+    const jobOptions: CliOptions = {
+      ...shared,
+      minContrast: variantOptions.minContrastRatio,
+      sanitize: raw.sanitize && run.sanitize !== false,
+      variantOptions,
+    };
+    const jobTargets = files.map((file) => createBatchFileOptions(jobOptions, file, outputRoot, run.palette ?? ""));
+    shareSprite(jobTargets, outputRoot);
+    plan.targets.push(...jobTargets);
+  }
+
+  return plan;
+}
+
+function applyConfigOptions(
+  cliOptions: GenerateVariantsOptions,
+  run: ProjectJobRun,
+  explicitFlags: Set<string>,
+): GenerateVariantsOptions {
+  const overridden = new Set([...explicitFlags].flatMap((flag) => CONFIG_OVERRIDE_FLAGS[flag] ?? []));
+  const options: GenerateVariantsOptions = { ...cliOptions, ...withoutUndefined(run.options) };
+
+  for (const key of overridden) {
+    Object.assign(options, { [key]: cliOptions[key] });
+  }
+  if (overridden.has("backgroundStyle")) {
+    options.backgroundStyle = { ...run.options.backgroundStyle, ...withoutUndefined(cliOptions.backgroundStyle ?? {}) };
+  }
+  // --fill/--stroke, --color-map and --replace-color exclude each other, so a flag for one drops the config's others.
+  if (overridden.has("fill") || overridden.has("stroke")) {
+    options.replaceColors = overridden.has("replaceColors") ? options.replaceColors : [];
+    options.colorMap = overridden.has("colorMap") ? options.colorMap : undefined;
+  }
+  if (overridden.has("replaceColors") || overridden.has("colorMap")) {
+    options.fill = overridden.has("fill") ? options.fill : undefined;
+    options.stroke = overridden.has("stroke") ? options.stroke : undefined;
+    options.secondaryColor = overridden.has("secondaryColor") ? options.secondaryColor : undefined;
+  }
+  return options;
+}
+
+// The palette name is part of the output file names (a-blue-active.svg), so flags may not recolor what it defines.
+// Color sources exclude each other, so e.g. --fill also displaces a palette's colorMap.
+function assertNoPaletteOverride(run: ProjectJobRun, palette: ConfigPalette, explicitFlags: Set<string>): void {
+  const defined = Object.keys(withoutUndefined(palette));
+  const definesColorSource = COLOR_SOURCE_OPTIONS.some((key) => defined.includes(key));
+  for (const flag of explicitFlags) {
+    const keys = CONFIG_OVERRIDE_FLAGS[flag] ?? [];
+    if (keys.some((key) => defined.includes(key) || (definesColorSource && COLOR_SOURCE_OPTIONS.includes(key)))) {
+      throw new Error(
+        `${flag} would override the colors of palette "${run.palette}" in ${run.label}; change the palette in the config instead`,
+      );
+    }
+  }
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+function createBatchFileOptions(
+  shared: CliOptions,
+  file: BatchInputFile,
+  outputRoot: string,
+  suffix: string,
+): CliOptions {
+  const baseName = path.basename(file.relativePath, path.extname(file.relativePath));
+  return {
+    ...shared,
+    inputPath: file.inputPath,
+    outputDir: path.join(outputRoot, path.dirname(file.relativePath)),
+    outputBaseName: suffix ? `${baseName}-${suffix}` : baseName,
+    outputExtension: path.extname(file.inputPath) || ".svg",
+    spriteIdPrefix: baseName,
+  };
+}
+
+async function runTargets(
+  targets: CliOptions[],
+  failures: BatchFailure[],
+  concurrency: number,
+  label: string,
+): Promise<Map<string, IconVariant[]>> {
+  const results = new Map<string, IconVariant[]>();
+  let succeeded = 0;
+  const allFailures = [...failures];
+
+  await runWithConcurrency(targets, concurrency, async (target) => {
+    try {
+      results.set(getTargetKey(target), await processIcon(target));
+      succeeded += 1;
+    } catch (error) {
+      const source = path.relative(process.cwd(), target.inputPath);
+      const message = error instanceof Error ? error.message : String(error);
+      allFailures.push({ source, message });
+      console.error(`Failed ${source}: ${message}`);
+    }
+  });
+
+  console.log(`\n${label} finished: ${succeeded} succeeded, ${allFailures.length} failed`);
+  for (const failure of allFailures) {
+    console.error(`  ${failure.source}: ${failure.message}`);
+  }
+  if (allFailures.length > 0) {
+    process.exitCode = succeeded > 0 ? PARTIAL_FAILURE_EXIT_CODE : 1;
+  }
+  return results;
+}
+
+function getTargetKey(target: CliOptions): string {
+  return path.join(target.outputDir, target.outputBaseName);
+}
+
+async function writeContactSheet(
+  plan: BuildPlan,
+  results: Map<string, IconVariant[]>,
+  overwrite: boolean,
+): Promise<void> {
+  if (!plan.contactSheetPath) {
+    return;
+  }
+
+  const rows: ContactSheetRow[] = [];
+  for (const target of plan.targets) {
+    const variants = results.get(getTargetKey(target));
+    if (variants) {
+      rows.push({
+        label: path.relative(process.cwd(), target.inputPath),
+        colors: [
+          ...(target.fill ? [{ name: "fill", value: target.fill }] : []),
+          ...(target.stroke ? [{ name: "stroke", value: target.stroke }] : []),
+        ],
+        variants,
+      });
+    }
+  }
+  if (rows.length === 0) {
+    return;
+  }
+
+  const [{ lightToolbar, darkToolbar }] = plan.targets;
+  await ensureWritablePath(plan.contactSheetPath, overwrite);
+  await writeOutputFile(
+    plan.contactSheetPath,
+    createContactSheet(rows, { toolbarBackgrounds: { light: lightToolbar, dark: darkToolbar } }),
+  );
+  console.log(`Created ${path.relative(process.cwd(), plan.contactSheetPath)} (${rows.length} combinations)`);
+}
+
+// Symbol ids follow the file names the icons would otherwise get, so they stay unique across subdirectories,
+// palettes and color combinations that share one output root.
+function shareSprite(targets: CliOptions[], directory: string): void {
+  for (const target of targets.filter((entry) => entry.sprite)) {
+    target.spriteDirectory = directory;
+    target.spriteIdPrefix = path.relative(directory, path.join(target.outputDir, target.outputBaseName));
+  }
+}
+
+async function writeBatchSprites(
+  plan: BuildPlan,
+  results: Map<string, IconVariant[]>,
+  overwrite: boolean,
+): Promise<void> {
+  const groups = new Map<string, CliOptions[]>();
+  for (const target of plan.targets) {
+    if (target.spriteDirectory && results.has(getTargetKey(target))) {
+      groups.set(target.spriteDirectory, [...(groups.get(target.spriteDirectory) ?? []), target]);
+    }
+  }
+
+  for (const [directory, targets] of groups) {
+    const entries = targets.flatMap((target) =>
+      createSpriteEntries(results.get(getTargetKey(target)) ?? [], {
+        idPrefix: target.spriteIdPrefix,
+        toolbarBackgrounds: { light: target.lightToolbar, dark: target.darkToolbar },
+      }),
+    );
+    const sprite = buildSpriteSheet(entries, `${path.basename(directory)} sprite`);
+    for (const [extension, content] of [[".svg", sprite.svg], [".html", sprite.html]]) {
+      const spritePath = path.join(directory, `${BATCH_SPRITE_BASE_NAME}${extension}`);
+      await ensureWritablePath(spritePath, overwrite);
+      await writeOutputFile(spritePath, content);
+      console.log(`Created ${path.relative(process.cwd(), spritePath)} (${sprite.ids.length} symbols)`);
+    }
+  }
+}
+
+// Rebuilds after each burst of saves: only targets whose input changed (or that newly match an input glob or
+// directory), or everything when the config or color map changed. Errors are reported and watching continues.
+async function watchBuild(raw: RawCliOptions, configPath: string | undefined): Promise<void> {
+  const watchRaw: RawCliOptions = { ...raw, overwrite: true };
+  let plan = await createBuildPlan(watchRaw, configPath);
+  const watchers = new Map<string, { watcher: FSWatcher; recursive: boolean }>();
+  const results = new Map<string, IconVariant[]>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const build = async (targets: CliOptions[], label: string): Promise<void> => {
+    const built = await runTargets(targets, plan.failures, raw.concurrency, label);
+    built.forEach((variants, key) => results.set(key, variants));
+    try {
+      await writeContactSheet(plan, results, true);
+      await writeBatchSprites(plan, results, true);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const rebuild = async (): Promise<void> => {
+    const changed = [...pending];
+    pending.clear();
+    let next: BuildPlan;
+    try {
+      next = await createBuildPlan(watchRaw, configPath);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const previousInputs = new Set(plan.targets.map((target) => target.inputPath));
+    const rebuildAll = changed.some((changedPath) => next.dependencies.includes(changedPath));
+    const targets = next.targets.filter(
+      (target) => rebuildAll || changed.includes(target.inputPath) || !previousInputs.has(target.inputPath),
+    );
+    plan = next;
+    syncWatchers(watchers, collectWatchDirectories(plan), onChange);
+    if (targets.length > 0 || rebuildAll) {
+      console.log(`\nRebuilding ${targets.length} file(s)`);
+      await build(targets, "Rebuild");
+    }
+  };
+
+  function onChange(changedPath: string): void {
+    pending.add(changedPath);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      building = building.then(rebuild);
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  let building = build(plan.targets, "Build");
+  syncWatchers(watchers, collectWatchDirectories(plan), onChange);
+  await building;
+  console.log(`\nWatching ${[...watchers.keys()].map((directory) => path.relative(process.cwd(), directory) || ".").join(", ")} (Ctrl+C to stop)`);
+}
+
+// Dependencies such as a color map or palette file are watched through their directory like single inputs.
+function collectWatchDirectories(plan: BuildPlan): Map<string, boolean> {
+  const directories = new Map(plan.watchDirectories);
+  for (const dependency of plan.dependencies) {
+    if (!directories.has(path.dirname(dependency))) {
+      directories.set(path.dirname(dependency), false);
+    }
+  }
+  return directories;
+}
+
+function syncWatchers(
+  watchers: Map<string, { watcher: FSWatcher; recursive: boolean }>,
+  directories: Map<string, boolean>,
+  onChange: (changedPath: string) => void,
+): void {
+  for (const [directory, entry] of watchers) {
+    if (directories.get(directory) !== entry.recursive) {
+      entry.watcher.close();
+      watchers.delete(directory);
+    }
+  }
+
+  for (const [directory, recursive] of directories) {
+    if (watchers.has(directory)) {
+      continue;
+    }
+    try {
+      const watcher = watch(directory, { recursive }, (_event, fileName) => {
+        if (fileName && !path.basename(fileName.toString()).startsWith(".")) {
+          onChange(path.join(directory, fileName.toString()));
+        }
+      });
+      watcher.on("error", (error) => console.error(`Error: stopped watching ${directory}: ${error.message}`));
+      watchers.set(directory, { watcher, recursive });
+    } catch (error) {
+      console.error(`Error: cannot watch ${directory}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// Directories and glob bases are watched recursively so new files are picked up; single files through their
+// parent directory, because editors often save by replacing the file, which ends a watch on the file itself.
+async function addWatchDirectories(directories: Map<string, boolean>, specs: string[]): Promise<void> {
+  for (const spec of specs) {
+    const segments = spec.split(path.sep).join("/").split("/");
+    const firstPattern = segments.findIndex((segment) => GLOB_PATTERN.test(segment));
+    if (firstPattern >= 0) {
+      directories.set(path.resolve(segments.slice(0, firstPattern).join("/") || "/"), true);
+    } else if (await isDirectory(spec)) {
+      directories.set(spec, true);
+    } else if (!directories.get(path.dirname(spec))) {
+      directories.set(path.dirname(spec), false);
+    }
+  }
+}
+
+function collectDependencies(raw: RawCliOptions): string[] {
+  const colorMapSource = raw.colorMapSource?.trim();
+  return [
+    ...(colorMapSource && !colorMapSource.startsWith("{") ? [colorMapSource] : []),
+    ...raw.fillPaletteFiles,
+    ...raw.strokePaletteFiles,
+  ].map((source) => path.resolve(process.cwd(), source));
+}
+
+function isColorMatrix(raw: RawCliOptions): boolean {
+  return (
+    raw.fills.length > 1 || raw.strokes.length > 1 || raw.fillPaletteFiles.length > 0 || raw.strokePaletteFiles.length > 0
+  );
+}
+
+// Every fill is combined with every stroke. Combinations that would share a createSuffix name (the same color
+// written two ways) are built once.
+async function expandColorMatrix(raw: RawCliOptions): Promise<RawCliOptions[]> {
+  const fills = [...raw.fills, ...(await loadColorPalettes(raw.fillPaletteFiles))];
+  const strokes = [...raw.strokes, ...(await loadColorPalettes(raw.strokePaletteFiles))];
+  const combinations = new Map<string, RawCliOptions>();
+
+  for (const fill of fills.length > 0 ? fills : [undefined]) {
+    for (const stroke of strokes.length > 0 ? strokes : [undefined]) {
+      const combination = { ...raw, fill, stroke };
+      const suffix = createSuffix(combination);
+      if (!combinations.has(suffix)) {
+        combinations.set(suffix, combination);
+      }
+    }
+  }
+  return [...combinations.values()];
+}
+
+async function loadColorPalettes(sources: string[]): Promise<string[]> {
+  const colors: string[] = [];
+  for (const source of sources) {
+    colors.push(...(await loadColorPalette(source)));
+  }
+  return colors;
+}
+
+async function loadColorPalette(source: string): Promise<string[]> {
+  const filePath = path.resolve(process.cwd(), source);
+  await assertFileExists(filePath);
+  const content = await fs.readFile(filePath, "utf8");
+
+  let entries: unknown;
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    try {
+      entries = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid palette JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (entries && typeof entries === "object" && !Array.isArray(entries)) {
+      entries = Object.values(entries);
+    }
+    if (!Array.isArray(entries) || entries.some((entry) => typeof entry !== "string")) {
+      throw new Error(`Palette ${source} must be a JSON array of colors or an object of named colors`);
+    }
+  } else {
+    entries = content.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  }
+
+  const colors = entries as string[];
+  if (colors.length === 0) {
+    throw new Error(`Palette ${source} does not list any colors`);
+  }
+  return colors.map((color) => {
+    try {
+      return validateColorInput(color);
+    } catch (error) {
+      throw new Error(`Palette ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+// Writes next to the target and renames into place, so apps watching the output folder never read a
+// half-written file.
+async function writeOutputFile(filePath: string, content: string | Uint8Array): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}-${randomUUID()}.tmp`);
+  try {
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+async function expandBatchInputs(
+  specs: string[],
+  outputRoot: string,
+): Promise<{ files: BatchInputFile[]; failures: BatchFailure[] }> {
+  const files: BatchInputFile[] = [];
+  const failures: BatchFailure[] = [];
+  const seenInputs = new Set<string>();
+  const outputOwners = new Map<string, string>();
+
+  for (const spec of specs) {
+    let matches: BatchInputFile[];
+    try {
+      matches = await expandInputSpec(spec, outputRoot);
+    } catch (error) {
+      failures.push({ source: describeSpec(spec), message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (matches.length === 0) {
+      failures.push({ source: describeSpec(spec), message: "No SVG files matched" });
+      continue;
+    }
+
+    for (const match of matches) {
+      if (seenInputs.has(match.inputPath)) {
+        continue;
+      }
+      seenInputs.add(match.inputPath);
+      const source = path.relative(process.cwd(), match.inputPath);
+      const owner = outputOwners.get(match.relativePath);
+      if (owner) {
+        failures.push({ source, message: `Output path ${match.relativePath} is already used by ${owner}` });
+        continue;
+      }
+      outputOwners.set(match.relativePath, source);
+      files.push(match);
+    }
+  }
+
+  return { files, failures };
+}
+
+function describeSpec(spec: string): string {
+  return path.isAbsolute(spec) ? path.relative(process.cwd(), spec) : spec;
+}
+
+async function expandInputSpec(spec: string, outputRoot: string): Promise<BatchInputFile[]> {
+  const normalized = spec.split(path.sep).join("/");
+  if (GLOB_PATTERN.test(normalized)) {
+    const segments = normalized.split("/");
+    const firstPattern = segments.findIndex((segment) => GLOB_PATTERN.test(segment));
+    const baseDir = path.resolve(process.cwd(), segments.slice(0, firstPattern).join("/") || ".");
+    const matcher = globToRegExp(segments.slice(firstPattern).join("/"));
+    const candidates = (await isDirectory(baseDir)) ? await listSvgFiles(baseDir, outputRoot) : [];
+    return candidates
+      .filter((relativePath) => matcher.test(relativePath))
+      .map((relativePath) => ({ inputPath: path.join(baseDir, relativePath), relativePath }));
+  }
+
+  const resolved = path.resolve(process.cwd(), spec);
+  if (await isDirectory(resolved)) {
+    return (await listSvgFiles(resolved, outputRoot)).map((relativePath) => ({
+      inputPath: path.join(resolved, relativePath),
+      relativePath,
+    }));
+  }
+
+  await assertFileExists(resolved);
+  return [{ inputPath: resolved, relativePath: path.basename(resolved) }];
+}
+
+// Hidden directories and the output directory itself are skipped, so re-running over "." does not pick up
+// icons generated by the previous run.
+async function listSvgFiles(directory: string, outputRoot: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(directory, entry.name);
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      if (entryPath !== outputRoot) {
+        files.push(...(await listSvgFiles(entryPath, outputRoot, relativePath)));
+      }
+    } else if (entry.isFile() && SVG_FILE_PATTERN.test(entry.name)) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      const crossesSegment = pattern[index + 2] === "/";
+      source += crossesSegment ? "(?:.*/)?" : ".*";
+      index += crossesSegment ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && pattern.indexOf("}", index) !== -1) {
+      const end = pattern.indexOf("}", index);
+      source += `(?:${pattern.slice(index + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      index = end;
+    } else if (char === "[" && pattern.indexOf("]", index + 1) !== -1) {
+      const end = pattern.indexOf("]", index + 1);
+      source += `[${pattern.slice(index + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      index = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+let rasterizerLoading: Promise<void> | undefined;
+
+function loadRasterizer(): Promise<void> {
+  rasterizerLoading ??= fs
+    .readFile(require.resolve("@resvg/resvg-wasm/index_bg.wasm"))
+    .then((wasm) => initRasterizer(wasm));
+  return rasterizerLoading;
+}
+
+async function readInputSvg(inputPath: string, sanitize: boolean): Promise<string> {
+  const svgContent = await fs.readFile(inputPath, "utf8");
+  if (!sanitize) {
+    return svgContent;
+  }
+
+  const { svg, removed } = sanitizeSvg(svgContent);
+  if (removed.length > 0) {
+    console.warn(
+      `Warning: removed unsafe or unsupported markup from ${path.relative(process.cwd(), inputPath)}: ${summarizeSanitizeRemovals(removed).join(", ")}`,
+    );
+  }
+  return svg;
+}
+
+async function runThemeCommand(argv: string[]): Promise<void> {
   if (argv.length === 0) {
     printHelp();
-    process.exit(0);
+    return;
+  }
+
+  const { buttons, themeName, rest } = extractThemeArgs(argv);
+  const rawOptions = parseArgs(rest);
+  assertColorSource(rawOptions);
+  if (rawOptions.watch) {
+    throw new Error("theme does not support --watch");
+  }
+  if (isColorMatrix(rawOptions)) {
+    throw new Error("theme takes a single --fill or --stroke color");
+  }
+  if (buttons.length === 0) {
+    throw new Error("theme requires at least one --button <Name>[=<path>]");
+  }
+
+  const hasMainInput = rawOptions.inputs.length > 0 || Boolean(rawOptions.iconPreset);
+  const options = await resolveOptions(rawOptions, buttons.find((button) => button.path)?.path);
+  const accentColor = options.fill ?? options.stroke;
+  if (!accentColor) {
+    throw new Error("theme requires --fill or --stroke for the accent color");
+  }
+
+  const themeButtons: VivaldiThemeButton[] = [];
+  for (const button of buttons) {
+    if (!button.path && !hasMainInput) {
+      throw new Error(`--button ${button.name} needs =<path> when no --input or --icon is given`);
+    }
+    const inputPath = button.path ? path.resolve(process.cwd(), button.path) : options.inputPath;
+    await assertFileExists(inputPath);
+    const svgContent = await readInputSvg(inputPath, options.sanitize);
+    themeButtons.push({
+      name: button.name,
+      variants: generateIconVariants({ ...createVariantOptions(options, svgContent), generateInactive: false, states: [] }),
+    });
+  }
+
+  const archive = createVivaldiThemeArchive({
+    name: themeName ?? `Vivaldi Icon Maker ${accentColor}`,
+    accentColor,
+    inactiveMix: options.inactiveMix,
+    buttons: themeButtons,
+  });
+
+  await fs.mkdir(options.outputDir, { recursive: true });
+  const themePath = buildOutputPath(options, "theme", ".zip");
+  await ensureWritablePath(themePath, options.overwrite);
+  await writeOutputFile(themePath, archive);
+  console.log(`Created ${path.relative(process.cwd(), themePath)} (${themeButtons.map((button) => button.name).join(", ")})`);
+}
+
+async function runInspectCommand(argv: string[]): Promise<void> {
+  const { inputs, json } = parseInspectArgs(argv);
+  if (inputs.length === 0) {
+    throw new Error("inspect requires at least one SVG (inspect <file...> [--json])");
   }
 
+  const reports = [];
+  for (const input of inputs) {
+    await assertFileExists(input);
+    const file = path.relative(process.cwd(), input);
+    try {
+      reports.push({ file, ...inspectSvg(await fs.readFile(input, "utf8")) });
+    } catch (error) {
+      throw new Error(`Cannot inspect ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2));
+  } else {
+    console.log(reports.map((report) => formatInspection(report, report.file)).join("\n\n"));
+  }
+}
+
+function parseInspectArgs(argv: string[]): { inputs: string[]; json: boolean } {
+  const inputs: string[] = [];
+  let json = false;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case "-h":
+      case "--help":
+        printHelp();
+        process.exit(0);
+        break;
+      case "--json":
+        json = true;
+        break;
+      case "-i":
+      case "--input":
+        inputs.push(path.resolve(process.cwd(), requireValue(argv[++index], arg)));
+        break;
+      case "--icon":
+        inputs.push(ICON_PRESETS[parsePreset(requireValue(argv[++index], arg))]);
+        break;
+      default:
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown inspect argument: ${arg}. Use --input, --icon or --json`);
+        }
+        inputs.push(path.resolve(process.cwd(), arg));
+    }
+  }
+
+  return { inputs, json };
+}
+
+function extractThemeArgs(argv: string[]): { buttons: ThemeButtonArg[]; themeName?: string; rest: string[] } {
+  const buttons: ThemeButtonArg[] = [];
+  const rest: string[] = [];
+  let themeName: string | undefined;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--button") {
+      buttons.push(parseThemeButton(requireValue(argv[++index], arg)));
+    } else if (arg === "--theme-name") {
+      themeName = requireValue(argv[++index], arg);
+    } else {
+      rest.push(arg);
+    }
+  }
+
+  return { buttons, themeName, rest };
+}
+
+function parseArgs(argv: string[]): RawCliOptions {
   const rawOptions: RawCliOptions = {
+    inputs: [],
+    fills: [],
+    strokes: [],
+    fillPaletteFiles: [],
+    strokePaletteFiles: [],
+    secondaryMarker: DEFAULT_SECONDARY_MARKER,
+    replaceColors: [],
+    replaceTolerance: DEFAULT_REPLACE_TOLERANCE,
     overwrite: false,
     preserveFillNone: true,
     preserveStrokeNone: true,
     generateInactive: true,
     inactiveMix: 0.5,
+    inactiveColorModel: "hsl",
+    inactiveStyleOptions: {},
+    gradientMode: "flatten",
+    outputMode: "static",
+    stateTrigger: "class",
+    states: [],
+    themePair: false,
+    png: false,
+    formats: [],
+    sprite: false,
+    optimize: true,
+    optimizeSkip: [],
+    optimizePrecision: DEFAULT_OPTIMIZE_PRECISION,
+    sanitize: true,
+    concurrency: DEFAULT_BATCH_CONCURRENCY,
+    watch: false,
+    explicitFlags: new Set(),
   };
 
   for (let index = 0; index < argv.length; index += 1) {
     const arg = argv[index];
+    if (arg.startsWith("-")) {
+      rawOptions.explicitFlags.add(arg);
+    }
 
     switch (arg) {
       case "-h":
@@ -99,7 +1370,7 @@ function parseArgs(argv: string[]): RawCliOptions {
         break;
       case "-i":
       case "--input":
-        rawOptions.input = requireValue(argv[++index], arg);
+        rawOptions.inputs.push(requireValue(argv[++index], arg));
         break;
       case "--icon":
         rawOptions.iconPreset = parsePreset(requireValue(argv[++index], arg));
@@ -109,12 +1380,39 @@ function parseArgs(argv: string[]): RawCliOptions {
         rawOptions.output = requireValue(argv[++index], arg);
         break;
       case "-f":
-      case "--fill":
-        rawOptions.fill = validateColorInput(requireValue(argv[++index], arg));
+      case "--fill": {
+        const value = requireValue(argv[++index], arg);
+        if (PALETTE_FILE_PATTERN.test(value)) {
+          rawOptions.fillPaletteFiles.push(value);
+        } else {
+          rawOptions.fills.push(...parseColorList(value, arg));
+        }
         break;
+      }
       case "-s":
-      case "--stroke":
-        rawOptions.stroke = validateColorInput(requireValue(argv[++index], arg));
+      case "--stroke": {
+        const value = requireValue(argv[++index], arg);
+        if (PALETTE_FILE_PATTERN.test(value)) {
+          rawOptions.strokePaletteFiles.push(value);
+        } else {
+          rawOptions.strokes.push(...parseColorList(value, arg));
+        }
+        break;
+      }
+      case "--secondary":
+        rawOptions.secondaryColor = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--secondary-marker":
+        rawOptions.secondaryMarker = parseSecondaryMarker(requireValue(argv[++index], arg));
+        break;
+      case "--color-map":
+        rawOptions.colorMapSource = requireValue(argv[++index], arg);
+        break;
+      case "--replace-color":
+        rawOptions.replaceColors.push(parseColorReplacement(requireValue(argv[++index], arg)));
+        break;
+      case "--replace-tolerance":
+        rawOptions.replaceTolerance = parseReplaceTolerance(requireValue(argv[++index], arg));
         break;
       case "--overwrite":
         rawOptions.overwrite = true;
@@ -131,20 +1429,169 @@ function parseArgs(argv: string[]): RawCliOptions {
       case "--inactive-mix":
         rawOptions.inactiveMix = parseInactiveMix(requireValue(argv[++index], arg));
         break;
+      case "--inactive-model":
+        rawOptions.inactiveColorModel = parseInactiveColorModel(requireValue(argv[++index], arg));
+        break;
+      case "--inactive-style":
+        rawOptions.inactiveStyle = parseInactiveStyle(requireValue(argv[++index], arg));
+        break;
+      case "--inactive-style-option": {
+        const [key, value] = parseInactiveStyleOption(requireValue(argv[++index], arg));
+        rawOptions.inactiveStyleOptions[key] = value;
+        break;
+      }
+      case "--min-contrast":
+        rawOptions.minContrast = parseMinContrast(requireValue(argv[++index], arg));
+        break;
+      case "--gradient":
+        rawOptions.gradientMode = parseGradientMode(requireValue(argv[++index], arg));
+        break;
+      case "--gradient-end":
+        rawOptions.gradientEndColor = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--output-mode":
+        rawOptions.outputMode = parseOutputMode(requireValue(argv[++index], arg));
+        break;
+      case "--state-trigger":
+        rawOptions.stateTrigger = parseStateTrigger(requireValue(argv[++index], arg));
+        break;
+      case "--states":
+        rawOptions.states = parseStates(requireValue(argv[++index], arg));
+        break;
+      case "--bg-shape":
+        rawOptions.backgroundShape = parseBackgroundShape(requireValue(argv[++index], arg));
+        break;
+      case "--bg-path":
+        rawOptions.backgroundPath = requireValue(argv[++index], arg);
+        break;
+      case "--bg-border":
+        rawOptions.backgroundBorder = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--bg-border-width":
+        rawOptions.backgroundBorderWidth = parseBorderWidth(requireValue(argv[++index], arg));
+        break;
+      case "--bg-gradient":
+        rawOptions.backgroundGradient = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--bg-shadow":
+        rawOptions.backgroundShadow = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--active-bg":
+        rawOptions.activeBackground = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--png":
+        rawOptions.png = true;
+        break;
+      case "--sizes":
+        rawOptions.pngSizes = parsePositiveIntegerList(requireValue(argv[++index], arg), arg);
+        break;
+      case "--scales":
+        rawOptions.pngScales = parsePositiveIntegerList(requireValue(argv[++index], arg), arg);
+        break;
+      case "--sprite":
+        rawOptions.sprite = true;
+        break;
+      case "--format":
+        rawOptions.formats = parseOutputFormats(requireValue(argv[++index], arg));
+        break;
+      case "--no-sanitize":
+        rawOptions.sanitize = false;
+        break;
+      case "--no-optimize":
+        rawOptions.optimize = false;
+        break;
+      case "--optimize-skip":
+        rawOptions.optimizeSkip = parseOptimizeSteps(requireValue(argv[++index], arg));
+        break;
+      case "--precision":
+        rawOptions.optimizePrecision = parsePrecision(requireValue(argv[++index], arg));
+        break;
+      case "--theme-pair":
+        rawOptions.themePair = true;
+        break;
+      case "--light-toolbar":
+        rawOptions.lightToolbar = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--dark-toolbar":
+        rawOptions.darkToolbar = validateColorInput(requireValue(argv[++index], arg));
+        break;
+      case "--concurrency":
+        rawOptions.concurrency = parseConcurrency(requireValue(argv[++index], arg));
+        break;
+      case "--watch":
+        rawOptions.watch = true;
+        break;
+      case "--config":
+        rawOptions.configPath = requireValue(argv[++index], arg);
+        break;
       default:
-        throw new Error(`Unknown argument: ${arg}`);
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        rawOptions.inputs.push(arg);
     }
   }
 
-  if (!rawOptions.fill && !rawOptions.stroke) {
-    throw new Error("Provide at least one of --fill or --stroke");
+  rawOptions.fill = rawOptions.fills[0];
+  rawOptions.stroke = rawOptions.strokes[0];
+  const hasFillOrStroke =
+    Boolean(rawOptions.fill || rawOptions.stroke) ||
+    rawOptions.fillPaletteFiles.length > 0 ||
+    rawOptions.strokePaletteFiles.length > 0;
+
+  if (rawOptions.replaceColors.length > 0 && hasFillOrStroke) {
+    throw new Error("--replace-color cannot be combined with --fill or --stroke");
+  }
+
+  if (rawOptions.colorMapSource && (hasFillOrStroke || rawOptions.secondaryColor)) {
+    throw new Error("--color-map cannot be combined with --fill, --stroke or --secondary");
+  }
+
+  if (rawOptions.colorMapSource && rawOptions.gradientMode !== "flatten") {
+    throw new Error("--gradient tint and map cannot be combined with --color-map");
+  }
+
+  if ((rawOptions.lightToolbar || rawOptions.darkToolbar) && !rawOptions.themePair) {
+    throw new Error("--light-toolbar and --dark-toolbar require --theme-pair");
+  }
+
+  if ((rawOptions.pngSizes || rawOptions.pngScales) && !rawOptions.png) {
+    throw new Error("--sizes and --scales require --png");
+  }
+
+  if (rawOptions.backgroundShape === "path" && !rawOptions.backgroundPath) {
+    throw new Error("--bg-shape path requires --bg-path");
+  }
+
+  if (rawOptions.backgroundPath && rawOptions.backgroundShape !== "path") {
+    throw new Error("--bg-path requires --bg-shape path");
+  }
+
+  if (rawOptions.backgroundBorderWidth !== undefined && !rawOptions.backgroundBorder) {
+    throw new Error("--bg-border-width requires --bg-border");
   }
 
   return rawOptions;
 }
 
-async function resolveOptions(raw: RawCliOptions): Promise<CliOptions> {
-  const inputPath = await resolveInputPath(raw);
+// Project config runs take their colors from the config, so this only applies to flag-only runs.
+function assertColorSource(raw: RawCliOptions): void {
+  const hasFillOrStroke =
+    Boolean(raw.fill || raw.stroke) || raw.fillPaletteFiles.length > 0 || raw.strokePaletteFiles.length > 0;
+  if (!hasFillOrStroke && !raw.colorMapSource && raw.replaceColors.length === 0) {
+    throw new Error("Provide at least one of --fill, --stroke, --color-map or --replace-color");
+  }
+
+  if (raw.secondaryColor && !hasFillOrStroke) {
+    throw new Error("--secondary requires --fill or --stroke for the primary layer");
+  }
+}
+
+async function resolveOptions(raw: RawCliOptions, fallbackInputPath?: string): Promise<CliOptions> {
+  const inputPath =
+    raw.inputs.length === 0 && !raw.iconPreset && fallbackInputPath
+      ? path.resolve(process.cwd(), fallbackInputPath)
+      : await resolveInputPath(raw);
   const outputSpec = raw.output ? path.resolve(process.cwd(), raw.output) : undefined;
   const extension = path.extname(outputSpec ?? inputPath) || ".svg";
 
@@ -166,11 +1613,48 @@ async function resolveOptions(raw: RawCliOptions): Promise<CliOptions> {
     outputExtension: extension,
     fill: raw.fill,
     stroke: raw.stroke,
+    secondaryColor: raw.secondaryColor,
+    secondaryMarker: raw.secondaryMarker,
+    colorMap: raw.colorMapSource ? await loadColorMap(raw.colorMapSource) : undefined,
+    replaceColors: raw.replaceColors,
+    replaceTolerance: raw.replaceTolerance,
     overwrite: raw.overwrite,
     preserveFillNone: raw.preserveFillNone,
     preserveStrokeNone: raw.preserveStrokeNone,
     generateInactive: raw.generateInactive,
     inactiveMix: raw.inactiveMix,
+    inactiveColorModel: raw.inactiveColorModel,
+    inactiveStyle: raw.inactiveStyle,
+    inactiveStyleOptions: raw.inactiveStyleOptions,
+    minContrast: raw.minContrast,
+    gradientMode: raw.gradientMode,
+    gradientEndColor: raw.gradientEndColor,
+    outputMode: raw.outputMode,
+    stateTrigger: raw.stateTrigger,
+    states: raw.states,
+    themePair: raw.themePair,
+    lightToolbar: raw.lightToolbar,
+    darkToolbar: raw.darkToolbar,
+    backgroundStyle: {
+      shape: raw.backgroundShape,
+      path: raw.backgroundPath,
+      border: raw.backgroundBorder
+        ? { color: raw.backgroundBorder, width: raw.backgroundBorderWidth ?? DEFAULT_BACKGROUND_BORDER_WIDTH }
+        : undefined,
+      gradientEndColor: raw.backgroundGradient,
+      shadow: raw.backgroundShadow ? { color: raw.backgroundShadow } : undefined,
+    },
+    activeBackground: raw.activeBackground,
+    png: raw.png,
+    pngSizes: raw.pngSizes ?? DEFAULT_PNG_SIZES,
+    pngScales: raw.pngScales ?? DEFAULT_PNG_SCALES,
+    formats: raw.formats,
+    sprite: raw.sprite,
+    spriteIdPrefix: baseSource,
+    optimize: raw.optimize,
+    optimizeSkip: raw.optimizeSkip,
+    optimizePrecision: raw.optimizePrecision,
+    sanitize: raw.sanitize,
   };
 }
 
@@ -179,19 +1663,43 @@ async function resolveInputPath(raw: RawCliOptions): Promise<string> {
     return ICON_PRESETS[raw.iconPreset];
   }
 
-  if (!raw.input) {
+  if (raw.inputs.length === 0) {
     throw new Error("Missing --input or --icon");
   }
+  if (raw.inputs.length > 1) {
+    throw new Error(`Expected a single input but got ${raw.inputs.length}: ${raw.inputs.join(", ")}`);
+  }
 
-  const resolved = path.resolve(process.cwd(), raw.input);
+  const resolved = path.resolve(process.cwd(), raw.inputs[0]);
   await assertFileExists(resolved);
   return resolved;
 }
 
-function buildOutputPath(options: CliOptions, variantName: string): string {
+async function loadColorMap(source: string): Promise<ColorMap> {
+  const trimmed = source.trim();
+  const json = trimmed.startsWith("{")
+    ? trimmed
+    : await readColorMapFile(path.resolve(process.cwd(), trimmed));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid --color-map JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseColorMap(parsed);
+}
+
+async function readColorMapFile(filePath: string): Promise<string> {
+  await assertFileExists(filePath);
+  return fs.readFile(filePath, "utf8");
+}
+
+function buildOutputPath(options: CliOptions, variantName: string, extension = options.outputExtension): string {
   return path.join(
     options.outputDir,
-    `${options.outputBaseName}-${variantName}${options.outputExtension}`,
+    `${options.outputBaseName}-${variantName}${extension}`,
   );
 }
 
@@ -206,6 +1714,18 @@ function createSuffix(raw: RawCliOptions): string {
     parts.push(`stroke-${sanitizeForSuffix(raw.stroke)}`);
   }
 
+  if (raw.secondaryColor) {
+    parts.push(`secondary-${sanitizeForSuffix(raw.secondaryColor)}`);
+  }
+
+  if (raw.colorMapSource) {
+    parts.push("mapped");
+  }
+
+  if (raw.replaceColors.length > 0) {
+    parts.push("swapped");
+  }
+
   if (parts.length === 0) {
     return "recolored";
   }
@@ -240,6 +1760,187 @@ function parseInactiveMix(value: string): number {
   return numeric;
 }
 
+function parseInactiveColorModel(value: string): InactiveColorModel {
+  const normalized = value.toLowerCase();
+  if (isInactiveColorModel(normalized)) {
+    return normalized;
+  }
+  throw new Error(`Unknown inactive color model: ${value}. Use ${INACTIVE_COLOR_MODELS.join(" or ")}.`);
+}
+
+function parseInactiveStyle(value: string): string {
+  const normalized = value.toLowerCase();
+  getInactiveStrategy(normalized);
+  return normalized;
+}
+
+function parseInactiveStyleOption(value: string): [string, string | number] {
+  const separator = value.indexOf("=");
+  if (separator <= 0) {
+    throw new Error(`Invalid --inactive-style-option: ${value}. Use <key>=<value>, e.g. opacity=0.3.`);
+  }
+
+  const key = value.slice(0, separator).trim();
+  const rawValue = value.slice(separator + 1).trim();
+  const numeric = Number(rawValue);
+  return [key, rawValue !== "" && Number.isFinite(numeric) ? numeric : rawValue];
+}
+
+function parseMinContrast(value: string): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric < 1 || numeric > 21) {
+    throw new Error("--min-contrast expects a contrast ratio between 1 and 21");
+  }
+  return numeric;
+}
+
+// Commas inside rgb(), hsl() and the like belong to the color, so only top-level commas separate list entries.
+function parseColorList(value: string, flag: string): string[] {
+  const entries: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index <= value.length; index += 1) {
+    const char = value[index];
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if ((char === "," && depth === 0) || index === value.length) {
+      entries.push(value.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+
+  if (entries.some((entry) => !entry)) {
+    throw new Error(`${flag} expects a color, a comma-separated list of colors or a .json/.txt palette file`);
+  }
+  return entries.map((entry) => validateColorInput(entry));
+}
+
+function parseReplaceTolerance(value: string): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric < 0 || numeric > 100) {
+    throw new Error("--replace-tolerance expects a number between 0 and 100");
+  }
+  return numeric;
+}
+
+function parseGradientMode(value: string): GradientMode {
+  const normalized = value.toLowerCase();
+  if (isGradientMode(normalized)) {
+    return normalized;
+  }
+  throw new Error(`Unknown gradient mode: ${value}. Use ${GRADIENT_MODES.join(", ")}.`);
+}
+
+function parseOutputMode(value: string): OutputMode {
+  const normalized = value.toLowerCase();
+  if (isOutputMode(normalized)) {
+    return normalized;
+  }
+  throw new Error(`Unknown output mode: ${value}. Use ${OUTPUT_MODES.join(" or ")}.`);
+}
+
+function parseStateTrigger(value: string): StateTrigger {
+  const normalized = value.toLowerCase();
+  if (isStateTrigger(normalized)) {
+    return normalized;
+  }
+  throw new Error(`Unknown state trigger: ${value}. Use ${STATE_TRIGGERS.join(" or ")}.`);
+}
+
+function parseBackgroundShape(value: string): BackgroundShape {
+  const normalized = value.toLowerCase();
+  if (isBackgroundShape(normalized)) {
+    return normalized;
+  }
+  throw new Error(`Unknown background shape: ${value}. Use ${BACKGROUND_SHAPES.join(", ")}.`);
+}
+
+function parseBorderWidth(value: string): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric < 0) {
+    throw new Error("--bg-border-width expects a number of 0 or greater");
+  }
+  return numeric;
+}
+
+function parsePositiveIntegerList(value: string, flag: string): number[] {
+  const numbers = value.split(",").map((item) => Number(item.trim()));
+  if (numbers.length === 0 || numbers.some((numeric) => !Number.isInteger(numeric) || numeric < 1)) {
+    throw new Error(`${flag} expects comma separated positive integers, e.g. 16,32,64`);
+  }
+  return [...new Set(numbers)];
+}
+
+function parseStates(value: string): BuiltInIconState[] {
+  const states = value.split(",").map((state) => state.trim().toLowerCase()).filter(Boolean);
+  for (const state of states) {
+    if (!isBuiltInIconState(state)) {
+      throw new Error(`Unknown state: ${state}. Use ${BUILT_IN_ICON_STATES.join(", ")}.`);
+    }
+  }
+  return [...new Set(states)] as BuiltInIconState[];
+}
+
+function parseOutputFormats(value: string): OutputFormat[] {
+  const formats = value.split(",").map((format) => format.trim().toLowerCase()).filter(Boolean);
+  for (const format of formats) {
+    if (!isContainerFormat(format) && !isCodeFormat(format)) {
+      throw new Error(`Unknown format: ${format}. Use ${[...CONTAINER_FORMATS, ...CODE_FORMATS].join(", ")}.`);
+    }
+  }
+  return [...new Set(formats)] as OutputFormat[];
+}
+
+function parseConcurrency(value: string): number {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 1) {
+    throw new Error("--concurrency expects a positive integer");
+  }
+  return numeric;
+}
+
+function parseOptimizeSteps(value: string): OptimizeStep[] {
+  const steps = value.split(",").map((step) => step.trim().toLowerCase()).filter(Boolean);
+  for (const step of steps) {
+    if (!isOptimizeStep(step)) {
+      throw new Error(`Unknown optimize step: ${step}. Use ${OPTIMIZE_STEPS.join(", ")}.`);
+    }
+  }
+  return [...new Set(steps)] as OptimizeStep[];
+}
+
+function parsePrecision(value: string): number {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0 || numeric > 8) {
+    throw new Error("--precision expects an integer between 0 and 8");
+  }
+  return numeric;
+}
+
+function parseThemeButton(value: string): ThemeButtonArg {
+  const separator = value.indexOf("=");
+  const name = (separator === -1 ? value : value.slice(0, separator)).trim();
+  const buttonPath = separator === -1 ? undefined : value.slice(separator + 1).trim();
+  if (!isVivaldiButtonName(name) || buttonPath === "") {
+    throw new Error(`Invalid --button value: ${value}. Use <Name> or <Name>=<path>, e.g. Back=icons/back.svg.`);
+  }
+  return { name, path: buttonPath };
+}
+
+function formatContrast(ratio: number | undefined): string {
+  return ratio === undefined ? "" : ` (contrast ${ratio.toFixed(2)}:1)`;
+}
+
+function formatOptimization(report: OptimizeReport | undefined): string {
+  if (!report || report.originalBytes === 0) {
+    return "";
+  }
+  const percent = Math.round((report.savedBytes / report.originalBytes) * 100);
+  return ` (optimized ${report.originalBytes} -> ${report.optimizedBytes} bytes, -${percent}%)`;
+}
+
 async function ensureWritablePath(outputPath: string, overwrite: boolean): Promise<void> {
   try {
     await fs.stat(outputPath);
@@ -254,6 +1955,28 @@ async function ensureWritablePath(outputPath: string, overwrite: boolean): Promi
   }
 }
 
+async function isDirectory(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isDirectory();
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 async function assertFileExists(filePath: string): Promise<void> {
   try {
     const stats = await fs.stat(filePath);
@@ -277,21 +2000,78 @@ function printHelp(): void {
   console.log(`vivaldi-icon-maker\n\n` +
     `Usage:\n` +
     `  vivaldi-icon-maker --icon black --fill #ff0000\n` +
-    `  vivaldi-icon-maker --input path/to/icon.svg --stroke #00ffcc --output recolored.svg\n\n` +
+    `  vivaldi-icon-maker --input path/to/icon.svg --stroke #00ffcc --output recolored.svg\n` +
+    `  vivaldi-icon-maker icons/ 'extra/**/*.svg' --fill #ff0000 --output out/\n` +
+    `  vivaldi-icon-maker --config icons.config.json --overwrite\n` +
+    `  vivaldi-icon-maker inspect third-party.svg --json\n` +
+    `  vivaldi-icon-maker theme --button Back=back.svg --button Reload=reload.svg --fill #ef3939 --theme-name "Red icons"\n\n` +
     `Behavior:\n` +
-    `  Generates an active icon and an inactive icon (desaturated pastel that keeps the base hue). Use --no-inactive to skip the inactive version.\n\n` +
+    `  Generates an active icon and an inactive icon (desaturated pastel that keeps the base hue). Use --no-inactive to skip the inactive version.\n` +
+    `  With several inputs, a directory or a glob, every SVG is processed (--concurrency at a time) into the --output directory,\n` +
+    `  mirroring relative paths. A failed file does not stop the others; the exit code is ${PARTIAL_FAILURE_EXIT_CODE} when some files failed and 1 when all did.\n` +
+    `  Without inputs, a ${PROJECT_CONFIG_FILE_NAMES[0]} (or .mjs/.js/.ts) in the current directory builds every job it lists;\n` +
+    `  color and variant flags override the config values, and --output replaces every job's output directory.\n\n` +
+    `Commands:\n` +
+    `  theme                          Write a Vivaldi theme archive (<name>-theme.zip): settings.json plus one icon per toolbar button.\n` +
+    `                                 Accent = --fill (or --stroke), background = the pastel inactive plate color. Takes the color options below plus:\n` +
+    `    --button <Name>[=<path>]     Toolbar button to replace (repeatable, e.g. Back=back.svg). Without =<path> the --input/--icon SVG is used\n` +
+    `    --theme-name <name>          Theme name shown in Vivaldi (default "Vivaldi Icon Maker <color>")\n` +
+    `  inspect <file...>              List every fill/stroke/stop-color with where it is set, the viewBox and size, gradients,\n` +
+    `                                 masks and unsupported markup, and warn about constructs recoloring gets wrong. Also takes --icon\n` +
+    `    --json                       Print the report as JSON\n\n` +
     `Options:\n` +
     `  -h, --help                     Show this help message\n` +
     `  --icon <${presetList}>          Use a bundled Vivaldi icon preset\n` +
-    `  -i, --input <path>             Path to an SVG file\n` +
-    `  -o, --output <path>            Output file base path (variant suffixes added automatically)\n` +
-    `  -f, --fill <color>             Fill color hex or 'none'\n` +
-    `  -s, --stroke <color>           Stroke color hex or 'none'\n` +
+    `  -i, --input <path>             Path to an SVG file, a directory or a glob (repeatable; bare arguments are inputs too)\n` +
+    `  -o, --output <path>            Output file base path (variant suffixes added automatically); the output directory in batch runs\n` +
+    `  --concurrency <n>              Number of files processed at once in batch runs (default ${DEFAULT_BATCH_CONCURRENCY})\n` +
+    `  --watch                        Keep running and rebuild the files whose source SVG, config or color map changed (implies --overwrite)\n` +
+    `  --config <path>                Project config file with palettes, defaults and jobs (found automatically when no input is given)\n` +
+    `  -f, --fill <color>             Fill color (#hex, rgb(), hsl(), oklch(), named color, currentColor or 'none').\n` +
+    `                                 A comma-separated list or a .json/.txt palette file builds every color (x every --stroke)\n` +
+    `                                 and writes ${CONTACT_SHEET_FILE_NAME} showing all combinations on light and dark toolbars\n` +
+    `  -s, --stroke <color>           Stroke color (same syntax as --fill, including lists and palette files)\n` +
+    `  --secondary <color>            Duotone secondary color for layers matched by --secondary-marker (requires --fill or --stroke)\n` +
+    `  --secondary-marker <marker>    How secondary layers are marked: opacity (default, opacity < 1), class:<name>, data-<name> or data-<name>=<value>\n` +
+    `  --color-map <json|path>        Per-selector colors as JSON, e.g. '{"#outline":{"stroke":"#1e88e5"}}'. Unmatched elements keep their colors\n` +
+    `  --replace-color <from=to>      Swap one source color for another wherever it appears (repeatable, e.g. #000000=#1e88e5)\n` +
+    `  --replace-tolerance <0-100>    How far (OKLab distance x100) a source color may be from <from> and still match (default 0 = exact)\n` +
     `  --overwrite                    Replace the output file if it exists\n` +
     `  --no-preserve-fill-none        Allow replacing fill declarations set to 'none'\n` +
     `  --no-preserve-stroke-none      Allow replacing stroke declarations set to 'none'\n` +
     `  --no-inactive                  Skip generating the inactive icon variant\n` +
-    `  --inactive-mix <0-1>           Strength of desaturation/lightening toward pastel (0 = subtle, 1 = very pale, default 0.5)`);
+    `  --inactive-mix <0-1>           Strength of desaturation/lightening toward pastel (0 = subtle, 1 = very pale, default 0.5)\n` +
+    `  --inactive-model <hsl|oklch>   Color space for the inactive transform (oklch keeps perceived lightness even, default hsl)\n` +
+    `  --inactive-style <name>        Inactive look: ${listInactiveStrategies().join(", ")} (default ${DEFAULT_INACTIVE_STYLE}, ${THEMED_INACTIVE_STYLE} with --theme-pair)\n` +
+    `  --inactive-style-option <k=v>  Parameter for the inactive style (repeatable): opacity=0.4 (opacity), outlineWidth=1 (outline), color=#9e9e9e / background=<color> (solid)\n` +
+    `  --states <list>                Extra state variants, comma separated: ${BUILT_IN_ICON_STATES.join(", ")} (one file per state)\n` +
+    `  --bg-shape <shape>             Background plate shape: ${BACKGROUND_SHAPES.join(", ")} (default ${DEFAULT_BACKGROUND_SHAPE})\n` +
+    `  --bg-path <d>                  Path data for --bg-shape path, drawn in a 0-1 unit square and scaled to the plate\n` +
+    `  --bg-border <color>            Border stroke around the background plate\n` +
+    `  --bg-border-width <n>          Border width in viewBox units (default ${DEFAULT_BACKGROUND_BORDER_WIDTH})\n` +
+    `  --bg-gradient <color>          Fill the plate with a vertical gradient from its color to this color\n` +
+    `  --bg-shadow <color>            Drop shadow under the plate (e.g. #00000040)\n` +
+    `  --active-bg <color>            Add a background plate to the active icon as well\n` +
+    `  --png                          Also write PNG files for every variant (<name>-<variant>-<size>.png, @2x for scale 2)\n` +
+    `  --sizes <list>                 PNG sizes in px, comma separated (default ${DEFAULT_PNG_SIZES.join(",")})\n` +
+    `  --scales <list>                PNG scale factors, comma separated (default ${DEFAULT_PNG_SCALES.join(",")})\n` +
+    `  --format <list>                Extra outputs, comma separated: ${CONTAINER_FORMATS.join(", ")} (ico 16-256px, icns 16-1024px per variant),\n` +
+    `                                 react (<name>-<variant>.tsx component with size/title/className props), data-uri (<name>-data-uri.js)\n` +
+    `                                 and css (<name>-icons.css with background-image and -mask classes per variant)\n` +
+    `  --sprite                       Write one <symbol> sprite (<name>-sprite.svg, ids like vivaldi-black-inactive) plus an HTML preview instead of separate SVG files\n` +
+    `                                 (batches write a single sprite.svg and sprite.html in the output directory for all inputs)\n` +
+    `  --no-sanitize                  Keep the input as-is instead of stripping scripts, event handlers, external references and unknown markup\n` +
+    `  --no-optimize                  Keep the generated SVG markup as-is instead of minifying it (optimization is on by default)\n` +
+    `  --optimize-skip <list>         Optimizer steps to skip, comma separated: ${OPTIMIZE_STEPS.join(", ")}\n` +
+    `  --precision <0-8>              Decimal places kept when rounding path data and coordinates (default ${DEFAULT_OPTIMIZE_PRECISION})\n` +
+    `  --theme-pair                   Generate a light and a dark set (light-active, dark-inactive, ...) tuned to each toolbar background\n` +
+    `  --light-toolbar <color>        Toolbar background for the light set (default ${DEFAULT_TOOLBAR_BACKGROUNDS.light})\n` +
+    `  --dark-toolbar <color>         Toolbar background for the dark set (default ${DEFAULT_TOOLBAR_BACKGROUNDS.dark})\n` +
+    `  --min-contrast <ratio>         Nudge inactive colors until they reach this contrast against their background (default 3, 1 disables)\n` +
+    `  --gradient <flatten|tint|map>  How url(#gradient) paints are handled: flatten to a solid color (default), tint stops toward the color, or map first/last stops\n` +
+    `  --gradient-end <color>         Color for the last gradient stop in map mode (the first stop uses --fill/--stroke)\n` +
+    `  --output-mode <static|css-variables>  Write colors as-is (default) or as var(--vim-active-fill, #hex) custom properties plus a *-combined.svg with both states\n` +
+    `  --state-trigger <class|hover>  How the combined SVG switches state: add class "vim-inactive" (default) or show active on :hover`);
 }
 
 void main();
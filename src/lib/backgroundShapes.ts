@@ -0,0 +1,296 @@
+import { clampRatio } from "./colorTransforms.js";
+import {
+  appendChild,
+  collectElements,
+  createElement,
+  getAttribute,
+  insertChild,
+  parseSvgDocument,
+  removeNode,
+  replaceNode,
+  requireRootSvg,
+  serializeSvgDocument,
+  setAttribute,
+  SvgElement,
+} from "./svgDocument.js";
+import { BACKGROUND_MARKER_ATTRIBUTE } from "./svgPaint.js";
+
+export type BackgroundShape = "rect" | "circle" | "squircle" | "pill" | "path";
+
+export interface BackgroundBorder {
+  color: string;
+  width: number;
+}
+
+export interface BackgroundShadow {
+  color: string;
+  blur?: number;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+export interface BackgroundStyle {
+  shape?: BackgroundShape;
+  path?: string;
+  border?: BackgroundBorder;
+  gradientEndColor?: string;
+  shadow?: BackgroundShadow;
+}
+
+export interface BackgroundPlate extends BackgroundStyle {
+  color: string;
+  cornerRadius: number;
+  insetRatio: number;
+  outlineWidth?: number;
+}
+
+export const BACKGROUND_SHAPES: BackgroundShape[] = ["rect", "circle", "squircle", "pill", "path"];
+export const DEFAULT_BACKGROUND_SHAPE: BackgroundShape = "rect";
+export const DEFAULT_BACKGROUND_BORDER_WIDTH = 1;
+export const DEFAULT_SHADOW_COLOR = "#00000040";
+
+const SQUIRCLE_EXPONENT = 4;
+const SQUIRCLE_SEGMENTS = 64;
+
+export interface ViewBoxValues {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+export function isBackgroundShape(value: string): value is BackgroundShape {
+  return (BACKGROUND_SHAPES as string[]).includes(value);
+}
+
+export function addOrUpdateBackgroundPlate(svgContent: string, plate: BackgroundPlate): string {
+  const document = parseSvgDocument(svgContent);
+  const root = requireRootSvg(document);
+  const plateElement = buildBackgroundPlate(root, plate);
+
+  const [existing, ...duplicates] = collectElements(
+    root.children,
+    (element) => getAttribute(element, BACKGROUND_MARKER_ATTRIBUTE) === "true",
+  );
+
+  if (existing?.parent) {
+    replaceNode(existing.parent, existing, plateElement);
+    duplicates.forEach((duplicate) => duplicate.parent && removeNode(duplicate.parent, duplicate));
+  } else {
+    insertChild(root, 0, plateElement);
+    insertChild(root, 0, { type: "text", value: "\n  " });
+  }
+
+  return serializeSvgDocument(document);
+}
+
+export function extractViewBox(root: SvgElement): ViewBoxValues | undefined {
+  const viewBox = getAttribute(root, "viewBox");
+  if (!viewBox) {
+    return undefined;
+  }
+
+  const parts = viewBox.trim().split(/[\s,]+/);
+  if (parts.length !== 4) {
+    return undefined;
+  }
+
+  const [minXRaw, minYRaw, widthRaw, heightRaw] = parts.map(Number);
+  if ([minXRaw, minYRaw, widthRaw, heightRaw].some((value) => Number.isNaN(value))) {
+    return undefined;
+  }
+
+  return { minX: minXRaw, minY: minYRaw, width: widthRaw, height: heightRaw };
+}
+
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value)) {
+    return value.toString();
+  }
+  return value.toFixed(4).replace(/0+$/g, "").replace(/\.$/, "");
+}
+
+function buildBackgroundPlate(root: SvgElement, plate: BackgroundPlate): SvgElement {
+  const shape = plate.shape ?? DEFAULT_BACKGROUND_SHAPE;
+  const viewBox = extractViewBox(root);
+  const box = viewBox ? insetViewBox(viewBox, clampRatio(plate.insetRatio)) : undefined;
+  const wrapped = plate.gradientEndColor !== undefined || plate.shadow !== undefined;
+  const marker: Record<string, string> = wrapped ? {} : { [BACKGROUND_MARKER_ATTRIBUTE]: "true" };
+  const element = box
+    ? buildShapeInBox(shape, box, plate, marker)
+    : buildShapeWithPercent(shape, plate, marker);
+
+  if (plate.outlineWidth !== undefined) {
+    setAttribute(element, "fill", "none");
+    setAttribute(element, "stroke", plate.color);
+    setAttribute(element, "stroke-width", formatNumber(plate.outlineWidth));
+  }
+
+  if (plate.border) {
+    setAttribute(element, "stroke", plate.border.color);
+    setAttribute(element, "stroke-width", formatNumber(plate.border.width));
+    if (shape === "path") {
+      setAttribute(element, "vector-effect", "non-scaling-stroke");
+    }
+  }
+
+  if (!wrapped) {
+    return element;
+  }
+
+  const group = createElement("g", { [BACKGROUND_MARKER_ATTRIBUTE]: "true" });
+  const defs = createElement("defs", {});
+
+  if (plate.gradientEndColor !== undefined) {
+    const id = `vim-bg-gradient-${toIdPart(plate.color)}-${toIdPart(plate.gradientEndColor)}`;
+    const gradient = createElement("linearGradient", { id, x1: "0", y1: "0", x2: "0", y2: "1" });
+    appendChild(gradient, createElement("stop", { offset: "0", "stop-color": plate.color }));
+    appendChild(gradient, createElement("stop", { offset: "1", "stop-color": plate.gradientEndColor }));
+    appendChild(defs, gradient);
+    if (plate.outlineWidth === undefined) {
+      setAttribute(element, "fill", `url(#${id})`);
+    }
+  }
+
+  if (plate.shadow) {
+    const size = box ? Math.min(box.width, box.height) : 24;
+    const { color, blur = size * 0.03, offsetX = 0, offsetY = size * 0.02 } = plate.shadow;
+    const id = `vim-bg-shadow-${toIdPart(color)}`;
+    const filter = createElement("filter", { id, x: "-20%", y: "-20%", width: "140%", height: "140%" });
+    appendChild(
+      filter,
+      createElement("feDropShadow", {
+        dx: formatNumber(offsetX),
+        dy: formatNumber(offsetY),
+        stdDeviation: formatNumber(blur),
+        "flood-color": color,
+      }),
+    );
+    appendChild(defs, filter);
+    setAttribute(group, "filter", `url(#${id})`);
+  }
+
+  appendChild(group, defs);
+  appendChild(group, element);
+  return group;
+}
+
+function insetViewBox(viewBox: ViewBoxValues, insetRatio: number): ViewBoxValues {
+  const width = viewBox.width * (1 - insetRatio);
+  const height = viewBox.height * (1 - insetRatio);
+  return {
+    minX: viewBox.minX + (viewBox.width - width) / 2,
+    minY: viewBox.minY + (viewBox.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function buildShapeInBox(
+  shape: BackgroundShape,
+  box: ViewBoxValues,
+  plate: BackgroundPlate,
+  marker: Record<string, string>,
+): SvgElement {
+  const centerX = box.minX + box.width / 2;
+  const centerY = box.minY + box.height / 2;
+  const halfSide = Math.min(box.width, box.height) / 2;
+
+  switch (shape) {
+    case "rect":
+    case "pill": {
+      const radius = shape === "pill" ? formatNumber(halfSide) : `${plate.cornerRadius}`;
+      return createElement("rect", {
+        ...marker,
+        x: formatNumber(box.minX),
+        y: formatNumber(box.minY),
+        width: formatNumber(box.width),
+        height: formatNumber(box.height),
+        rx: radius,
+        ry: radius,
+        fill: plate.color,
+      });
+    }
+    case "circle":
+      return createElement("circle", {
+        ...marker,
+        cx: formatNumber(centerX),
+        cy: formatNumber(centerY),
+        r: formatNumber(halfSide),
+        fill: plate.color,
+      });
+    case "squircle":
+      return createElement("path", {
+        ...marker,
+        d: buildSquirclePath(centerX, centerY, box.width / 2, box.height / 2),
+        fill: plate.color,
+      });
+    case "path":
+      return createElement("path", {
+        ...marker,
+        d: requirePath(plate),
+        transform: `translate(${formatNumber(box.minX)} ${formatNumber(box.minY)}) scale(${formatNumber(box.width)} ${formatNumber(box.height)})`,
+        fill: plate.color,
+      });
+  }
+}
+
+function buildShapeWithPercent(
+  shape: BackgroundShape,
+  plate: BackgroundPlate,
+  marker: Record<string, string>,
+): SvgElement {
+  const insetRatio = clampRatio(plate.insetRatio);
+
+  if (shape === "rect") {
+    const insetPercent = ((insetRatio * 100) / 2).toFixed(2);
+    const sizePercent = (100 - insetRatio * 100).toFixed(2);
+    return createElement("rect", {
+      ...marker,
+      x: `${insetPercent}%`,
+      y: `${insetPercent}%`,
+      width: `${sizePercent}%`,
+      height: `${sizePercent}%`,
+      rx: `${plate.cornerRadius}`,
+      ry: `${plate.cornerRadius}`,
+      fill: plate.color,
+    });
+  }
+
+  if (shape === "circle") {
+    return createElement("circle", {
+      ...marker,
+      cx: "50%",
+      cy: "50%",
+      r: `${((100 - insetRatio * 100) / 2).toFixed(2)}%`,
+      fill: plate.color,
+    });
+  }
+
+  throw new Error(`Background shape "${shape}" requires a viewBox on the root <svg>.`);
+}
+
+function buildSquirclePath(centerX: number, centerY: number, radiusX: number, radiusY: number): string {
+  const points: string[] = [];
+  for (let index = 0; index < SQUIRCLE_SEGMENTS; index += 1) {
+    const angle = (index / SQUIRCLE_SEGMENTS) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const x = centerX + radiusX * Math.sign(cos) * Math.abs(cos) ** (2 / SQUIRCLE_EXPONENT);
+    const y = centerY + radiusY * Math.sign(sin) * Math.abs(sin) ** (2 / SQUIRCLE_EXPONENT);
+    points.push(`${formatNumber(x)} ${formatNumber(y)}`);
+  }
+  return `M${points.join(" L")} Z`;
+}
+
+function requirePath(plate: BackgroundPlate): string {
+  const path = plate.path?.trim();
+  if (!path) {
+    throw new Error("Background shape \"path\" requires path data in a 0-1 unit square, e.g. M0 0.5 L0.5 0 L1 0.5 L0.5 1 Z.");
+  }
+  return path;
+}
+
+function toIdPart(color: string): string {
+  return color.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
@@ -0,0 +1,185 @@
+import { extractViewBox, formatNumber } from "./backgroundShapes.js";
+import { getAttribute, localName, parseSvgDocument, requireRootSvg, serializeNode } from "./svgDocument.js";
+import { forEachDeclaration } from "./svgStyles.js";
+
+export type CodeFormat = "react" | "data-uri" | "css";
+
+export interface CodeOutputEntry {
+  name: string;
+  svg: string;
+}
+
+export const CODE_FORMATS: CodeFormat[] = ["react", "data-uri", "css"];
+export const DEFAULT_COMPONENT_SIZE = 24;
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+// role and aria-hidden are set from the title prop, so copying the source's would duplicate them in the JSX.
+const COMPONENT_ROOT_SKIPPED = new Set(["xmlns", "id", "width", "height", "class", "style", "role", "aria-hidden"]);
+
+export function isCodeFormat(value: string): value is CodeFormat {
+  return (CODE_FORMATS as string[]).includes(value);
+}
+
+// Percent-encodes everything except characters that are safe both inside a JS string and a quoted CSS
+// url(), keeping the URI readable while the SVG round-trips byte for byte.
+export function createSvgDataUri(svgContent: string): string {
+  const encoded = encodeURIComponent(svgContent)
+    .replace(/%20/g, " ")
+    .replace(/%3D/g, "=")
+    .replace(/%3A/g, ":")
+    .replace(/%2F/g, "/")
+    .replace(/%2C/g, ",")
+    .replace(/%3B/g, ";")
+    .replace(/'/g, "%27")
+    .replace(/\(/g, "%28")
+    .replace(/\)/g, "%29");
+  return `data:image/svg+xml,${encoded}`;
+}
+
+export function createComponentName(...parts: string[]): string {
+  const name = parts
+    .join("-")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Z]/.test(name) ? name : `Icon${name}`;
+}
+
+export function createCssClassName(...parts: string[]): string {
+  const name = parts
+    .join("-")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return /^[A-Za-z_]/.test(name) ? name : `icon-${name}`;
+}
+
+export function createReactComponent(svgContent: string, componentName: string): string {
+  const root = requireRootSvg(parseSvgDocument(svgContent));
+  // The title prop supplies the accessible name, so the source's own <title> would be a second one.
+  const markup = root.children
+    .filter((child) => child.type !== "element" || localName(child.name) !== "title")
+    .map(serializeNode)
+    .join("");
+  const rootClass = getAttribute(root, "class")?.trim();
+  const rootStyle = readStyleObject(getAttribute(root, "style"));
+
+  const attributes = root.attributes
+    .filter((attribute) => !COMPONENT_ROOT_SKIPPED.has(attribute.name.toLowerCase()))
+    .map((attribute) => `      ${toJsxAttributeName(attribute.name)}=${formatJsxValue(attribute.value)}`);
+  const width = readPixelLength(getAttribute(root, "width"));
+  const height = readPixelLength(getAttribute(root, "height"));
+  if (!extractViewBox(root) && width && height) {
+    // width/height are replaced by the size prop, so keep the original coordinate system in a viewBox.
+    attributes.push(`      viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}"`);
+  }
+
+  const className = rootClass
+    ? `{[${JSON.stringify(rootClass)}, className].filter(Boolean).join(" ")}`
+    : "{className}";
+  const styleLine = rootStyle ? `      style={{ ...(${JSON.stringify(rootStyle)} as CSSProperties), ...style }}\n` : "";
+  const typeImports = rootStyle ? "CSSProperties, SVGProps" : "SVGProps";
+
+  return (
+    `import type { ${typeImports} } from "react";\n\n` +
+    `export interface ${componentName}Props extends Omit<SVGProps<SVGSVGElement>, "children" | "dangerouslySetInnerHTML"> {\n` +
+    `  size?: number | string;\n` +
+    `  title?: string;\n` +
+    `}\n\n` +
+    `const MARKUP = ${JSON.stringify(markup)};\n\n` +
+    `function escapeTitle(title: string): string {\n` +
+    `  return title.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");\n` +
+    `}\n\n` +
+    `export function ${componentName}({ size = ${DEFAULT_COMPONENT_SIZE}, title, className${rootStyle ? ", style" : ""}, ...props }: ${componentName}Props) {\n` +
+    `  return (\n` +
+    `    <svg\n` +
+    `      xmlns="${SVG_NAMESPACE}"\n` +
+    (attributes.length > 0 ? `${attributes.join("\n")}\n` : "") +
+    `      width={size}\n` +
+    `      height={size}\n` +
+    `      className=${className}\n` +
+    styleLine +
+    `      role={title ? "img" : undefined}\n` +
+    `      aria-hidden={title ? undefined : true}\n` +
+    `      {...props}\n` +
+    `      dangerouslySetInnerHTML={{ __html: title ? \`<title>\${escapeTitle(title)}</title>\${MARKUP}\` : MARKUP }}\n` +
+    `    />\n` +
+    `  );\n` +
+    `}\n\n` +
+    `export default ${componentName};\n`
+  );
+}
+
+export function createDataUriModule(entries: CodeOutputEntry[]): string {
+  const lines = entries.map(
+    (entry) => `export const ${toCamelCase(entry.name)}DataUri = ${JSON.stringify(createSvgDataUri(entry.svg))};`,
+  );
+  const map = entries.map((entry) => `  ${JSON.stringify(entry.name)}: ${toCamelCase(entry.name)}DataUri,`);
+  return `${lines.join("\n")}\n\nexport default {\n${map.join("\n")}\n};\n`;
+}
+
+// Each variant gets a background-image class that shows the icon as drawn, and a -mask class that uses
+// the icon as a mask over currentColor so the page text color tints it.
+export function createCssClasses(entries: CodeOutputEntry[], classPrefix: string): string {
+  return entries
+    .map((entry) => {
+      const className = createCssClassName(classPrefix, entry.name);
+      const url = `url("${createSvgDataUri(entry.svg)}")`;
+      return (
+        `.${className} {\n` +
+        `  background-image: ${url};\n` +
+        `  background-position: center;\n` +
+        `  background-repeat: no-repeat;\n` +
+        `  background-size: contain;\n` +
+        `}\n\n` +
+        `.${className}-mask {\n` +
+        `  background-color: currentColor;\n` +
+        `  -webkit-mask-image: ${url};\n` +
+        `  mask-image: ${url};\n` +
+        `  -webkit-mask-position: center;\n` +
+        `  mask-position: center;\n` +
+        `  -webkit-mask-repeat: no-repeat;\n` +
+        `  mask-repeat: no-repeat;\n` +
+        `  -webkit-mask-size: contain;\n` +
+        `  mask-size: contain;\n` +
+        `}\n`
+      );
+    })
+    .join("\n");
+}
+
+function toCamelCase(value: string): string {
+  const name = createComponentName(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function toJsxAttributeName(name: string): string {
+  if (name.startsWith("data-") || name.startsWith("aria-")) {
+    return name;
+  }
+  return name.replace(/[-:]([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+function formatJsxValue(value: string): string {
+  return /^[^"&{}<>\\]*$/.test(value) ? `"${value}"` : `{${JSON.stringify(value)}}`;
+}
+
+function readStyleObject(style: string | undefined): Record<string, string> | undefined {
+  if (!style?.trim()) {
+    return undefined;
+  }
+
+  const object: Record<string, string> = {};
+  forEachDeclaration(style, (property, value) => {
+    const key = property.startsWith("--")
+      ? property
+      : property.replace(/^-ms-/, "ms-").replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+    object[key] = value;
+  });
+  return Object.keys(object).length > 0 ? object : undefined;
+}
+
+function readPixelLength(value: string | undefined): number | undefined {
+  const numeric = Number((value ?? "").trim().replace(/px$/i, ""));
+  return numeric > 0 ? numeric : undefined;
+}
@@ -0,0 +1,200 @@
+import { isNoneColor, normalizeCssColor } from "./cssColor.js";
+import {
+  getAttribute,
+  getUrlReferenceId,
+  localName,
+  parseSvgDocument,
+  SvgDocument,
+  SvgElement,
+  SvgNode,
+  walkElements,
+} from "./svgDocument.js";
+import {
+  collectCompiledStyleRules,
+  CompiledStyleRule,
+  getEffectivePaint,
+  isRecolorTarget,
+  readPaintSources,
+  writePaint,
+} from "./svgPaint.js";
+import { compileSelector, getClassList, SelectorMatcher } from "./svgSelectors.js";
+
+export interface ColorMapEntry {
+  fill?: string;
+  stroke?: string;
+}
+
+export type ColorMap = Record<string, ColorMapEntry>;
+
+export interface ApplyColorMapOptions {
+  preserveFillNone: boolean;
+  preserveStrokeNone: boolean;
+  preserveUrlPaints?: boolean;
+  forceInheritedOnly?: boolean;
+}
+
+export interface ColorAssignment {
+  matches: SelectorMatcher;
+  entry: ColorMapEntry;
+}
+
+const PAINT_PROPERTIES = ["fill", "stroke"] as const;
+
+export function parseColorMap(input: unknown): ColorMap {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error("Color map must be a JSON object whose keys are selectors, e.g. {\"#outline\": {\"stroke\": \"#1e88e5\"}}.");
+  }
+
+  const result: ColorMap = {};
+
+  for (const [selector, value] of Object.entries(input as Record<string, unknown>)) {
+    compileSelector(selector, { allowBareNames: true });
+
+    if (typeof value === "string") {
+      result[selector] = { fill: normalizeCssColor(value) };
+      continue;
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Color map entry "${selector}" must be a color string or an object with fill/stroke.`);
+    }
+
+    const entry: ColorMapEntry = {};
+    for (const [key, color] of Object.entries(value as Record<string, unknown>)) {
+      if (key !== "fill" && key !== "stroke") {
+        throw new Error(`Color map entry "${selector}" has unknown key "${key}". Use fill or stroke.`);
+      }
+      if (color === undefined) {
+        continue;
+      }
+      if (typeof color !== "string") {
+        throw new Error(`Color map entry "${selector}.${key}" must be a color string.`);
+      }
+      entry[key] = normalizeCssColor(color);
+    }
+
+    if (!entry.fill && !entry.stroke) {
+      throw new Error(`Color map entry "${selector}" needs a fill or stroke color.`);
+    }
+    result[selector] = entry;
+  }
+
+  return result;
+}
+
+export function hasColorMapEntries(colorMap: ColorMap | undefined): colorMap is ColorMap {
+  return colorMap !== undefined && Object.keys(colorMap).length > 0;
+}
+
+export function transformColorMap(
+  colorMap: ColorMap,
+  transform: (color: string | undefined) => string | undefined,
+): ColorMap {
+  return Object.fromEntries(
+    Object.entries(colorMap).map(([selector, entry]) => [
+      selector,
+      { fill: transform(entry.fill), stroke: transform(entry.stroke) },
+    ]),
+  );
+}
+
+export function applyColorMap(document: SvgDocument, colorMap: ColorMap, options: ApplyColorMapOptions): void {
+  const assignments: ColorAssignment[] = Object.entries(colorMap).map(([selector, entry]) => ({
+    matches: compileSelector(selector, { allowBareNames: true }),
+    entry,
+  }));
+
+  applyColorAssignments(document, assignments, options);
+}
+
+export function applyColorAssignments(
+  document: SvgDocument,
+  assignments: ColorAssignment[],
+  options: ApplyColorMapOptions,
+): void {
+  visitNodes(document.children, undefined, assignments, collectCompiledStyleRules(document), options);
+}
+
+export function collectLayerSelectors(svgContent: string): string[] {
+  const selectors = new Set<string>();
+
+  walkElements(parseSvgDocument(svgContent).children, (element) => {
+    if (!isRecolorTarget(element) || localName(element.name) === "style") {
+      return false;
+    }
+    if (localName(element.name) !== "svg") {
+      const id = getAttribute(element, "id");
+      if (id) {
+        selectors.add(`#${id}`);
+      }
+      getClassList(element).forEach((className) => selectors.add(`.${className}`));
+    }
+    return true;
+  });
+
+  return [...selectors];
+}
+
+function visitNodes(
+  nodes: SvgNode[],
+  inherited: ColorMapEntry | undefined,
+  entries: ColorAssignment[],
+  rules: CompiledStyleRule[],
+  options: ApplyColorMapOptions,
+): void {
+  for (const node of nodes) {
+    if (node.type !== "element" || !isRecolorTarget(node) || localName(node.name) === "style") {
+      continue;
+    }
+
+    const own = entries
+      .filter(({ matches }) => matches(node))
+      .reduce<ColorMapEntry | undefined>((merged, { entry }) => ({ ...merged, ...definedOnly(entry) }), undefined);
+    const effective = own ? { ...inherited, ...own } : inherited;
+
+    if (effective) {
+      for (const property of PAINT_PROPERTIES) {
+        const color = effective[property];
+        if (!color) {
+          continue;
+        }
+
+        const preserveNone = property === "fill" ? options.preserveFillNone : options.preserveStrokeNone;
+        const sources = readPaintSources(node, property, rules);
+        const current = getEffectivePaint(sources);
+        if (preserveNone && current !== undefined && isNoneColor(current) && !isNoneColor(color)) {
+          continue;
+        }
+        if (options.preserveUrlPaints && current !== undefined && getUrlReferenceId(current)) {
+          continue;
+        }
+
+        const force =
+          own?.[property] !== undefined && (!options.forceInheritedOnly || hasInheritedPaint(node, property, rules));
+        writePaint(node, property, color, sources, force);
+      }
+    }
+
+    visitNodes(node.children, effective, entries, rules, options);
+  }
+}
+
+function hasInheritedPaint(node: SvgElement, property: string, rules: CompiledStyleRule[]): boolean {
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    if (getEffectivePaint(readPaintSources(ancestor, property, rules)) !== undefined) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function definedOnly(entry: ColorMapEntry): ColorMapEntry {
+  const result: ColorMapEntry = {};
+  if (entry.fill) {
+    result.fill = entry.fill;
+  }
+  if (entry.stroke) {
+    result.stroke = entry.stroke;
+  }
+  return result;
+}
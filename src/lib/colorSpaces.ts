@@ -0,0 +1,205 @@
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface Hsla {
+  h: number;
+  s: number;
+  l: number;
+  a: number;
+}
+
+export interface Oklab {
+  l: number;
+  a: number;
+  b: number;
+  alpha: number;
+}
+
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+  alpha: number;
+}
+
+export function rgbToHsl(color: Rgba): Hsla {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let h = 0;
+  if (delta !== 0) {
+    if (max === r) {
+      h = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      h = (b - r) / delta + 2;
+    } else {
+      h = (r - g) / delta + 4;
+    }
+    h *= 60;
+    if (h < 0) {
+      h += 360;
+    }
+  }
+
+  const l = (max + min) / 2;
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+
+  return { h, s, l, a: color.a };
+}
+
+export function hslToRgb(color: Hsla): Rgba {
+  const h = color.h / 360;
+  const s = clamp01(color.s);
+  const l = clamp01(color.l);
+
+  if (s === 0) {
+    const gray = Math.round(l * 255);
+    return { r: gray, g: gray, b: gray, a: color.a };
+  }
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  const r = clampChannel(Math.round(hueToRgb(p, q, h + 1 / 3) * 255));
+  const g = clampChannel(Math.round(hueToRgb(p, q, h) * 255));
+  const b = clampChannel(Math.round(hueToRgb(p, q, h - 1 / 3) * 255));
+
+  return { r, g, b, a: color.a };
+}
+
+export function hwbToRgb(h: number, whiteness: number, blackness: number, alpha: number): Rgba {
+  const w = clamp01(whiteness);
+  const bl = clamp01(blackness);
+  if (w + bl >= 1) {
+    const gray = Math.round((w / (w + bl)) * 255);
+    return { r: gray, g: gray, b: gray, a: alpha };
+  }
+
+  const base = hslToRgb({ h, s: 1, l: 0.5, a: alpha });
+  const scale = 1 - w - bl;
+  const offset = w * 255;
+
+  return {
+    r: clampChannel(Math.round(base.r * scale + offset)),
+    g: clampChannel(Math.round(base.g * scale + offset)),
+    b: clampChannel(Math.round(base.b * scale + offset)),
+    a: alpha,
+  };
+}
+
+export function rgbToOklab(color: Rgba): Oklab {
+  const r = srgbToLinear(color.r / 255);
+  const g = srgbToLinear(color.g / 255);
+  const b = srgbToLinear(color.b / 255);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    alpha: color.a,
+  };
+}
+
+export function oklabToRgb(color: Oklab): Rgba {
+  const [r, g, b] = oklabToLinearSrgb(color);
+
+  return {
+    r: clampChannel(Math.round(linearToSrgb(r) * 255)),
+    g: clampChannel(Math.round(linearToSrgb(g) * 255)),
+    b: clampChannel(Math.round(linearToSrgb(b) * 255)),
+    a: color.alpha,
+  };
+}
+
+export function isOklabInGamut(color: Oklab): boolean {
+  const epsilon = 0.0001;
+  return oklabToLinearSrgb(color).every((channel) => channel >= -epsilon && channel <= 1 + epsilon);
+}
+
+export function oklabToOklch(color: Oklab): Oklch {
+  const c = Math.sqrt(color.a * color.a + color.b * color.b);
+  let h = (Math.atan2(color.b, color.a) * 180) / Math.PI;
+  if (h < 0) {
+    h += 360;
+  }
+  return { l: color.l, c, h, alpha: color.alpha };
+}
+
+export function oklchToOklab(color: Oklch): Oklab {
+  const radians = (color.h * Math.PI) / 180;
+  return {
+    l: color.l,
+    a: color.c * Math.cos(radians),
+    b: color.c * Math.sin(radians),
+    alpha: color.alpha,
+  };
+}
+
+export function relativeLuminance(color: Rgba): number {
+  const r = srgbToLinear(color.r / 255);
+  const g = srgbToLinear(color.g / 255);
+  const b = srgbToLinear(color.b / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+export function clampChannel(value: number): number {
+  return Math.min(Math.max(value, 0), 255);
+}
+
+function oklabToLinearSrgb(color: Oklab): [number, number, number] {
+  const l = (color.l + 0.3963377774 * color.a + 0.2158037573 * color.b) ** 3;
+  const m = (color.l - 0.1055613458 * color.a - 0.0638541728 * color.b) ** 3;
+  const s = (color.l - 0.0894841775 * color.a - 1.291485548 * color.b) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number): number {
+  const clamped = clamp01(value);
+  return clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055;
+}
+
+function hueToRgb(p: number, q: number, t: number): number {
+  let temp = t;
+  if (temp < 0) {
+    temp += 1;
+  }
+  if (temp > 1) {
+    temp -= 1;
+  }
+  if (temp < 1 / 6) {
+    return p + (q - p) * 6 * temp;
+  }
+  if (temp < 1 / 2) {
+    return q;
+  }
+  if (temp < 2 / 3) {
+    return p + (q - p) * (2 / 3 - temp) * 6;
+  }
+  return p;
+}
@@ -1,188 +1,285 @@
-interface Rgba {
-  r: number;
-  g: number;
-  b: number;
-  a: number;
-}
-
-export function createInactiveColor(color: string, mixRatio: number): string {
-  if (color.trim().toLowerCase() === "none") {
+import {
+  hslToRgb,
+  isOklabInGamut,
+  Oklab,
+  Oklch,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToOklab,
+  Rgba,
+  rgbToHsl,
+  rgbToOklab,
+  relativeLuminance,
+} from "./colorSpaces.js";
+import { formatCssColor, hasExplicitAlpha, isCurrentColor, isNoneColor, parseCssColor } from "./cssColor.js";
+
+export type InactiveColorModel = "hsl" | "oklch";
+
+export const INACTIVE_COLOR_MODELS: readonly InactiveColorModel[] = ["hsl", "oklch"];
+export const DEFAULT_INACTIVE_COLOR_MODEL: InactiveColorModel = "hsl";
+export const WCAG_NON_TEXT_CONTRAST_RATIO = 3;
+
+const SECONDARY_MAX_LIGHTNESS = 0.92;
+const GRAYSCALE_TARGET_LIGHTNESS = 0.75;
+
+export function createInactiveColor(
+  color: string,
+  mixRatio: number,
+  model: InactiveColorModel = DEFAULT_INACTIVE_COLOR_MODEL,
+): string {
+  if (isNoneColor(color)) {
     return "none";
   }
+  if (isCurrentColor(color)) {
+    return color;
+  }
 
   const ratio = clamp(mixRatio, 0, 1);
-  const parsed = parseHexColor(color);
-  const { h, s, l } = rgbToHsl(parsed);
+  const parsed = parseCssColor(color);
+  const inactiveRgb = model === "oklch" ? createInactiveOklch(parsed, ratio) : createInactiveHsl(parsed, ratio);
 
-  const desaturation = 0.3 + 0.3 * ratio;
-  const lightBoost = 0.2 + 0.2 * ratio;
+  return formatCssColor(inactiveRgb, hasExplicitAlpha(color));
+}
 
-  const inactiveS = clamp01(s * (1 - desaturation));
-  const inactiveL = clamp01(l + lightBoost);
-  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
+export function createInactiveSecondaryColor(
+  color: string,
+  mixRatio: number,
+  model: InactiveColorModel = DEFAULT_INACTIVE_COLOR_MODEL,
+): string {
+  if (isNoneColor(color)) {
+    return "none";
+  }
+  if (isCurrentColor(color)) {
+    return color;
+  }
 
-  const inactiveRgb = hslToRgb({ h, s: inactiveS, l: inactiveL, a: inactiveAlpha });
+  const ratio = clamp(mixRatio, 0, 1);
+  const parsed = parseCssColor(color);
+  const inactiveRgb =
+    model === "oklch" ? createInactiveSecondaryOklch(parsed, ratio) : createInactiveSecondaryHsl(parsed, ratio);
 
-  return formatHexColor(inactiveRgb, hasExplicitAlpha(color));
+  return formatCssColor(inactiveRgb, hasExplicitAlpha(color));
 }
 
-export function createInactiveBackgroundColor(color: string, mixRatio: number): string {
-  const ratio = clamp(mixRatio, 0, 1);
-  const parsed = parseHexColor(color);
-  const { l } = rgbToHsl(parsed);
+// Drops chroma in OKLab so the gray keeps the perceived lightness of the source, then eases it
+// toward a mid-light gray as the mix grows.
+export function createGrayscaleColor(color: string, mixRatio: number): string {
+  if (isNoneColor(color)) {
+    return "none";
+  }
+  if (isCurrentColor(color)) {
+    return color;
+  }
 
-  const targetLightness = clamp01(l * (1 - ratio) + 0.85 * ratio);
-  const bgRgb = hslToRgb({ h: 0, s: 0, l: targetLightness, a: 1 });
+  const ratio = clamp(mixRatio, 0, 1);
+  const { l, alpha } = rgbToOklab(parseCssColor(color));
+  const lightness = l + (GRAYSCALE_TARGET_LIGHTNESS - l) * ratio;
 
-  return formatHexColor(bgRgb, false);
+  return formatCssColor(oklabToRgb({ l: lightness, a: 0, b: 0, alpha }), hasExplicitAlpha(color));
 }
 
-export function clampRatio(value: number): number {
-  if (value <= 0) {
-    return 0;
+// Recedes a color toward the toolbar it sits on instead of toward white, so the same derivation
+// dims icons on a dark toolbar and pales them on a light one.
+export function createAdaptiveInactiveColor(color: string, mixRatio: number, toolbarBackground: string): string {
+  if (isNoneColor(color)) {
+    return "none";
   }
-  if (value >= 0.9) {
-    return 0.9;
+  if (isCurrentColor(color)) {
+    return color;
   }
-  return value;
-}
-
-function parseHexColor(hex: string): Rgba {
-  const normalized = hex.trim().replace(/^#/, "");
 
-  if (![3, 4, 6, 8].includes(normalized.length)) {
-    throw new Error(`Unsupported color value: ${hex}`);
-  }
+  const ratio = clamp(mixRatio, 0, 1);
+  const parsed = parseCssColor(color);
+  const { l, c, h } = oklabToOklch(rgbToOklab(parsed));
+  const toolbarLightness = rgbToOklab(parseCssColor(toolbarBackground)).l;
 
-  if (normalized.length === 3 || normalized.length === 4) {
-    return parseShortHex(normalized);
-  }
+  const desaturation = 0.3 + 0.3 * ratio;
+  const recede = 0.3 + 0.3 * ratio;
+  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
 
-  return parseLongHex(normalized);
+  const inactiveRgb = oklabToRgb(
+    fitChromaToGamut({
+      l: l + (toolbarLightness - l) * recede,
+      c: c * (1 - desaturation),
+      h,
+      alpha: inactiveAlpha,
+    }),
+  );
+  return formatCssColor(inactiveRgb, hasExplicitAlpha(color));
 }
 
-function parseShortHex(value: string): Rgba {
-  const r = parseInt(value[0] + value[0], 16);
-  const g = parseInt(value[1] + value[1], 16);
-  const b = parseInt(value[2] + value[2], 16);
-  const a = value.length === 4 ? parseInt(value[3] + value[3], 16) / 255 : 1;
+export function mixColors(first: string, second: string, weight: number): string {
+  const ratio = clamp(weight, 0, 1);
+  const a = rgbToOklab(parseCssColor(first));
+  const b = rgbToOklab(parseCssColor(second));
+
+  return formatCssColor(
+    oklabToRgb({
+      l: a.l * ratio + b.l * (1 - ratio),
+      a: a.a * ratio + b.a * (1 - ratio),
+      b: a.b * ratio + b.b * (1 - ratio),
+      alpha: a.alpha * ratio + b.alpha * (1 - ratio),
+    }),
+    hasExplicitAlpha(first) || hasExplicitAlpha(second),
+  );
+}
 
-  return { r, g, b, a };
+export function isInactiveColorModel(value: string): value is InactiveColorModel {
+  return (INACTIVE_COLOR_MODELS as readonly string[]).includes(value);
 }
 
-function parseLongHex(value: string): Rgba {
-  const r = parseInt(value.slice(0, 2), 16);
-  const g = parseInt(value.slice(2, 4), 16);
-  const b = parseInt(value.slice(4, 6), 16);
-  const a = value.length === 8 ? parseInt(value.slice(6, 8), 16) / 255 : 1;
+function createInactiveHsl(parsed: Rgba, ratio: number): Rgba {
+  const { h, s, l } = rgbToHsl(parsed);
+
+  const desaturation = 0.3 + 0.3 * ratio;
+  const lightBoost = 0.2 + 0.2 * ratio;
+
+  const inactiveS = clamp(s * (1 - desaturation), 0, 1);
+  const inactiveL = clamp(l + lightBoost, 0, 1);
+  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
 
-  return { r, g, b, a };
+  return hslToRgb({ h, s: inactiveS, l: inactiveL, a: inactiveAlpha });
 }
 
-function formatHexColor(color: Rgba, includeAlpha: boolean): string {
-  const r = color.r.toString(16).padStart(2, "0");
-  const g = color.g.toString(16).padStart(2, "0");
-  const b = color.b.toString(16).padStart(2, "0");
+// Every input lands on the same OKLab lightness so a palette of inactive icons reads evenly;
+// chroma is reduced by the same desaturation curve as HSL and then clipped into sRGB.
+function createInactiveOklch(parsed: Rgba, ratio: number): Rgba {
+  const { c, h } = oklabToOklch(rgbToOklab(parsed));
 
-  if (includeAlpha) {
-    const alphaByte = Math.round(color.a * 255);
-    const a = alphaByte.toString(16).padStart(2, "0");
-    return `#${r}${g}${b}${a}`;
-  }
+  const desaturation = 0.3 + 0.3 * ratio;
+  const targetLightness = 0.78 + 0.14 * ratio;
+  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
 
-  return `#${r}${g}${b}`;
+  return oklabToRgb(
+    fitChromaToGamut({ l: targetLightness, c: c * (1 - desaturation), h, alpha: inactiveAlpha }),
+  );
 }
 
-function hasExplicitAlpha(input: string): boolean {
-  const length = input.trim().replace(/^#/, "").length;
-  return length === 4 || length === 8;
-}
+// Duotone secondary layers are the quieter role: they lose more saturation than the primary layer
+// but gain less lightness, and never reach white, so the two layers stay distinguishable.
+function createInactiveSecondaryHsl(parsed: Rgba, ratio: number): Rgba {
+  const { h, s, l } = rgbToHsl(parsed);
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(Math.max(value, min), max);
-}
+  const desaturation = 0.45 + 0.3 * ratio;
+  const lightBoost = 0.1 + 0.1 * ratio;
+
+  const inactiveS = clamp(s * (1 - desaturation), 0, 1);
+  const inactiveL = clamp(l + lightBoost, 0, Math.max(l, SECONDARY_MAX_LIGHTNESS));
+  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
 
-interface Hsla {
-  h: number;
-  s: number;
-  l: number;
-  a: number;
+  return hslToRgb({ h, s: inactiveS, l: inactiveL, a: inactiveAlpha });
 }
 
-function rgbToHsl(color: Rgba): Hsla {
-  const r = color.r / 255;
-  const g = color.g / 255;
-  const b = color.b / 255;
+function createInactiveSecondaryOklch(parsed: Rgba, ratio: number): Rgba {
+  const { c, h } = oklabToOklch(rgbToOklab(parsed));
 
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const delta = max - min;
+  const desaturation = 0.45 + 0.3 * ratio;
+  const targetLightness = 0.86 + 0.08 * ratio;
+  const inactiveAlpha = clamp(parsed.a * (1 - 0.1 * ratio), 0, 1);
+
+  return oklabToRgb(
+    fitChromaToGamut({ l: targetLightness, c: c * (1 - desaturation), h, alpha: inactiveAlpha }),
+  );
+}
+
+function fitChromaToGamut(color: Oklch): Oklab {
+  const candidate = oklchToOklab(color);
+  if (isOklabInGamut(candidate)) {
+    return candidate;
+  }
 
-  let h = 0;
-  if (delta !== 0) {
-    if (max === r) {
-      h = ((g - b) / delta) % 6;
-    } else if (max === g) {
-      h = (b - r) / delta + 2;
+  let low = 0;
+  let high = color.c;
+  for (let step = 0; step < 20; step += 1) {
+    const mid = (low + high) / 2;
+    if (isOklabInGamut(oklchToOklab({ ...color, c: mid }))) {
+      low = mid;
     } else {
-      h = (r - g) / delta + 4;
-    }
-    h *= 60;
-    if (h < 0) {
-      h += 360;
+      high = mid;
     }
   }
 
-  const l = (max + min) / 2;
-  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+  return oklchToOklab({ ...color, c: low });
+}
+
+export function createInactiveBackgroundColor(color: string, mixRatio: number): string {
+  const ratio = clamp(mixRatio, 0, 1);
+  const parsed = parseCssColor(color);
+  const { l } = rgbToHsl(parsed);
+
+  const targetLightness = clamp(l * (1 - ratio) + 0.85 * ratio, 0, 1);
+  const bgRgb = hslToRgb({ h: 0, s: 0, l: targetLightness, a: 1 });
 
-  return { h, s, l, a: color.a };
+  return formatCssColor(bgRgb, false);
 }
 
-function hslToRgb(color: Hsla): Rgba {
-  const h = color.h / 360;
-  const s = clamp01(color.s);
-  const l = clamp01(color.l);
+// A neutral plate lifted slightly off the toolbar toward mid-gray: darker than a light toolbar,
+// lighter than a dark one.
+export function createAdaptiveBackgroundColor(toolbarBackground: string, mixRatio: number): string {
+  const ratio = clamp(mixRatio, 0, 1);
+  const toolbarLightness = rgbToOklab(parseCssColor(toolbarBackground)).l;
+  const offset = 0.06 + 0.04 * ratio;
+  const lightness = toolbarLightness > 0.5 ? toolbarLightness - offset : toolbarLightness + offset;
 
-  if (s === 0) {
-    const gray = Math.round(l * 255);
-    return { r: gray, g: gray, b: gray, a: color.a };
-  }
+  return formatCssColor(oklabToRgb({ l: clamp(lightness, 0, 1), a: 0, b: 0, alpha: 1 }), false);
+}
 
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
+export function getContrastRatio(foreground: string, background: string): number {
+  const backgroundRgb = compositeOver(parseCssColor(background), { r: 255, g: 255, b: 255, a: 1 });
+  const foregroundRgb = compositeOver(parseCssColor(foreground), backgroundRgb);
 
-  const r = clampChannel(Math.round(hueToRgb(p, q, h + 1 / 3) * 255));
-  const g = clampChannel(Math.round(hueToRgb(p, q, h) * 255));
-  const b = clampChannel(Math.round(hueToRgb(p, q, h - 1 / 3) * 255));
+  const lighter = Math.max(relativeLuminance(foregroundRgb), relativeLuminance(backgroundRgb));
+  const darker = Math.min(relativeLuminance(foregroundRgb), relativeLuminance(backgroundRgb));
 
-  return { r, g, b, a: color.a };
+  return (lighter + 0.05) / (darker + 0.05);
 }
 
-function hueToRgb(p: number, q: number, t: number): number {
-  let temp = t;
-  if (temp < 0) {
-    temp += 1;
-  }
-  if (temp > 1) {
-    temp -= 1;
+export function adjustColorForContrast(
+  color: string,
+  background: string,
+  minRatio: number,
+): string | undefined {
+  if (getContrastRatio(color, background) >= minRatio) {
+    return color;
   }
-  if (temp < 1 / 6) {
-    return p + (q - p) * 6 * temp;
+
+  const parsed = parseCssColor(color);
+  const hsl = rgbToHsl(parsed);
+  const includeAlpha = hasExplicitAlpha(color);
+
+  for (let step = 1; step <= 100; step += 1) {
+    for (const direction of [-1, 1]) {
+      const lightness = clamp(hsl.l + (step / 100) * direction, 0, 1);
+      const candidate = formatCssColor(hslToRgb({ ...hsl, l: lightness }), includeAlpha);
+      if (getContrastRatio(candidate, background) >= minRatio) {
+        return candidate;
+      }
+    }
   }
-  if (temp < 1 / 2) {
-    return q;
+
+  return undefined;
+}
+
+export function clampRatio(value: number): number {
+  if (value <= 0) {
+    return 0;
   }
-  if (temp < 2 / 3) {
-    return p + (q - p) * (2 / 3 - temp) * 6;
+  if (value >= 0.9) {
+    return 0.9;
   }
-  return p;
+  return value;
 }
 
-function clamp01(value: number): number {
-  return clamp(value, 0, 1);
+function compositeOver(foreground: Rgba, background: Rgba): Rgba {
+  const alpha = foreground.a;
+  return {
+    r: foreground.r * alpha + background.r * (1 - alpha),
+    g: foreground.g * alpha + background.g * (1 - alpha),
+    b: foreground.b * alpha + background.b * (1 - alpha),
+    a: 1,
+  };
 }
 
-function clampChannel(value: number): number {
-  return Math.min(Math.max(value, 0), 255);
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
 }
@@ -0,0 +1,128 @@
+import { createSvgDataUri } from "./codeOutputs.js";
+import { isCurrentColor, isNoneColor, normalizeCssColor } from "./cssColor.js";
+import { DEFAULT_TOOLBAR_BACKGROUNDS, THEME_NAMES, ThemeName } from "./themes.js";
+import type { IconVariant } from "./vivaldiIconMaker.js";
+
+export interface ContactSheetColor {
+  name: string;
+  value: string;
+}
+
+export interface ContactSheetRow {
+  label: string;
+  colors: ContactSheetColor[];
+  variants: IconVariant[];
+}
+
+export interface ContactSheetOptions {
+  title?: string;
+  iconSize?: number;
+  toolbarBackgrounds?: Partial<Record<ThemeName, string>>;
+}
+
+export const DEFAULT_CONTACT_SHEET_ICON_SIZE = 32;
+
+// One row per color combination and one column per variant name; every cell shows the icon on both toolbar
+// backgrounds. Icons are embedded as data URIs so ids and styles inside one icon cannot leak into another.
+export function createContactSheet(rows: ContactSheetRow[], options: ContactSheetOptions = {}): string {
+  const title = options.title ?? "Vivaldi icon contact sheet";
+  const size = options.iconSize ?? DEFAULT_CONTACT_SHEET_ICON_SIZE;
+  const backgrounds: Record<ThemeName, string> = {
+    light: options.toolbarBackgrounds?.light ?? DEFAULT_TOOLBAR_BACKGROUNDS.light,
+    dark: options.toolbarBackgrounds?.dark ?? DEFAULT_TOOLBAR_BACKGROUNDS.dark,
+  };
+  const variantNames = [...new Set(rows.flatMap((row) => row.variants.map((variant) => variant.name)))];
+
+  const header = variantNames.map((name) => `          <th>${escapeHtml(name)}</th>`).join("\n");
+  const body = rows
+    .map((row) => {
+      const cells = variantNames.map((name) => {
+        const variant = row.variants.find((entry) => entry.name === name);
+        return variant ? createVariantCell(variant, backgrounds, size) : `          <td></td>`;
+      });
+      return (
+        `        <tr>\n` +
+        `          <th scope="row">\n` +
+        `            <span class="label">${escapeHtml(row.label)}</span>\n` +
+        row.colors.map((color) => `            ${createColorChip(color.name, color.value)}\n`).join("") +
+        `          </th>\n` +
+        `${cells.join("\n")}\n` +
+        `        </tr>`
+      );
+    })
+    .join("\n");
+
+  const legend = THEME_NAMES.map((theme) => createColorChip(`${theme} toolbar`, backgrounds[theme])).join(" ");
+
+  return (
+    `<!doctype html>\n` +
+    `<html lang="en">\n` +
+    `  <head>\n` +
+    `    <meta charset="utf-8" />\n` +
+    `    <title>${escapeHtml(title)}</title>\n` +
+    `    <style>\n` +
+    `      body { font-family: system-ui, sans-serif; margin: 24px; background: #f4f4f4; color: #222222; }\n` +
+    `      table { border-collapse: separate; border-spacing: 8px; }\n` +
+    `      th { font-size: 12px; font-weight: 600; text-align: left; vertical-align: top; }\n` +
+    `      th[scope="row"] { display: flex; flex-direction: column; gap: 4px; min-width: 160px; }\n` +
+    `      .tiles { display: flex; gap: 4px; }\n` +
+    `      .tile { padding: 10px; border-radius: 6px; line-height: 0; box-shadow: inset 0 0 0 1px rgba(0, 0, 0, 0.08); }\n` +
+    `      .chip { display: inline-flex; align-items: center; gap: 4px; font: 11px ui-monospace, monospace; }\n` +
+    `      .swatch { width: 12px; height: 12px; border-radius: 3px; box-shadow: inset 0 0 0 1px rgba(0, 0, 0, 0.2); }\n` +
+    `      td .chip { display: flex; margin-top: 4px; }\n` +
+    `    </style>\n` +
+    `  </head>\n` +
+    `  <body>\n` +
+    `    <h1>${escapeHtml(title)}</h1>\n` +
+    `    <p>${legend}</p>\n` +
+    `    <table>\n` +
+    `      <thead>\n` +
+    `        <tr>\n` +
+    `          <th></th>\n` +
+    `${header}\n` +
+    `        </tr>\n` +
+    `      </thead>\n` +
+    `      <tbody>\n` +
+    `${body}\n` +
+    `      </tbody>\n` +
+    `    </table>\n` +
+    `  </body>\n` +
+    `</html>\n`
+  );
+}
+
+export function formatColorLabel(value: string): string {
+  try {
+    return normalizeCssColor(value);
+  } catch {
+    return value;
+  }
+}
+
+function createVariantCell(variant: IconVariant, backgrounds: Record<ThemeName, string>, size: number): string {
+  const source = escapeHtml(createSvgDataUri(variant.svg));
+  const tiles = THEME_NAMES.map(
+    (theme) =>
+      `<span class="tile" style="background: ${escapeHtml(backgrounds[theme])}" title="${theme} toolbar">` +
+      `<img src="${source}" width="${size}" height="${size}" alt="${escapeHtml(`${variant.name} on ${theme}`)}" /></span>`,
+  ).join("");
+  const chips = [
+    variant.fill ? createColorChip("fill", variant.fill) : "",
+    variant.stroke ? createColorChip("stroke", variant.stroke) : "",
+  ].join("");
+  return `          <td><div class="tiles">${tiles}</div>${chips}</td>`;
+}
+
+function createColorChip(name: string, value: string): string {
+  const label = formatColorLabel(value);
+  const swatch = isNoneColor(value) || isCurrentColor(value) ? "" : `<span class="swatch" style="background: ${escapeHtml(label)}"></span>`;
+  return `<span class="chip">${swatch}${escapeHtml(name)} ${escapeHtml(label)}</span>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
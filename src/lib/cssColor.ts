@@ -0,0 +1,414 @@
+import { clamp01, clampChannel, hslToRgb, hwbToRgb, oklabToRgb, oklchToOklab, Rgba } from "./colorSpaces.js";
+
+export const CURRENT_COLOR_KEYWORD = "currentColor";
+
+const SUPPORTED_SYNTAX_HINT =
+  "Use #hex, rgb(), hsl(), hwb(), oklab(), oklch(), a CSS named color, currentColor or none.";
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_PATTERN = /^([a-z]+)\(\s*([^()]*)\s*\)$/i;
+
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: "#f0f8ff",
+  antiquewhite: "#faebd7",
+  aqua: "#00ffff",
+  aquamarine: "#7fffd4",
+  azure: "#f0ffff",
+  beige: "#f5f5dc",
+  bisque: "#ffe4c4",
+  black: "#000000",
+  blanchedalmond: "#ffebcd",
+  blue: "#0000ff",
+  blueviolet: "#8a2be2",
+  brown: "#a52a2a",
+  burlywood: "#deb887",
+  cadetblue: "#5f9ea0",
+  chartreuse: "#7fff00",
+  chocolate: "#d2691e",
+  coral: "#ff7f50",
+  cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc",
+  crimson: "#dc143c",
+  cyan: "#00ffff",
+  darkblue: "#00008b",
+  darkcyan: "#008b8b",
+  darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9",
+  darkgreen: "#006400",
+  darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b",
+  darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00",
+  darkorchid: "#9932cc",
+  darkred: "#8b0000",
+  darksalmon: "#e9967a",
+  darkseagreen: "#8fbc8f",
+  darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f",
+  darkslategrey: "#2f4f4f",
+  darkturquoise: "#00ced1",
+  darkviolet: "#9400d3",
+  deeppink: "#ff1493",
+  deepskyblue: "#00bfff",
+  dimgray: "#696969",
+  dimgrey: "#696969",
+  dodgerblue: "#1e90ff",
+  firebrick: "#b22222",
+  floralwhite: "#fffaf0",
+  forestgreen: "#228b22",
+  fuchsia: "#ff00ff",
+  gainsboro: "#dcdcdc",
+  ghostwhite: "#f8f8ff",
+  gold: "#ffd700",
+  goldenrod: "#daa520",
+  gray: "#808080",
+  green: "#008000",
+  greenyellow: "#adff2f",
+  grey: "#808080",
+  honeydew: "#f0fff0",
+  hotpink: "#ff69b4",
+  indianred: "#cd5c5c",
+  indigo: "#4b0082",
+  ivory: "#fffff0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5",
+  lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightcyan: "#e0ffff",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightgrey: "#d3d3d3",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightseagreen: "#20b2aa",
+  lightskyblue: "#87cefa",
+  lightslategray: "#778899",
+  lightslategrey: "#778899",
+  lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0",
+  lime: "#00ff00",
+  limegreen: "#32cd32",
+  linen: "#faf0e6",
+  magenta: "#ff00ff",
+  maroon: "#800000",
+  mediumaquamarine: "#66cdaa",
+  mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db",
+  mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a",
+  mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585",
+  midnightblue: "#191970",
+  mintcream: "#f5fffa",
+  mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5",
+  navajowhite: "#ffdead",
+  navy: "#000080",
+  oldlace: "#fdf5e6",
+  olive: "#808000",
+  olivedrab: "#6b8e23",
+  orange: "#ffa500",
+  orangered: "#ff4500",
+  orchid: "#da70d6",
+  palegoldenrod: "#eee8aa",
+  palegreen: "#98fb98",
+  paleturquoise: "#afeeee",
+  palevioletred: "#db7093",
+  papayawhip: "#ffefd5",
+  peachpuff: "#ffdab9",
+  peru: "#cd853f",
+  pink: "#ffc0cb",
+  plum: "#dda0dd",
+  powderblue: "#b0e0e6",
+  purple: "#800080",
+  rebeccapurple: "#663399",
+  red: "#ff0000",
+  rosybrown: "#bc8f8f",
+  royalblue: "#4169e1",
+  saddlebrown: "#8b4513",
+  salmon: "#fa8072",
+  sandybrown: "#f4a460",
+  seagreen: "#2e8b57",
+  seashell: "#fff5ee",
+  sienna: "#a0522d",
+  silver: "#c0c0c0",
+  skyblue: "#87ceeb",
+  slateblue: "#6a5acd",
+  slategray: "#708090",
+  slategrey: "#708090",
+  snow: "#fffafa",
+  springgreen: "#00ff7f",
+  steelblue: "#4682b4",
+  tan: "#d2b48c",
+  teal: "#008080",
+  thistle: "#d8bfd8",
+  tomato: "#ff6347",
+  turquoise: "#40e0d0",
+  violet: "#ee82ee",
+  wheat: "#f5deb3",
+  white: "#ffffff",
+  whitesmoke: "#f5f5f5",
+  yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+  transparent: "#00000000",
+};
+
+export function isNoneColor(value: string | undefined): boolean {
+  return value !== undefined && value.trim().toLowerCase() === "none";
+}
+
+export function isCurrentColor(value: string | undefined): boolean {
+  return value !== undefined && value.trim().toLowerCase() === "currentcolor";
+}
+
+export function parseCssColor(value: string): Rgba {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (HEX_COLOR_PATTERN.test(trimmed)) {
+    return parseHex(trimmed.slice(1));
+  }
+
+  const named = NAMED_COLORS[lower];
+  if (named) {
+    return parseHex(named.slice(1));
+  }
+
+  const match = trimmed.match(FUNCTION_PATTERN);
+  if (match) {
+    const parsed = parseColorFunction(match[1].toLowerCase(), match[2]);
+    if (parsed) {
+      return parsed;
+    }
+  }
+
+  throw new Error(`Unsupported color value: ${value}. ${SUPPORTED_SYNTAX_HINT}`);
+}
+
+export function tryParseCssColor(value: string): Rgba | undefined {
+  try {
+    return parseCssColor(value);
+  } catch {
+    return undefined;
+  }
+}
+
+export function normalizeCssColor(value: string): string {
+  if (isNoneColor(value)) {
+    return "none";
+  }
+  if (isCurrentColor(value)) {
+    return CURRENT_COLOR_KEYWORD;
+  }
+
+  const parsed = parseCssColor(value);
+  return formatCssColor(parsed, parsed.a < 1);
+}
+
+export function formatCssColor(color: Rgba, includeAlpha: boolean): string {
+  const r = toHexByte(color.r);
+  const g = toHexByte(color.g);
+  const b = toHexByte(color.b);
+
+  if (includeAlpha) {
+    return `#${r}${g}${b}${toHexByte(color.a * 255)}`;
+  }
+
+  return `#${r}${g}${b}`;
+}
+
+export function hasExplicitAlpha(value: string): boolean {
+  const trimmed = value.trim();
+  if (HEX_COLOR_PATTERN.test(trimmed)) {
+    const length = trimmed.length - 1;
+    return length === 4 || length === 8;
+  }
+
+  const parsed = tryParseCssColor(trimmed);
+  return parsed !== undefined && parsed.a < 1;
+}
+
+function parseHex(value: string): Rgba {
+  if (value.length === 3 || value.length === 4) {
+    const r = parseInt(value[0] + value[0], 16);
+    const g = parseInt(value[1] + value[1], 16);
+    const b = parseInt(value[2] + value[2], 16);
+    const a = value.length === 4 ? parseInt(value[3] + value[3], 16) / 255 : 1;
+    return { r, g, b, a };
+  }
+
+  const r = parseInt(value.slice(0, 2), 16);
+  const g = parseInt(value.slice(2, 4), 16);
+  const b = parseInt(value.slice(4, 6), 16);
+  const a = value.length === 8 ? parseInt(value.slice(6, 8), 16) / 255 : 1;
+  return { r, g, b, a };
+}
+
+function parseColorFunction(name: string, body: string): Rgba | undefined {
+  const args = splitArguments(body);
+  if (!args) {
+    return undefined;
+  }
+
+  const { channels, alpha: alphaToken } = args;
+  if (channels.length !== 3) {
+    return undefined;
+  }
+
+  const alpha = alphaToken === undefined ? 1 : parseAlpha(alphaToken);
+  if (alpha === undefined) {
+    return undefined;
+  }
+
+  switch (name) {
+    case "rgb":
+    case "rgba": {
+      const values = channels.map(parseRgbChannel);
+      if (values.some((value) => value === undefined)) {
+        return undefined;
+      }
+      const [r, g, b] = values as number[];
+      return { r, g, b, a: alpha };
+    }
+    case "hsl":
+    case "hsla": {
+      const h = parseHue(channels[0]);
+      const s = parsePercentage(channels[1], 100);
+      const l = parsePercentage(channels[2], 100);
+      if (h === undefined || s === undefined || l === undefined) {
+        return undefined;
+      }
+      return hslToRgb({ h, s, l, a: alpha });
+    }
+    case "hwb": {
+      const h = parseHue(channels[0]);
+      const w = parsePercentage(channels[1], 100);
+      const b = parsePercentage(channels[2], 100);
+      if (h === undefined || w === undefined || b === undefined) {
+        return undefined;
+      }
+      return hwbToRgb(h, w, b, alpha);
+    }
+    case "oklab": {
+      const l = parsePercentage(channels[0], 1);
+      const a = parseSignedComponent(channels[1], 0.4);
+      const b = parseSignedComponent(channels[2], 0.4);
+      if (l === undefined || a === undefined || b === undefined) {
+        return undefined;
+      }
+      return oklabToRgb({ l: clamp01(l), a, b, alpha });
+    }
+    case "oklch": {
+      const l = parsePercentage(channels[0], 1);
+      const c = parseSignedComponent(channels[1], 0.4);
+      const h = parseHue(channels[2]);
+      if (l === undefined || c === undefined || h === undefined) {
+        return undefined;
+      }
+      return oklabToRgb(oklchToOklab({ l: clamp01(l), c: Math.max(0, c), h, alpha }));
+    }
+    default:
+      return undefined;
+  }
+}
+
+interface ColorArguments {
+  channels: string[];
+  alpha?: string;
+}
+
+function splitArguments(body: string): ColorArguments | undefined {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.includes(",")) {
+    const parts = trimmed.split(",").map((part) => part.trim());
+    if (parts.some((part) => !part) || parts.length < 3 || parts.length > 4) {
+      return undefined;
+    }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const [channelPart, alphaPart, ...rest] = trimmed.split("/").map((part) => part.trim());
+  if (rest.length > 0 || alphaPart === "") {
+    return undefined;
+  }
+
+  return {
+    channels: channelPart.split(/\s+/).filter(Boolean),
+    alpha: alphaPart,
+  };
+}
+
+function parseNumber(token: string): number | undefined {
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(token)) {
+    return undefined;
+  }
+  return Number(token);
+}
+
+function parseRgbChannel(token: string): number | undefined {
+  if (token.endsWith("%")) {
+    const percent = parseNumber(token.slice(0, -1));
+    return percent === undefined ? undefined : clampChannel(Math.round((percent / 100) * 255));
+  }
+  const value = parseNumber(token);
+  return value === undefined ? undefined : clampChannel(Math.round(value));
+}
+
+function parseAlpha(token: string): number | undefined {
+  if (token.endsWith("%")) {
+    const percent = parseNumber(token.slice(0, -1));
+    return percent === undefined ? undefined : clamp01(percent / 100);
+  }
+  const value = parseNumber(token);
+  return value === undefined ? undefined : clamp01(value);
+}
+
+function parsePercentage(token: string, numberScale: number): number | undefined {
+  if (token.endsWith("%")) {
+    const percent = parseNumber(token.slice(0, -1));
+    return percent === undefined ? undefined : percent / 100;
+  }
+  const value = parseNumber(token);
+  return value === undefined ? undefined : value / numberScale;
+}
+
+function parseSignedComponent(token: string, percentScale: number): number | undefined {
+  if (token.endsWith("%")) {
+    const percent = parseNumber(token.slice(0, -1));
+    return percent === undefined ? undefined : (percent / 100) * percentScale;
+  }
+  return parseNumber(token);
+}
+
+function parseHue(token: string): number | undefined {
+  const match = token.match(/^(.*?)(deg|grad|rad|turn)?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseNumber(match[1]);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const unit = (match[2] ?? "deg").toLowerCase();
+  const degrees =
+    unit === "turn" ? value * 360 : unit === "rad" ? (value * 180) / Math.PI : unit === "grad" ? value * 0.9 : value;
+
+  return ((degrees % 360) + 360) % 360;
+}
+
+function toHexByte(value: number): string {
+  return clampChannel(Math.round(value)).toString(16).padStart(2, "0");
+}
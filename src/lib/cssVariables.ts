@@ -0,0 +1,182 @@
+import { normalizeCssColor, tryParseCssColor } from "./cssColor.js";
+import {
+  appendChild,
+  createElement,
+  getAttribute,
+  insertChild,
+  localName,
+  parseSvgDocument,
+  requireRootSvg,
+  serializeSvgDocument,
+  setAttribute,
+  walkElements,
+} from "./svgDocument.js";
+import { BACKGROUND_MARKER_ATTRIBUTE, isBackgroundElement } from "./svgPaint.js";
+import { readDeclaration, rewriteDeclarationList, rewriteStyleSheet, setDeclaration } from "./svgStyles.js";
+
+export type OutputMode = "static" | "css-variables";
+export type StateTrigger = "class" | "hover";
+
+export interface ColorBinding {
+  role: string;
+  color: string;
+  background?: boolean;
+}
+
+export interface CombinedState {
+  bindings: ColorBinding[];
+  opacity?: string;
+}
+
+export const OUTPUT_MODES: OutputMode[] = ["static", "css-variables"];
+export const DEFAULT_OUTPUT_MODE: OutputMode = "static";
+export const STATE_TRIGGERS: StateTrigger[] = ["class", "hover"];
+export const DEFAULT_STATE_TRIGGER: StateTrigger = "class";
+export const CSS_VARIABLE_PREFIX = "--vim-";
+export const INACTIVE_STATE_CLASS = "vim-inactive";
+
+const VARIABLE_PROPERTIES = new Set(["fill", "stroke", "stop-color"]);
+const SKIPPED_CONTAINERS = new Set(["metadata", "title", "desc", "script"]);
+
+export function isOutputMode(value: string): value is OutputMode {
+  return (OUTPUT_MODES as string[]).includes(value);
+}
+
+export function isStateTrigger(value: string): value is StateTrigger {
+  return (STATE_TRIGGERS as string[]).includes(value);
+}
+
+export function getCssVariableName(role: string, state?: string): string {
+  return state ? `${CSS_VARIABLE_PREFIX}${state}-${role}` : `${CSS_VARIABLE_PREFIX}${role}`;
+}
+
+export function toVariableRole(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "color";
+}
+
+export function describeCssVariables(bindings: ColorBinding[], state?: string): Record<string, string> {
+  return Object.fromEntries(bindings.map(({ role, color }) => [getCssVariableName(role, state), color]));
+}
+
+export function applyCssVariables(svgContent: string, bindings: ColorBinding[], state?: string): string {
+  const document = parseSvgDocument(svgContent);
+  const foreground = indexBindings(bindings.filter((binding) => !binding.background));
+  const background = indexBindings(bindings.filter((binding) => binding.background));
+
+  walkElements(document.children, (element) => {
+    if (SKIPPED_CONTAINERS.has(localName(element.name))) {
+      return false;
+    }
+
+    const index = isBackgroundElement(element) ? background : foreground;
+    const toVariable = (property: string, value: string): string | undefined => {
+      if (!VARIABLE_PROPERTIES.has(property)) {
+        return undefined;
+      }
+      const role = lookupRole(index, value);
+      return role ? `var(${getCssVariableName(role, state)}, ${value.trim()})` : undefined;
+    };
+
+    if (localName(element.name) === "style") {
+      for (const child of element.children) {
+        if (child.type === "text" || child.type === "cdata") {
+          child.value = rewriteStyleSheet(child.value, toVariable);
+        }
+      }
+      return false;
+    }
+
+    let style = getAttribute(element, "style") ?? "";
+    const rewritten = rewriteDeclarationList(style, toVariable);
+    let changed = rewritten !== style;
+    style = rewritten;
+
+    for (const attribute of element.attributes) {
+      const name = attribute.name.toLowerCase();
+      const replacement = toVariable(name, attribute.value);
+      if (replacement !== undefined && readDeclaration(style, name) === undefined) {
+        style = setDeclaration(style, name, replacement);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      setAttribute(element, "style", style);
+    }
+    return true;
+  });
+
+  return serializeSvgDocument(document);
+}
+
+export function createCombinedStateSvg(
+  inactiveSvg: string,
+  active: CombinedState,
+  inactive: CombinedState,
+  trigger: StateTrigger = DEFAULT_STATE_TRIGGER,
+): string {
+  const document = parseSvgDocument(applyCssVariables(inactiveSvg, inactive.bindings));
+  const root = requireRootSvg(document);
+  const scope = `vim-${hashString(inactiveSvg)}`;
+  const existingClass = getAttribute(root, "class");
+  setAttribute(root, "class", existingClass ? `${existingClass} ${scope}` : scope);
+
+  const activeRules = buildStateDeclarations(active, "active");
+  const inactiveRules = buildStateDeclarations(inactive, "inactive");
+  const background = `.${scope} [${BACKGROUND_MARKER_ATTRIBUTE}]`;
+  const activeShowsBackground = active.bindings.some((binding) => binding.background);
+  const [defaultState, alternateState] = trigger === "hover"
+    ? [{ rules: inactiveRules, showBackground: true }, { rules: activeRules, showBackground: activeShowsBackground }]
+    : [{ rules: activeRules, showBackground: activeShowsBackground }, { rules: inactiveRules, showBackground: true }];
+  const alternate = trigger === "hover" ? `.${scope}:hover` : `.${scope}.${INACTIVE_STATE_CLASS}`;
+
+  const css = [
+    `.${scope}{${defaultState.rules}}`,
+    `${background}{display:${defaultState.showBackground ? "inline" : "none"}}`,
+    `${alternate}{${alternateState.rules}}`,
+    `${alternate} [${BACKGROUND_MARKER_ATTRIBUTE}]{display:${alternateState.showBackground ? "inline" : "none"}}`,
+  ].join("");
+
+  const style = createElement("style", {});
+  appendChild(style, { type: "text", value: css });
+  insertChild(root, 0, style);
+  insertChild(root, 0, { type: "text", value: "\n  " });
+
+  return serializeSvgDocument(document);
+}
+
+function buildStateDeclarations({ bindings, opacity }: CombinedState, state: string): string {
+  const declarations = bindings
+    .map(({ role, color }) => `${getCssVariableName(role)}:var(${getCssVariableName(role, state)}, ${color});`)
+    .join("");
+  return opacity === undefined ? declarations : `${declarations}opacity:${opacity};`;
+}
+
+function indexBindings(bindings: ColorBinding[]): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const { role, color } of bindings) {
+    const key = normalizeBindingColor(color);
+    if (key && !index.has(key)) {
+      index.set(key, role);
+    }
+  }
+  return index;
+}
+
+function lookupRole(index: Map<string, string>, value: string): string | undefined {
+  const key = normalizeBindingColor(value);
+  return key ? index.get(key) : undefined;
+}
+
+function normalizeBindingColor(value: string): string | undefined {
+  return tryParseCssColor(value) ? normalizeCssColor(value) : undefined;
+}
+
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
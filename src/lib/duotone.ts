@@ -0,0 +1,104 @@
+import { applyColorAssignments, ColorMapEntry } from "./colorMap.js";
+import { getAttribute, SvgDocument, SvgElement } from "./svgDocument.js";
+import { collectCompiledStyleRules, CompiledStyleRule, getEffectivePaint, readPaintSources } from "./svgPaint.js";
+import { getClassList, SelectorMatcher } from "./svgSelectors.js";
+
+export type SecondaryMarker =
+  | { type: "class"; className: string }
+  | { type: "attribute"; name: string; value?: string }
+  | { type: "opacity" };
+
+export interface ApplySecondaryColorOptions {
+  color: string;
+  marker: SecondaryMarker;
+  properties: ("fill" | "stroke")[];
+  preserveFillNone: boolean;
+  preserveStrokeNone: boolean;
+}
+
+export const DEFAULT_SECONDARY_MARKER: SecondaryMarker = { type: "opacity" };
+
+const OPACITY_PROPERTIES = ["opacity", "fill-opacity", "stroke-opacity"];
+const CLASS_NAME_PATTERN = /^-?[_a-zA-Z][-_a-zA-Z0-9]*$/;
+const DATA_ATTRIBUTE_PATTERN = /^data-[-_a-zA-Z0-9]+$/;
+
+export function parseSecondaryMarker(spec: string): SecondaryMarker {
+  const trimmed = spec.trim();
+
+  if (trimmed.toLowerCase() === "opacity") {
+    return { type: "opacity" };
+  }
+
+  if (trimmed.toLowerCase().startsWith("class:")) {
+    const className = trimmed.slice("class:".length).trim().replace(/^\./, "");
+    if (CLASS_NAME_PATTERN.test(className)) {
+      return { type: "class", className };
+    }
+  }
+
+  const separator = trimmed.indexOf("=");
+  const name = (separator === -1 ? trimmed : trimmed.slice(0, separator)).trim().toLowerCase();
+  if (DATA_ATTRIBUTE_PATTERN.test(name)) {
+    const value = separator === -1 ? undefined : trimmed.slice(separator + 1).trim().replace(/^(["'])(.*)\1$/, "$2");
+    return { type: "attribute", name, value };
+  }
+
+  throw new Error(`Unknown secondary marker: ${spec}. Use opacity, class:<name>, data-<name> or data-<name>=<value>.`);
+}
+
+export function formatSecondaryMarker(marker: SecondaryMarker): string {
+  switch (marker.type) {
+    case "opacity":
+      return "opacity";
+    case "class":
+      return `class:${marker.className}`;
+    case "attribute":
+      return marker.value === undefined ? marker.name : `${marker.name}=${marker.value}`;
+  }
+}
+
+export function compileSecondaryMarker(marker: SecondaryMarker, rules: CompiledStyleRule[]): SelectorMatcher {
+  switch (marker.type) {
+    case "class":
+      return (element) => getClassList(element).includes(marker.className);
+    case "attribute":
+      return (element) => {
+        const value = getAttribute(element, marker.name);
+        return marker.value === undefined ? value !== undefined : value === marker.value;
+      };
+    case "opacity":
+      return (element) => OPACITY_PROPERTIES.some((property) => isTranslucent(element, property, rules));
+  }
+}
+
+export function applySecondaryColor(document: SvgDocument, options: ApplySecondaryColorOptions): void {
+  if (options.properties.length === 0) {
+    return;
+  }
+
+  const entry: ColorMapEntry = {};
+  options.properties.forEach((property) => {
+    entry[property] = options.color;
+  });
+
+  applyColorAssignments(
+    document,
+    [{ matches: compileSecondaryMarker(options.marker, collectCompiledStyleRules(document)), entry }],
+    {
+      preserveFillNone: options.preserveFillNone,
+      preserveStrokeNone: options.preserveStrokeNone,
+      preserveUrlPaints: true,
+      forceInheritedOnly: true,
+    },
+  );
+}
+
+function isTranslucent(element: SvgElement, property: string, rules: CompiledStyleRule[]): boolean {
+  const value = getEffectivePaint(readPaintSources(element, property, rules))?.trim();
+  if (!value) {
+    return false;
+  }
+
+  const numeric = value.endsWith("%") ? Number(value.slice(0, -1)) / 100 : Number(value);
+  return Number.isFinite(numeric) && numeric < 1;
+}
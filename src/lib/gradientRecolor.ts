@@ -0,0 +1,166 @@
+import { clamp01, oklabToRgb, rgbToOklab, Rgba } from "./colorSpaces.js";
+import { formatCssColor, isCurrentColor, isNoneColor, parseCssColor, tryParseCssColor } from "./cssColor.js";
+import { getAttribute, getHrefReferenceId, localName, setAttribute, SvgElement } from "./svgDocument.js";
+import { forEachDeclaration, rewriteDeclarationList } from "./svgStyles.js";
+
+export type GradientMode = "flatten" | "tint" | "map";
+
+export const GRADIENT_MODES: readonly GradientMode[] = ["flatten", "tint", "map"];
+export const DEFAULT_GRADIENT_MODE: GradientMode = "flatten";
+
+export interface GradientRecolorOptions {
+  mode: Exclude<GradientMode, "flatten">;
+  color: string;
+  endColor?: string;
+  transformStopColor?: (color: string) => string;
+}
+
+const GRADIENT_ELEMENTS = new Set(["lineargradient", "radialgradient"]);
+const MAX_TEMPLATE_DEPTH = 16;
+
+export function isGradientMode(value: string): value is GradientMode {
+  return (GRADIENT_MODES as readonly string[]).includes(value);
+}
+
+export function isGradientElement(element: SvgElement): boolean {
+  return GRADIENT_ELEMENTS.has(localName(element.name));
+}
+
+export function resolveGradientStops(gradient: SvgElement, idIndex: Map<string, SvgElement>): SvgElement[] {
+  let current: SvgElement | undefined = gradient;
+
+  for (let depth = 0; current && depth < MAX_TEMPLATE_DEPTH; depth += 1) {
+    const stops = current.children.filter(
+      (child): child is SvgElement => child.type === "element" && localName(child.name) === "stop",
+    );
+    if (stops.length > 0) {
+      return stops;
+    }
+
+    const templateId = getHrefReferenceId(current);
+    current = templateId ? idIndex.get(templateId) : undefined;
+  }
+
+  return [];
+}
+
+export function recolorGradientStops(stops: SvgElement[], options: GradientRecolorOptions): void {
+  if (stops.length === 0 || isNoneColor(options.color) || isCurrentColor(options.color)) {
+    return;
+  }
+
+  const colors = stops.map((stop) => tryParseCssColor(readStopColor(stop)));
+  const recolored = options.mode === "map"
+    ? mapStops(stops, colors, options)
+    : tintStops(colors, options.color);
+
+  stops.forEach((stop, index) => {
+    const color = recolored[index];
+    if (!color) {
+      return;
+    }
+    const formatted = formatCssColor(color, color.a < 1);
+    writeStopColor(stop, options.transformStopColor ? options.transformStopColor(formatted) : formatted);
+  });
+}
+
+export function readStopColor(stop: SvgElement): string {
+  let inlineValue: string | undefined;
+  const style = getAttribute(stop, "style");
+  if (style) {
+    forEachDeclaration(style, (property, value) => {
+      if (property === "stop-color") {
+        inlineValue = value;
+      }
+    });
+  }
+
+  return inlineValue ?? getAttribute(stop, "stop-color") ?? "black";
+}
+
+function writeStopColor(stop: SvgElement, color: string): void {
+  const style = getAttribute(stop, "style");
+  if (style) {
+    const updated = rewriteDeclarationList(style, (property) => (property === "stop-color" ? color : undefined));
+    if (updated !== style) {
+      setAttribute(stop, "style", updated);
+      return;
+    }
+  }
+
+  setAttribute(stop, "stop-color", color);
+}
+
+// Stops are ranked by OKLab lightness: HSL gives pure red and pure blue the same L,
+// which would flatten a red-to-blue gradient into a single color.
+function tintStops(colors: (Rgba | undefined)[], target: string): (Rgba | undefined)[] {
+  const targetLab = rgbToOklab(parseCssColor(target));
+  const lightnesses = colors.filter((color): color is Rgba => color !== undefined).map((color) => rgbToOklab(color).l);
+  const meanLightness = lightnesses.reduce((sum, value) => sum + value, 0) / Math.max(lightnesses.length, 1);
+
+  return colors.map((color) => {
+    if (!color) {
+      return undefined;
+    }
+    const { l } = rgbToOklab(color);
+    return oklabToRgb({
+      l: clamp01(targetLab.l + (l - meanLightness)),
+      a: targetLab.a,
+      b: targetLab.b,
+      alpha: color.a,
+    });
+  });
+}
+
+function mapStops(
+  stops: SvgElement[],
+  colors: (Rgba | undefined)[],
+  options: GradientRecolorOptions,
+): (Rgba | undefined)[] {
+  if (!options.endColor) {
+    throw new Error("Gradient map mode requires an end color.");
+  }
+
+  const start = rgbToOklab(parseCssColor(options.color));
+  const end = rgbToOklab(parseCssColor(options.endColor));
+  const positions = resolveStopPositions(stops);
+
+  return colors.map((color, index) => {
+    if (!color) {
+      return undefined;
+    }
+    const t = positions[index];
+    return oklabToRgb({
+      l: start.l + (end.l - start.l) * t,
+      a: start.a + (end.a - start.a) * t,
+      b: start.b + (end.b - start.b) * t,
+      alpha: start.alpha + (end.alpha - start.alpha) * t,
+    });
+  });
+}
+
+function resolveStopPositions(stops: SvgElement[]): number[] {
+  let previous = 0;
+  const offsets = stops.map((stop) => {
+    const offset = Math.max(parseStopOffset(getAttribute(stop, "offset")), previous);
+    previous = offset;
+    return offset;
+  });
+
+  const first = offsets[0];
+  const last = offsets[offsets.length - 1];
+  if (last - first <= 0) {
+    return stops.map((_, index) => (stops.length === 1 ? 0 : index / (stops.length - 1)));
+  }
+
+  return offsets.map((offset) => (offset - first) / (last - first));
+}
+
+function parseStopOffset(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const trimmed = value.trim();
+  const numeric = trimmed.endsWith("%") ? Number(trimmed.slice(0, -1)) / 100 : Number(trimmed);
+  return Number.isFinite(numeric) ? clamp01(numeric) : 0;
+}
@@ -0,0 +1,163 @@
+import { extractViewBox, formatNumber, ViewBoxValues } from "./backgroundShapes.js";
+import { rasterizeIcon } from "./rasterize.js";
+import {
+  getAttribute,
+  parseSvgDocument,
+  removeAttribute,
+  requireRootSvg,
+  serializeSvgDocument,
+  setAttribute,
+} from "./svgDocument.js";
+
+export type ContainerFormat = "ico" | "icns";
+
+export interface PngEntry {
+  width: number;
+  height: number;
+  png: Uint8Array;
+}
+
+export const CONTAINER_FORMATS: ContainerFormat[] = ["ico", "icns"];
+export const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+export const ICNS_SIZES = [16, 32, 64, 128, 256, 512, 1024];
+export const MAX_ICO_SIZE = 256;
+
+const ICO_HEADER_SIZE = 6;
+const ICO_ENTRY_SIZE = 16;
+const ICNS_HEADER_SIZE = 8;
+
+// PNG-backed ICNS element types; retina types reuse the pixel size of the next larger 1x type.
+const ICNS_TYPES: Record<number, string[]> = {
+  16: ["icp4"],
+  32: ["icp5", "ic11"],
+  64: ["icp6", "ic12"],
+  128: ["ic07"],
+  256: ["ic08", "ic13"],
+  512: ["ic09", "ic14"],
+  1024: ["ic10"],
+};
+
+export function isContainerFormat(value: string): value is ContainerFormat {
+  return (CONTAINER_FORMATS as string[]).includes(value);
+}
+
+export function getContainerExtension(format: ContainerFormat): string {
+  return `.${format}`;
+}
+
+export function encodeIco(entries: PngEntry[]): Uint8Array {
+  const images = sortBySize(entries);
+  if (images.length === 0) {
+    throw new Error("ICO needs at least one image.");
+  }
+
+  const dataSize = images.reduce((total, image) => total + image.png.length, 0);
+  const output = new Uint8Array(ICO_HEADER_SIZE + ICO_ENTRY_SIZE * images.length + dataSize);
+  const view = new DataView(output.buffer);
+
+  view.setUint16(0, 0, true);
+  view.setUint16(2, 1, true);
+  view.setUint16(4, images.length, true);
+
+  let offset = ICO_HEADER_SIZE + ICO_ENTRY_SIZE * images.length;
+  images.forEach((image, index) => {
+    if (image.width > MAX_ICO_SIZE || image.height > MAX_ICO_SIZE) {
+      throw new Error(`ICO images must be ${MAX_ICO_SIZE}px or smaller: ${image.width}x${image.height}`);
+    }
+
+    const entry = ICO_HEADER_SIZE + ICO_ENTRY_SIZE * index;
+    view.setUint8(entry, image.width % MAX_ICO_SIZE);
+    view.setUint8(entry + 1, image.height % MAX_ICO_SIZE);
+    view.setUint8(entry + 2, 0);
+    view.setUint8(entry + 3, 0);
+    view.setUint16(entry + 4, 1, true);
+    view.setUint16(entry + 6, 32, true);
+    view.setUint32(entry + 8, image.png.length, true);
+    view.setUint32(entry + 12, offset, true);
+
+    output.set(image.png, offset);
+    offset += image.png.length;
+  });
+
+  return output;
+}
+
+export function encodeIcns(entries: PngEntry[]): Uint8Array {
+  const elements: { type: string; png: Uint8Array }[] = [];
+  for (const image of sortBySize(entries)) {
+    const types = ICNS_TYPES[image.width];
+    if (!types || image.height !== image.width) {
+      throw new Error(`ICNS supports square images of ${ICNS_SIZES.join(", ")}px: ${image.width}x${image.height}`);
+    }
+    types.forEach((type) => elements.push({ type, png: image.png }));
+  }
+
+  if (elements.length === 0) {
+    throw new Error("ICNS needs at least one image.");
+  }
+
+  const totalSize = elements.reduce((total, element) => total + ICNS_HEADER_SIZE + element.png.length, ICNS_HEADER_SIZE);
+  const output = new Uint8Array(totalSize);
+  const view = new DataView(output.buffer);
+
+  writeOsType(output, 0, "icns");
+  view.setUint32(4, totalSize, false);
+
+  let offset = ICNS_HEADER_SIZE;
+  for (const element of elements) {
+    writeOsType(output, offset, element.type);
+    view.setUint32(offset + 4, ICNS_HEADER_SIZE + element.png.length, false);
+    output.set(element.png, offset + ICNS_HEADER_SIZE);
+    offset += ICNS_HEADER_SIZE + element.png.length;
+  }
+
+  return output;
+}
+
+export function exportIconContainer(svgContent: string, format: ContainerFormat, sizes?: number[]): Uint8Array {
+  const images = rasterizeIcon(padToSquare(svgContent), {
+    sizes: sizes ?? (format === "ico" ? ICO_SIZES : ICNS_SIZES),
+    scales: [1],
+  });
+  return format === "ico" ? encodeIco(images) : encodeIcns(images);
+}
+
+// Both containers hold square images, so a wide or tall viewBox is widened around its centre instead of
+// producing PNGs ICNS cannot store. Without a usable viewBox or size the SVG is rendered as written.
+function padToSquare(svgContent: string): string {
+  const document = parseSvgDocument(svgContent);
+  const root = requireRootSvg(document);
+  const viewBox = extractViewBox(root) ?? readSizeViewBox(getAttribute(root, "width"), getAttribute(root, "height"));
+  if (!viewBox || !(viewBox.width > 0) || !(viewBox.height > 0) || viewBox.width === viewBox.height) {
+    return svgContent;
+  }
+
+  const side = Math.max(viewBox.width, viewBox.height);
+  const minX = viewBox.minX - (side - viewBox.width) / 2;
+  const minY = viewBox.minY - (side - viewBox.height) / 2;
+  setAttribute(root, "viewBox", [minX, minY, side, side].map(formatNumber).join(" "));
+  removeAttribute(root, "width");
+  removeAttribute(root, "height");
+  return serializeSvgDocument(document);
+}
+
+function readSizeViewBox(width: string | undefined, height: string | undefined): ViewBoxValues | undefined {
+  const [numericWidth, numericHeight] = [width, height].map((value) => Number((value ?? "").trim().replace(/px$/i, "")));
+  return width && height && Number.isFinite(numericWidth) && Number.isFinite(numericHeight)
+    ? { minX: 0, minY: 0, width: numericWidth, height: numericHeight }
+    : undefined;
+}
+
+function sortBySize(entries: PngEntry[]): PngEntry[] {
+  const bySize = new Map<number, PngEntry>();
+  for (const entry of entries) {
+    bySize.set(entry.width, entry);
+  }
+  return [...bySize.values()].sort((left, right) => left.width - right.width);
+}
+
+function writeOsType(output: Uint8Array, offset: number, type: string): void {
+  for (let index = 0; index < 4; index += 1) {
+    output[offset + index] = type.charCodeAt(index);
+  }
+}
@@ -0,0 +1,87 @@
+import { createGrayscaleColor, mixColors } from "./colorTransforms.js";
+import {
+  guardPaintKeywords,
+  InactiveAppearance,
+  InactiveBackground,
+  InactiveStrategyContext,
+} from "./inactiveStrategies.js";
+
+export type IconStateContext = Omit<InactiveStrategyContext, "options">;
+
+export interface IconStateDefinition {
+  name: string;
+  transformColor?: (color: string, context: IconStateContext) => string;
+  background?: InactiveBackground | ((context: IconStateContext) => InactiveBackground | undefined);
+  opacity?: number;
+}
+
+export type BuiltInIconState = "hover" | "pressed" | "focus-ring" | "disabled";
+
+export const BUILT_IN_ICON_STATES: BuiltInIconState[] = ["hover", "pressed", "focus-ring", "disabled"];
+export const RESERVED_STATE_NAMES = ["active", "inactive", "combined"];
+
+const STATE_RECIPES: Record<BuiltInIconState, IconStateDefinition> = {
+  hover: {
+    name: "hover",
+    background: ({ primaryColor, contrastBackground }) =>
+      primaryColor ? { color: mixColors(primaryColor, contrastBackground, 0.18) } : undefined,
+  },
+  pressed: {
+    name: "pressed",
+    transformColor: (color) => mixColors(color, "#000000", 0.85),
+    background: ({ primaryColor, contrastBackground }) =>
+      primaryColor ? { color: mixColors(primaryColor, contrastBackground, 0.32) } : undefined,
+  },
+  "focus-ring": {
+    name: "focus-ring",
+    background: ({ primaryColor }) => (primaryColor ? { color: primaryColor, outlineWidth: 2 } : undefined),
+  },
+  disabled: {
+    name: "disabled",
+    transformColor: (color) => createGrayscaleColor(color, 0.6),
+    opacity: 0.5,
+  },
+};
+
+export function isBuiltInIconState(value: string): value is BuiltInIconState {
+  return (BUILT_IN_ICON_STATES as string[]).includes(value);
+}
+
+export function resolveIconState(state: string | IconStateDefinition): IconStateDefinition {
+  if (typeof state !== "string") {
+    return state;
+  }
+
+  const normalized = state.trim().toLowerCase();
+  if (!isBuiltInIconState(normalized)) {
+    throw new Error(`Unknown state: ${state}. Use ${BUILT_IN_ICON_STATES.join(", ")}.`);
+  }
+  return STATE_RECIPES[normalized];
+}
+
+export function resolveIconStates(states: (string | IconStateDefinition)[]): IconStateDefinition[] {
+  const seen = new Set<string>(RESERVED_STATE_NAMES);
+
+  return states.map((state) => {
+    const definition = resolveIconState(state);
+    if (!/^[a-z][a-z0-9-]*$/.test(definition.name)) {
+      throw new Error(`Invalid state name: ${definition.name}. Use lowercase letters, digits and hyphens.`);
+    }
+    if (seen.has(definition.name)) {
+      throw new Error(`Duplicate or reserved state name: ${definition.name}`);
+    }
+    seen.add(definition.name);
+    return definition;
+  });
+}
+
+export function createStateAppearance(definition: IconStateDefinition, context: IconStateContext): InactiveAppearance {
+  const transform = definition.transformColor;
+  const background = typeof definition.background === "function" ? definition.background(context) : definition.background;
+
+  return guardPaintKeywords({
+    transformColor: transform ? (color) => transform(color, context) : (color) => color,
+    background,
+    opacity: definition.opacity,
+  });
+}
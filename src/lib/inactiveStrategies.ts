@@ -0,0 +1,151 @@
+import { BackgroundShape } from "./backgroundShapes.js";
+import {
+  createAdaptiveBackgroundColor,
+  createAdaptiveInactiveColor,
+  createGrayscaleColor,
+  createInactiveBackgroundColor,
+  createInactiveColor,
+  createInactiveSecondaryColor,
+  InactiveColorModel,
+} from "./colorTransforms.js";
+import { isCurrentColor, isNoneColor, normalizeCssColor } from "./cssColor.js";
+
+export type InactiveStyleOptions = Record<string, string | number | boolean | undefined>;
+
+export interface InactiveStrategyContext {
+  mix: number;
+  colorModel: InactiveColorModel;
+  primaryColor?: string;
+  contrastBackground: string;
+  options: InactiveStyleOptions;
+}
+
+export interface InactiveBackground {
+  color: string;
+  shape?: BackgroundShape;
+  outlineWidth?: number;
+  cornerRadius?: number;
+  insetRatio?: number;
+}
+
+export interface InactiveAppearance {
+  transformColor: (color: string) => string;
+  transformSecondaryColor?: (color: string) => string;
+  background?: InactiveBackground;
+  opacity?: number;
+}
+
+export type InactiveStrategy = (context: InactiveStrategyContext) => InactiveAppearance;
+
+export const DEFAULT_INACTIVE_STYLE = "pastel";
+export const DEFAULT_INACTIVE_OPACITY = 0.4;
+export const DEFAULT_INACTIVE_OUTLINE_WIDTH = 1;
+export const DEFAULT_INACTIVE_SOLID_COLOR = "#9e9e9e";
+
+const strategies = new Map<string, InactiveStrategy>();
+
+export function registerInactiveStrategy(name: string, strategy: InactiveStrategy): void {
+  const normalized = name.trim().toLowerCase();
+  if (!/^[a-z][a-z0-9-]*$/.test(normalized)) {
+    throw new Error(`Invalid inactive style name: ${name}. Use lowercase letters, digits and hyphens.`);
+  }
+  strategies.set(normalized, strategy);
+}
+
+export function getInactiveStrategy(name: string): InactiveStrategy {
+  const strategy = strategies.get(name.trim().toLowerCase());
+  if (!strategy) {
+    throw new Error(`Unknown inactive style: ${name}. Use ${listInactiveStrategies().join(", ")}.`);
+  }
+  return strategy;
+}
+
+export function listInactiveStrategies(): string[] {
+  return [...strategies.keys()];
+}
+
+export function resolveInactiveAppearance(name: string, context: InactiveStrategyContext): InactiveAppearance {
+  return guardPaintKeywords(getInactiveStrategy(name)(context));
+}
+
+export function guardPaintKeywords(appearance: InactiveAppearance): InactiveAppearance {
+  const guard = (transform: (color: string) => string) => (color: string) =>
+    isNoneColor(color) || isCurrentColor(color) ? color : transform(color);
+
+  return {
+    ...appearance,
+    transformColor: guard(appearance.transformColor),
+    transformSecondaryColor: guard(appearance.transformSecondaryColor ?? appearance.transformColor),
+  };
+}
+
+export function readNumberOption(
+  options: InactiveStyleOptions,
+  key: string,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  const value = options[key];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric) || numeric < min || numeric > max) {
+    throw new Error(`Inactive style option "${key}" must be a number between ${min} and ${max}.`);
+  }
+  return numeric;
+}
+
+export function readColorOption(options: InactiveStyleOptions, key: string): string | undefined {
+  const value = options[key];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Inactive style option "${key}" must be a color string.`);
+  }
+  return normalizeCssColor(value);
+}
+
+registerInactiveStrategy("pastel", ({ mix, colorModel, primaryColor }) => ({
+  transformColor: (color) => createInactiveColor(color, mix, colorModel),
+  transformSecondaryColor: (color) => createInactiveSecondaryColor(color, mix, colorModel),
+  background: primaryColor ? { color: createInactiveBackgroundColor(primaryColor, mix) } : undefined,
+}));
+
+registerInactiveStrategy("adaptive", ({ mix, primaryColor, contrastBackground }) => ({
+  transformColor: (color) => createAdaptiveInactiveColor(color, mix, contrastBackground),
+  background: primaryColor ? { color: createAdaptiveBackgroundColor(contrastBackground, mix) } : undefined,
+}));
+
+registerInactiveStrategy("grayscale", ({ mix }) => ({
+  transformColor: (color) => createGrayscaleColor(color, mix),
+}));
+
+registerInactiveStrategy("opacity", ({ options }) => ({
+  transformColor: (color) => color,
+  opacity: readNumberOption(options, "opacity", DEFAULT_INACTIVE_OPACITY, 0, 1),
+}));
+
+registerInactiveStrategy("outline", ({ mix, colorModel, primaryColor, options }) => {
+  const outlineWidth = readNumberOption(options, "outlineWidth", DEFAULT_INACTIVE_OUTLINE_WIDTH, 0, 64);
+  return {
+    transformColor: (color) => createInactiveColor(color, mix, colorModel),
+    transformSecondaryColor: (color) => createInactiveSecondaryColor(color, mix, colorModel),
+    background:
+      primaryColor && outlineWidth > 0
+        ? { color: createInactiveBackgroundColor(primaryColor, mix), outlineWidth }
+        : undefined,
+  };
+});
+
+registerInactiveStrategy("solid", ({ options }) => {
+  const color = readColorOption(options, "color") ?? DEFAULT_INACTIVE_SOLID_COLOR;
+  const background = readColorOption(options, "background");
+  return {
+    transformColor: () => color,
+    background: background ? { color: background } : undefined,
+  };
+});
@@ -0,0 +1,162 @@
+import { rgbToOklab, Rgba } from "./colorSpaces.js";
+import { formatCssColor, normalizeCssColor, tryParseCssColor } from "./cssColor.js";
+import { getAttribute, localName, parseSvgDocument, setAttribute, SvgDocument, walkElements } from "./svgDocument.js";
+import { isRecolorTarget } from "./svgPaint.js";
+import {
+  forEachDeclaration,
+  forEachStyleSheetDeclaration,
+  rewriteDeclarationList,
+  rewriteStyleSheet,
+} from "./svgStyles.js";
+
+export interface ColorReplacement {
+  from: string;
+  to: string;
+}
+
+interface ParsedReplacement {
+  from: Rgba;
+  to: string;
+}
+
+export const DEFAULT_REPLACE_TOLERANCE = 0;
+
+const PALETTE_PROPERTIES = new Set(["fill", "stroke", "stop-color", "flood-color", "lighting-color", "color"]);
+
+export function parseColorReplacement(spec: string): ColorReplacement {
+  const separator = spec.indexOf("=");
+  if (separator === -1) {
+    throw new Error(`Invalid color replacement: ${spec}. Use <from>=<to>, e.g. #000000=#1e88e5.`);
+  }
+
+  return {
+    from: normalizeCssColor(spec.slice(0, separator)),
+    to: normalizeCssColor(spec.slice(separator + 1)),
+  };
+}
+
+export function normalizeColorReplacements(replacements: ColorReplacement[]): ColorReplacement[] {
+  return replacements.map(({ from, to }) => {
+    const normalizedFrom = normalizeCssColor(from);
+    if (!tryParseCssColor(normalizedFrom)) {
+      throw new Error(`Color replacement source must be a concrete color: ${from}`);
+    }
+    return { from: normalizedFrom, to: normalizeCssColor(to) };
+  });
+}
+
+export function transformColorReplacements(
+  replacements: ColorReplacement[],
+  transform: (color: string) => string,
+): ColorReplacement[] {
+  return replacements.map(({ from, to }) => ({ from, to: transform(to) }));
+}
+
+export function applyColorReplacements(
+  document: SvgDocument,
+  replacements: ColorReplacement[],
+  tolerance: number = DEFAULT_REPLACE_TOLERANCE,
+): void {
+  const parsed: ParsedReplacement[] = replacements.flatMap(({ from, to }) => {
+    const fromColor = tryParseCssColor(from);
+    return fromColor ? [{ from: fromColor, to }] : [];
+  });
+  if (parsed.length === 0) {
+    return;
+  }
+
+  const replaceValue = (property: string, value: string): string | undefined =>
+    PALETTE_PROPERTIES.has(property) ? findReplacement(value, parsed, tolerance) : undefined;
+
+  walkElements(document.children, (element) => {
+    if (!isRecolorTarget(element)) {
+      return false;
+    }
+
+    if (localName(element.name) === "style") {
+      for (const child of element.children) {
+        if (child.type === "text" || child.type === "cdata") {
+          child.value = rewriteStyleSheet(child.value, replaceValue);
+        }
+      }
+      return false;
+    }
+
+    for (const attribute of element.attributes) {
+      const replacement = replaceValue(attribute.name.toLowerCase(), attribute.value);
+      if (replacement !== undefined) {
+        attribute.value = replacement;
+      }
+    }
+
+    const style = getAttribute(element, "style");
+    if (style) {
+      const updated = rewriteDeclarationList(style, replaceValue);
+      if (updated !== style) {
+        setAttribute(element, "style", updated);
+      }
+    }
+    return true;
+  });
+}
+
+export function collectSourceColors(svgContent: string): string[] {
+  const colors = new Set<string>();
+  const record = (property: string, value: string): void => {
+    if (!PALETTE_PROPERTIES.has(property)) {
+      return;
+    }
+    const parsed = tryParseCssColor(value);
+    if (parsed) {
+      colors.add(formatCssColor(parsed, parsed.a < 1));
+    }
+  };
+
+  walkElements(parseSvgDocument(svgContent).children, (element) => {
+    if (!isRecolorTarget(element)) {
+      return false;
+    }
+    if (localName(element.name) === "style") {
+      element.children.forEach((child) => {
+        if (child.type === "text" || child.type === "cdata") {
+          forEachStyleSheetDeclaration(child.value, record);
+        }
+      });
+      return false;
+    }
+
+    element.attributes.forEach((attribute) => record(attribute.name.toLowerCase(), attribute.value));
+    const style = getAttribute(element, "style");
+    if (style) {
+      forEachDeclaration(style, record);
+    }
+    return true;
+  });
+
+  return [...colors];
+}
+
+function findReplacement(value: string, replacements: ParsedReplacement[], tolerance: number): string | undefined {
+  const source = tryParseCssColor(value);
+  if (!source) {
+    return undefined;
+  }
+
+  let best: { distance: number; to: string } | undefined;
+  for (const { from, to } of replacements) {
+    const distance = colorDistance(source, from);
+    if (distance <= tolerance && (!best || distance < best.distance)) {
+      best = { distance, to };
+    }
+  }
+
+  return best?.to;
+}
+
+// OKLab distance scaled so that 1 is roughly a just-noticeable difference; alpha differences count equally.
+function colorDistance(a: Rgba, b: Rgba): number {
+  const labA = rgbToOklab(a);
+  const labB = rgbToOklab(b);
+  const distance = Math.hypot(labA.l - labB.l, labA.a - labB.a, labA.b - labB.b, labA.alpha - labB.alpha);
+  return Math.round(distance * 100 * 1000) / 1000;
+}
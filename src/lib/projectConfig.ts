@@ -0,0 +1,408 @@
+import { BACKGROUND_SHAPES, BackgroundStyle } from "./backgroundShapes.js";
+import { ColorMap, parseColorMap } from "./colorMap.js";
+import { INACTIVE_COLOR_MODELS } from "./colorTransforms.js";
+import { OUTPUT_MODES, STATE_TRIGGERS } from "./cssVariables.js";
+import { parseSecondaryMarker } from "./duotone.js";
+import { GRADIENT_MODES } from "./gradientRecolor.js";
+import { BUILT_IN_ICON_STATES, BuiltInIconState } from "./iconStates.js";
+import { InactiveStyleOptions, listInactiveStrategies } from "./inactiveStrategies.js";
+import { ColorReplacement, normalizeColorReplacements } from "./paletteSwap.js";
+import { validateColorInput } from "./svgColorizer.js";
+import { OPTIMIZE_STEPS, OptimizeOptions } from "./svgOptimizer.js";
+import type { GenerateVariantsOptions } from "./vivaldiIconMaker.js";
+
+export interface ConfigVariantOptions {
+  fill?: string;
+  stroke?: string;
+  secondaryColor?: string;
+  secondaryMarker?: string;
+  colorMap?: ColorMap;
+  replaceColors?: ColorReplacement[];
+  replaceTolerance?: number;
+  preserveFillNone?: boolean;
+  preserveStrokeNone?: boolean;
+  generateInactive?: boolean;
+  inactiveMix?: number;
+  inactiveColorModel?: GenerateVariantsOptions["inactiveColorModel"];
+  inactiveStyle?: string;
+  inactiveStyleOptions?: InactiveStyleOptions;
+  inactiveCornerRadius?: number;
+  inactiveBackgroundInsetRatio?: number;
+  backgroundStyle?: BackgroundStyle;
+  activeBackground?: string;
+  minContrastRatio?: number;
+  contrastBackground?: string;
+  gradientMode?: GenerateVariantsOptions["gradientMode"];
+  gradientEndColor?: string;
+  outputMode?: GenerateVariantsOptions["outputMode"];
+  stateTrigger?: GenerateVariantsOptions["stateTrigger"];
+  states?: BuiltInIconState[];
+  optimize?: boolean | OptimizeOptions;
+  sanitize?: boolean;
+}
+
+export type ConfigPalette = Pick<
+  ConfigVariantOptions,
+  "fill" | "stroke" | "secondaryColor" | "gradientEndColor" | "activeBackground" | "contrastBackground" | "colorMap" | "replaceColors"
+>;
+
+export interface ConfigJob {
+  name?: string;
+  input: string | string[];
+  palette?: string | string[];
+  output?: string;
+  options?: ConfigVariantOptions;
+}
+
+export interface ProjectConfig {
+  $schema?: string;
+  palettes?: Record<string, ConfigPalette>;
+  defaults?: ConfigVariantOptions;
+  overwrite?: boolean;
+  jobs: ConfigJob[];
+}
+
+export interface ProjectJobRun {
+  label: string;
+  palette?: string;
+  inputs: string[];
+  output?: string;
+  options: Omit<GenerateVariantsOptions, "svgContent">;
+  sanitize?: boolean;
+}
+
+export const PROJECT_CONFIG_FILE_NAMES = [
+  "vivaldi-icon-maker.config.json",
+  "vivaldi-icon-maker.config.mjs",
+  "vivaldi-icon-maker.config.js",
+  "vivaldi-icon-maker.config.ts",
+];
+
+type FieldRule = (value: unknown, path: string, issues: string[]) => void;
+
+const NAME_PATTERN = /^[A-Za-z0-9][-_A-Za-z0-9]*$/;
+
+const stringRule: FieldRule = (value, path, issues) => {
+  if (typeof value !== "string" || !value.trim()) {
+    issues.push(`${path}: expected a non-empty string, got ${describeValue(value)}`);
+  }
+};
+
+const booleanRule: FieldRule = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push(`${path}: expected true or false, got ${describeValue(value)}`);
+  }
+};
+
+const colorRule: FieldRule = (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push(`${path}: expected a color string, got ${describeValue(value)}`);
+    return;
+  }
+  collectError(() => validateColorInput(value), path, issues);
+};
+
+const secondaryMarkerRule: FieldRule = (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push(`${path}: expected a marker string such as "opacity" or "class:secondary", got ${describeValue(value)}`);
+    return;
+  }
+  collectError(() => parseSecondaryMarker(value), path, issues);
+};
+
+// Read from the registry on every check so styles added through registerInactiveStrategy are accepted too.
+const inactiveStyleRule: FieldRule = (value, path, issues) => {
+  const styles = listInactiveStrategies();
+  if (typeof value !== "string" || !styles.includes(value.trim().toLowerCase())) {
+    issues.push(`${path}: expected one of ${styles.join(", ")}, got ${describeValue(value)}`);
+  }
+};
+
+const colorMapRule: FieldRule = (value, path, issues) => collectError(() => parseColorMap(value), path, issues);
+
+const replaceColorsRule: FieldRule = (value, path, issues) => {
+  if (!Array.isArray(value) || value.some((entry) => !isPlainObject(entry))) {
+    issues.push(`${path}: expected an array of { "from": <color>, "to": <color> } objects`);
+    return;
+  }
+  const issueCount = issues.length;
+  value.forEach((entry, index) => checkObject(entry, `${path}[${index}]`, { from: colorRule, to: colorRule }, issues, ["from", "to"]));
+  if (issues.length === issueCount) {
+    collectError(() => normalizeColorReplacements(value as ColorReplacement[]), path, issues);
+  }
+};
+
+const inactiveStyleOptionsRule: FieldRule = (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected an object of style parameters, got ${describeValue(value)}`);
+    return;
+  }
+  for (const [key, option] of Object.entries(value)) {
+    if (!["string", "number", "boolean"].includes(typeof option)) {
+      issues.push(`${path}.${key}: expected a string, number or boolean, got ${describeValue(option)}`);
+    }
+  }
+};
+
+const backgroundStyleRule: FieldRule = (value, path, issues) =>
+  checkObject(value, path, {
+    shape: oneOfRule(BACKGROUND_SHAPES),
+    path: stringRule,
+    border: (border, borderPath, borderIssues) =>
+      checkObject(border, borderPath, { color: colorRule, width: numberRule(0) }, borderIssues, ["color", "width"]),
+    gradientEndColor: colorRule,
+    shadow: (shadow, shadowPath, shadowIssues) =>
+      checkObject(
+        shadow,
+        shadowPath,
+        { color: colorRule, blur: numberRule(0), offsetX: numberRule(), offsetY: numberRule() },
+        shadowIssues,
+        ["color"],
+      ),
+  }, issues);
+
+const optimizeRule: FieldRule = (value, path, issues) => {
+  if (typeof value === "boolean") {
+    return;
+  }
+  checkObject(value, path, { skip: listRule(OPTIMIZE_STEPS), precision: integerRule(0, 8) }, issues);
+};
+
+const VARIANT_OPTION_RULES: Record<keyof ConfigVariantOptions, FieldRule> = {
+  fill: colorRule,
+  stroke: colorRule,
+  secondaryColor: colorRule,
+  secondaryMarker: secondaryMarkerRule,
+  colorMap: colorMapRule,
+  replaceColors: replaceColorsRule,
+  replaceTolerance: numberRule(0, 100),
+  preserveFillNone: booleanRule,
+  preserveStrokeNone: booleanRule,
+  generateInactive: booleanRule,
+  inactiveMix: numberRule(0, 1),
+  inactiveColorModel: oneOfRule(INACTIVE_COLOR_MODELS),
+  inactiveStyle: inactiveStyleRule,
+  inactiveStyleOptions: inactiveStyleOptionsRule,
+  inactiveCornerRadius: numberRule(0),
+  inactiveBackgroundInsetRatio: numberRule(0, 0.9),
+  backgroundStyle: backgroundStyleRule,
+  activeBackground: colorRule,
+  minContrastRatio: numberRule(1, 21),
+  contrastBackground: colorRule,
+  gradientMode: oneOfRule(GRADIENT_MODES),
+  gradientEndColor: colorRule,
+  outputMode: oneOfRule(OUTPUT_MODES),
+  stateTrigger: oneOfRule(STATE_TRIGGERS),
+  states: listRule(BUILT_IN_ICON_STATES),
+  optimize: optimizeRule,
+  sanitize: booleanRule,
+};
+
+const PALETTE_KEYS: (keyof ConfigPalette)[] = [
+  "fill",
+  "stroke",
+  "secondaryColor",
+  "gradientEndColor",
+  "activeBackground",
+  "contrastBackground",
+  "colorMap",
+  "replaceColors",
+];
+
+// Reports every problem at once, each prefixed with its location (jobs[2].palette, defaults.inactiveMix, ...),
+// instead of stopping at the first one.
+export function validateProjectConfig(value: unknown, source = "project config"): ProjectConfig {
+  const issues: string[] = [];
+
+  if (!isPlainObject(value)) {
+    throw new Error(`Invalid ${source}: expected an object with "jobs", got ${describeValue(value)}`);
+  }
+
+  const paletteRules = Object.fromEntries(PALETTE_KEYS.map((key) => [key, VARIANT_OPTION_RULES[key]]));
+  const palettes = value.palettes;
+  if (palettes !== undefined) {
+    if (!isPlainObject(palettes)) {
+      issues.push(`palettes: expected an object of named palettes, got ${describeValue(palettes)}`);
+    } else {
+      for (const [name, palette] of Object.entries(palettes)) {
+        if (!NAME_PATTERN.test(name)) {
+          issues.push(`palettes.${name}: palette names may only use letters, digits, "-" and "_"`);
+        }
+        checkObject(palette, `palettes.${name}`, paletteRules, issues);
+      }
+    }
+  }
+  const paletteNames = isPlainObject(palettes) ? Object.keys(palettes) : [];
+
+  if (value.defaults !== undefined) {
+    checkObject(value.defaults, "defaults", VARIANT_OPTION_RULES, issues);
+  }
+
+  const jobRules: Record<string, FieldRule> = {
+    name: stringRule,
+    input: (input, path, jobIssues) => {
+      const inputs = Array.isArray(input) ? input : [input];
+      if (inputs.length === 0) {
+        jobIssues.push(`${path}: expected at least one input path or glob`);
+      }
+      inputs.forEach((entry, index) => stringRule(entry, Array.isArray(input) ? `${path}[${index}]` : path, jobIssues));
+    },
+    palette: (palette, path, jobIssues) => {
+      const names = Array.isArray(palette) ? palette : [palette];
+      names.forEach((name, index) => {
+        const entryPath = Array.isArray(palette) ? `${path}[${index}]` : path;
+        if (typeof name !== "string") {
+          jobIssues.push(`${entryPath}: expected a palette name, got ${describeValue(name)}`);
+        } else if (!paletteNames.includes(name)) {
+          jobIssues.push(
+            `${entryPath}: unknown palette "${name}". ${paletteNames.length > 0 ? `Defined palettes: ${paletteNames.join(", ")}` : "No palettes are defined"}`,
+          );
+        }
+      });
+    },
+    output: stringRule,
+    options: (options, path, jobIssues) => checkObject(options, path, VARIANT_OPTION_RULES, jobIssues),
+  };
+
+  if (!Array.isArray(value.jobs) || value.jobs.length === 0) {
+    issues.push(`jobs: expected a non-empty array of jobs, got ${describeValue(value.jobs)}`);
+  } else {
+    const jobNames = new Set<string>();
+    value.jobs.forEach((job, index) => {
+      checkObject(job, `jobs[${index}]`, jobRules, issues, ["input"]);
+      const name = isPlainObject(job) ? job.name : undefined;
+      if (typeof name === "string") {
+        if (jobNames.has(name)) {
+          issues.push(`jobs[${index}].name: duplicate job name "${name}"`);
+        }
+        jobNames.add(name);
+      }
+    });
+  }
+
+  if (value.overwrite !== undefined) {
+    booleanRule(value.overwrite, "overwrite", issues);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!["$schema", "palettes", "defaults", "overwrite", "jobs"].includes(key)) {
+      issues.push(`${key}: unknown key. Use palettes, defaults, overwrite and jobs`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+  }
+  return value as unknown as ProjectConfig;
+}
+
+// Options are layered defaults < palette < job options; a job with several palettes runs once per palette.
+export function resolveProjectJobs(config: ProjectConfig): ProjectJobRun[] {
+  return config.jobs.flatMap((job, index) => {
+    const label = job.name ?? `jobs[${index}]`;
+    const inputs = Array.isArray(job.input) ? job.input : [job.input];
+    const paletteNames = job.palette === undefined ? [undefined] : Array.isArray(job.palette) ? job.palette : [job.palette];
+
+    return paletteNames.map((palette) => {
+      const { secondaryMarker, sanitize, ...options } = {
+        ...config.defaults,
+        ...(palette ? config.palettes?.[palette] : undefined),
+        ...job.options,
+      };
+      return {
+        label: palette ? `${label} (${palette})` : label,
+        palette,
+        inputs,
+        output: job.output,
+        options: { ...options, secondaryMarker: secondaryMarker ? parseSecondaryMarker(secondaryMarker) : undefined },
+        sanitize,
+      };
+    });
+  });
+}
+
+function checkObject(
+  value: unknown,
+  path: string,
+  rules: Record<string, FieldRule>,
+  issues: string[],
+  required: string[] = [],
+): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected an object, got ${describeValue(value)}`);
+    return;
+  }
+  for (const key of required) {
+    if (value[key] === undefined) {
+      issues.push(`${path}.${key}: required`);
+    }
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    const rule = rules[key];
+    if (!rule) {
+      issues.push(`${path}.${key}: unknown option. Use ${Object.keys(rules).join(", ")}`);
+    } else if (entry !== undefined) {
+      rule(entry, `${path}.${key}`, issues);
+    }
+  }
+}
+
+function numberRule(min?: number, max?: number): FieldRule {
+  return (value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value) || (min !== undefined && value < min) || (max !== undefined && value > max)) {
+      const range = min !== undefined && max !== undefined ? ` between ${min} and ${max}` : min !== undefined ? ` >= ${min}` : "";
+      issues.push(`${path}: expected a number${range}, got ${describeValue(value)}`);
+    }
+  };
+}
+
+function integerRule(min: number, max: number): FieldRule {
+  return (value, path, issues) => {
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      issues.push(`${path}: expected an integer between ${min} and ${max}, got ${describeValue(value)}`);
+    }
+  };
+}
+
+function oneOfRule(values: readonly string[]): FieldRule {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      issues.push(`${path}: expected one of ${values.join(", ")}, got ${describeValue(value)}`);
+    }
+  };
+}
+
+function listRule(values: readonly string[]): FieldRule {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array of ${values.join(", ")}, got ${describeValue(value)}`);
+      return;
+    }
+    value.forEach((entry, index) => oneOfRule(values)(entry, `${path}[${index}]`, issues));
+  };
+}
+
+function collectError(check: () => unknown, path: string, issues: string[]): void {
+  try {
+    check();
+  } catch (error) {
+    issues.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (value === null || typeof value === "object") {
+    return value === null ? "null" : "an object";
+  }
+  return JSON.stringify(value);
+}
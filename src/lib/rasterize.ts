@@ -0,0 +1,169 @@
+import { initWasm, Resvg } from "@resvg/resvg-wasm";
+import { extractViewBox, formatNumber } from "./backgroundShapes.js";
+import {
+  getAttribute,
+  localName,
+  parseSvgDocument,
+  requireRootSvg,
+  serializeSvgDocument,
+  setAttribute,
+  SvgElement,
+  walkElements,
+} from "./svgDocument.js";
+import { rewriteDeclarationList, rewriteStyleSheet } from "./svgStyles.js";
+
+export type RasterizerWasmSource = Parameters<typeof initWasm>[0];
+
+export interface RasterizeOptions {
+  sizes?: number[];
+  scales?: number[];
+  minStrokePixels?: number;
+}
+
+export interface RasterImage {
+  size: number;
+  scale: number;
+  width: number;
+  height: number;
+  suffix: string;
+  png: Uint8Array;
+}
+
+export const DEFAULT_PNG_SIZES = [16, 24, 32, 48, 64, 128];
+export const DEFAULT_PNG_SCALES = [1, 2];
+export const MAX_PNG_PIXELS = 2048;
+export const DEFAULT_MIN_STROKE_PIXELS = 1;
+
+const GEOMETRIC_PRECISION = 2;
+const DEFAULT_STROKE_WIDTH = 1;
+const SKIPPED_CONTAINERS = new Set(["metadata", "title", "desc", "script"]);
+
+let initialization: Promise<void> | undefined;
+
+export function initRasterizer(wasm: RasterizerWasmSource): Promise<void> {
+  initialization ??= initWasm(wasm).catch((error: unknown) => {
+    initialization = undefined;
+    throw error;
+  });
+  return initialization;
+}
+
+export function formatRasterSuffix(size: number, scale: number): string {
+  return scale === 1 ? `${size}` : `${size}@${scale}x`;
+}
+
+// Strokes narrower than a device pixel fade to a faint smear once anti-aliased, so at small sizes they
+// are widened to minStrokePixels before rendering. Only unitless/px widths are touched.
+export function widenThinStrokes(svgContent: string, width: number, minStrokePixels: number): string {
+  const document = parseSvgDocument(svgContent);
+  const root = requireRootSvg(document);
+  const unitsPerPixel = readUserWidth(root) / width;
+  const minWidth = minStrokePixels * unitsPerPixel;
+  if (!(minWidth > 0)) {
+    return svgContent;
+  }
+
+  const widen = (property: string, value: string): string | undefined => {
+    if (property !== "stroke-width") {
+      return undefined;
+    }
+    const numeric = Number(value.trim().replace(/px$/i, ""));
+    return Number.isFinite(numeric) && numeric > 0 && numeric < minWidth ? formatNumber(minWidth) : undefined;
+  };
+
+  walkElements(document.children, (element) => {
+    if (SKIPPED_CONTAINERS.has(localName(element.name))) {
+      return false;
+    }
+
+    if (localName(element.name) === "style") {
+      for (const child of element.children) {
+        if (child.type === "text" || child.type === "cdata") {
+          child.value = rewriteStyleSheet(child.value, widen);
+        }
+      }
+      return false;
+    }
+
+    const attribute = getAttribute(element, "stroke-width");
+    const widenedAttribute = attribute === undefined ? undefined : widen("stroke-width", attribute);
+    if (widenedAttribute !== undefined) {
+      setAttribute(element, "stroke-width", widenedAttribute);
+    }
+
+    const style = getAttribute(element, "style");
+    if (style !== undefined) {
+      const rewritten = rewriteDeclarationList(style, widen);
+      if (rewritten !== style) {
+        setAttribute(element, "style", rewritten);
+      }
+    }
+    return true;
+  });
+
+  if (getAttribute(root, "stroke-width") === undefined && DEFAULT_STROKE_WIDTH < minWidth) {
+    setAttribute(root, "stroke-width", formatNumber(minWidth));
+  }
+
+  return serializeSvgDocument(document);
+}
+
+export function rasterizeSvg(svgContent: string, width: number): Uint8Array {
+  if (!Number.isInteger(width) || width < 1 || width > MAX_PNG_PIXELS) {
+    throw new Error(`PNG width must be an integer between 1 and ${MAX_PNG_PIXELS}: ${width}`);
+  }
+  if (!initialization) {
+    throw new Error("Call initRasterizer() with the resvg WASM module before rasterizing.");
+  }
+
+  const resvg = new Resvg(svgContent, {
+    fitTo: { mode: "width", value: width },
+    shapeRendering: GEOMETRIC_PRECISION,
+    font: { loadSystemFonts: false },
+  });
+
+  try {
+    const image = resvg.render();
+    try {
+      return image.asPng();
+    } finally {
+      image.free();
+    }
+  } finally {
+    resvg.free();
+  }
+}
+
+export function rasterizeIcon(svgContent: string, options: RasterizeOptions = {}): RasterImage[] {
+  const { sizes = DEFAULT_PNG_SIZES, scales = DEFAULT_PNG_SCALES, minStrokePixels = DEFAULT_MIN_STROKE_PIXELS } = options;
+
+  const images: RasterImage[] = [];
+  for (const size of sizes) {
+    for (const scale of scales) {
+      const width = size * scale;
+      const source = minStrokePixels > 0 ? widenThinStrokes(svgContent, width, minStrokePixels) : svgContent;
+      const png = rasterizeSvg(source, width);
+      images.push({
+        size,
+        scale,
+        width,
+        height: readPngHeight(png),
+        suffix: formatRasterSuffix(size, scale),
+        png,
+      });
+    }
+  }
+  return images;
+}
+
+function readUserWidth(root: SvgElement): number {
+  const viewBox = extractViewBox(root);
+  if (viewBox) {
+    return viewBox.width;
+  }
+  return Number((getAttribute(root, "width") ?? "").trim().replace(/px$/i, ""));
+}
+
+function readPngHeight(png: Uint8Array): number {
+  return ((png[20] << 24) | (png[21] << 16) | (png[22] << 8) | png[23]) >>> 0;
+}
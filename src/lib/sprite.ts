@@ -0,0 +1,259 @@
+import { extractViewBox, formatNumber } from "./backgroundShapes.js";
+import {
+  appendChild,
+  createElement,
+  getAttribute,
+  getTextContent,
+  localName,
+  parseSvgDocument,
+  requireRootSvg,
+  serializeNode,
+  setAttribute,
+  SvgElement,
+  walkElements,
+} from "./svgDocument.js";
+import { collectStyleRules, rewriteStyleSelectors } from "./svgStyles.js";
+import { DEFAULT_TOOLBAR_BACKGROUNDS, ThemeName } from "./themes.js";
+import type { IconVariant } from "./vivaldiIconMaker.js";
+
+export interface SpriteEntry {
+  id: string;
+  svg: string;
+  background?: string;
+}
+
+export interface SpriteOptions {
+  idPrefix?: string;
+  title?: string;
+  toolbarBackgrounds?: Partial<Record<ThemeName, string>>;
+}
+
+export interface SpriteSheet {
+  svg: string;
+  html: string;
+  ids: string[];
+}
+
+export const DEFAULT_SPRITE_ID_PREFIX = "vivaldi";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const ROOT_ONLY_ATTRIBUTES = new Set(["id", "x", "y", "width", "height", "viewbox", "version", "baseprofile"]);
+const URL_REFERENCE_PATTERN = /url\(\s*(["']?)#([^"')]+)\1\s*\)/gi;
+const SELECTOR_NAME_PATTERN = /([.#])(-?[_a-zA-Z][\w-]*)/g;
+const DEFAULT_PREVIEW_BACKGROUND = "#ffffff";
+
+interface ScopedNames {
+  ids: Set<string>;
+  classes: Set<string>;
+}
+
+export function createSpriteSymbolId(prefix: string, name: string): string {
+  const id = [prefix, name]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("-")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return /^[A-Za-z_]/.test(id) ? id : `icon-${id}`;
+}
+
+export function createSpriteEntries(variants: IconVariant[], options: SpriteOptions = {}): SpriteEntry[] {
+  const prefix = options.idPrefix ?? DEFAULT_SPRITE_ID_PREFIX;
+  const backgrounds = { ...DEFAULT_TOOLBAR_BACKGROUNDS, ...options.toolbarBackgrounds };
+  return variants.map((variant) => ({
+    id: createSpriteSymbolId(prefix, variant.name),
+    svg: variant.svg,
+    background: variant.theme ? backgrounds[variant.theme] : undefined,
+  }));
+}
+
+export function createSprite(variants: IconVariant[], options: SpriteOptions = {}): SpriteSheet {
+  return buildSpriteSheet(createSpriteEntries(variants, options), options.title);
+}
+
+export function buildSpriteSheet(entries: SpriteEntry[], title = "Vivaldi icon sprite"): SpriteSheet {
+  const ids = entries.map((entry) => entry.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate sprite symbol id: ${duplicate}`);
+  }
+
+  const roots = entries.map((entry) => requireRootSvg(parseSvgDocument(entry.svg)));
+  const collisions = findCollisions(roots, new Set(ids));
+  const namespaces = new Map<string, string>([["xmlns", SVG_NAMESPACE]]);
+
+  const symbols = roots.map((root, index) => {
+    for (const attribute of root.attributes) {
+      if (attribute.name.startsWith("xmlns:") && !namespaces.has(attribute.name)) {
+        namespaces.set(attribute.name, attribute.value);
+      }
+    }
+    scopeSymbolNames(root, entries[index].id, collisions);
+    return createSymbol(root, entries[index].id);
+  });
+
+  const sprite = createElement("svg", Object.fromEntries(namespaces));
+  // display: none would stop browsers from rendering gradients, clipPaths and masks that <use> references.
+  setAttribute(sprite, "width", "0");
+  setAttribute(sprite, "height", "0");
+  setAttribute(sprite, "aria-hidden", "true");
+  setAttribute(sprite, "style", "position: absolute; width: 0; height: 0; overflow: hidden");
+  for (const symbol of symbols) {
+    appendChild(sprite, { type: "text", value: "\n  " });
+    appendChild(sprite, symbol);
+  }
+  appendChild(sprite, { type: "text", value: "\n" });
+
+  const svg = `${serializeNode(sprite)}\n`;
+  return { svg, html: createSpritePreviewHtml(svg, entries, title), ids };
+}
+
+function findCollisions(roots: SvgElement[], symbolIds: Set<string>): ScopedNames {
+  const idOwners = new Map<string, Set<number>>();
+  const classOwners = new Map<string, Set<number>>();
+  const styledClasses = new Set<string>();
+  const addOwner = (owners: Map<string, Set<number>>, name: string, index: number) =>
+    owners.set(name, (owners.get(name) ?? new Set<number>()).add(index));
+
+  roots.forEach((root, index) => {
+    walkElements(root.children, (element) => {
+      const id = getAttribute(element, "id");
+      if (id) {
+        addOwner(idOwners, id, index);
+      }
+      for (const name of splitClassList(getAttribute(element, "class"))) {
+        addOwner(classOwners, name, index);
+      }
+      if (localName(element.name) === "style") {
+        for (const rule of collectStyleRules(getTextContent(element))) {
+          for (const [, kind, name] of rule.selector.matchAll(SELECTOR_NAME_PATTERN)) {
+            if (kind === ".") {
+              styledClasses.add(name);
+              addOwner(classOwners, name, index);
+            }
+          }
+        }
+      }
+    });
+  });
+
+  return {
+    ids: new Set([...idOwners].filter(([id, owners]) => owners.size > 1 || symbolIds.has(id)).map(([id]) => id)),
+    classes: new Set(
+      [...classOwners].filter(([name, owners]) => owners.size > 1 && styledClasses.has(name)).map(([name]) => name),
+    ),
+  };
+}
+
+// Only names that another icon also uses are prefixed, so a lone icon keeps its original ids and classes.
+// Stylesheets inside a sprite apply to the whole document, which is why shared class names need scoping too.
+function scopeSymbolNames(root: SvgElement, symbolId: string, collisions: ScopedNames): void {
+  const scopeId = (id: string) => (collisions.ids.has(id) ? `${symbolId}-${id}` : id);
+  const scopeClass = (name: string) => (collisions.classes.has(name) ? `${symbolId}-${name}` : name);
+  const rewriteUrls = (value: string) =>
+    value.replace(URL_REFERENCE_PATTERN, (_match, quote: string, id: string) => `url(${quote}#${scopeId(id)}${quote})`);
+  const rewriteSelector = (selector: string) =>
+    selector.replace(SELECTOR_NAME_PATTERN, (_match, kind: string, name: string) =>
+      `${kind}${kind === "." ? scopeClass(name) : scopeId(name)}`,
+    );
+
+  walkElements([root], (element) => {
+    for (const attribute of element.attributes) {
+      const name = attribute.name.toLowerCase();
+      if (name === "id") {
+        attribute.value = scopeId(attribute.value);
+      } else if (name === "class") {
+        attribute.value = attribute.value.replace(/[^\s]+/g, scopeClass);
+      } else if ((name === "href" || name === "xlink:href") && attribute.value.startsWith("#")) {
+        attribute.value = `#${scopeId(attribute.value.slice(1))}`;
+      } else if (attribute.value.includes("url(")) {
+        attribute.value = rewriteUrls(attribute.value);
+      }
+    }
+
+    if (localName(element.name) === "style") {
+      for (const child of element.children) {
+        if (child.type === "text" || child.type === "cdata") {
+          child.value = rewriteStyleSelectors(rewriteUrls(child.value), rewriteSelector);
+        }
+      }
+    }
+  });
+}
+
+function splitClassList(value: string | undefined): string[] {
+  return (value ?? "").split(/\s+/).filter(Boolean);
+}
+
+function createSymbol(root: SvgElement, id: string): SvgElement {
+  const symbol = createElement("symbol", { id, viewBox: readSymbolViewBox(root) });
+  for (const attribute of root.attributes) {
+    const name = attribute.name.toLowerCase();
+    if (!ROOT_ONLY_ATTRIBUTES.has(name) && name !== "xmlns" && !name.startsWith("xmlns:")) {
+      setAttribute(symbol, attribute.name, attribute.value);
+    }
+  }
+
+  for (const child of root.children) {
+    appendChild(symbol, child);
+  }
+  return symbol;
+}
+
+function readSymbolViewBox(root: SvgElement): string {
+  const viewBox = extractViewBox(root);
+  if (viewBox) {
+    return [viewBox.minX, viewBox.minY, viewBox.width, viewBox.height].map(formatNumber).join(" ");
+  }
+
+  const width = Number((getAttribute(root, "width") ?? "").trim().replace(/px$/i, ""));
+  const height = Number((getAttribute(root, "height") ?? "").trim().replace(/px$/i, ""));
+  if (!(width > 0) || !(height > 0)) {
+    throw new Error("Sprite icons need a viewBox or numeric width and height on the root <svg>.");
+  }
+  return `0 0 ${formatNumber(width)} ${formatNumber(height)}`;
+}
+
+function createSpritePreviewHtml(spriteSvg: string, entries: SpriteEntry[], title: string): string {
+  const cards = entries
+    .map(
+      (entry) =>
+        `      <figure style="background: ${escapeHtml(entry.background ?? DEFAULT_PREVIEW_BACKGROUND)}">\n` +
+        `        <svg width="48" height="48"><use href="#${escapeHtml(entry.id)}"/></svg>\n` +
+        `        <figcaption><code>${escapeHtml(entry.id)}</code></figcaption>\n` +
+        `      </figure>`,
+    )
+    .join("\n");
+
+  return (
+    `<!doctype html>\n` +
+    `<html lang="en">\n` +
+    `  <head>\n` +
+    `    <meta charset="utf-8" />\n` +
+    `    <title>${escapeHtml(title)}</title>\n` +
+    `    <style>\n` +
+    `      body { font-family: system-ui, sans-serif; margin: 24px; background: #f4f4f4; }\n` +
+    `      main { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; }\n` +
+    `      figure { margin: 0; padding: 16px; border-radius: 8px; display: flex; flex-direction: column; align-items: center; gap: 8px; box-shadow: inset 0 0 0 1px rgba(0, 0, 0, 0.08); }\n` +
+    `      figcaption code { font-size: 12px; padding: 2px 6px; border-radius: 4px; background: rgba(255, 255, 255, 0.85); color: #222222; }\n` +
+    `    </style>\n` +
+    `  </head>\n` +
+    `  <body>\n` +
+    spriteSvg +
+    `    <h1>${escapeHtml(title)}</h1>\n` +
+    `    <p>Use an icon with <code>&lt;svg&gt;&lt;use href="sprite.svg#id"/&gt;&lt;/svg&gt;</code>.</p>\n` +
+    `    <main>\n` +
+    `${cards}\n` +
+    `    </main>\n` +
+    `  </body>\n` +
+    `</html>\n`
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -1,126 +1,217 @@
+import { applyColorMap, ColorMap, hasColorMapEntries } from "./colorMap.js";
+import { isNoneColor, normalizeCssColor } from "./cssColor.js";
+import { applySecondaryColor, DEFAULT_SECONDARY_MARKER, SecondaryMarker } from "./duotone.js";
+import { applyColorReplacements, ColorReplacement } from "./paletteSwap.js";
+import {
+  DEFAULT_GRADIENT_MODE,
+  GradientMode,
+  isGradientElement,
+  recolorGradientStops,
+  resolveGradientStops,
+} from "./gradientRecolor.js";
+import {
+  buildIdIndex,
+  getAttribute,
+  getUrlReferenceId,
+  localName,
+  parseSvgDocument,
+  serializeSvgDocument,
+  setAttribute,
+  SvgDocument,
+  SvgElement,
+  walkElements,
+} from "./svgDocument.js";
+import { isRecolorTarget } from "./svgPaint.js";
+import { rewriteDeclarationList, rewriteStyleSheet } from "./svgStyles.js";
+
 export interface RecolorOptions {
   fill?: string;
   stroke?: string;
   preserveFillNone?: boolean;
   preserveStrokeNone?: boolean;
+  colorMap?: ColorMap;
+  replaceColors?: ColorReplacement[];
+  replaceTolerance?: number;
+  secondaryColor?: string;
+  secondaryMarker?: SecondaryMarker;
+  gradientMode?: GradientMode;
+  gradientEndColor?: string;
+  gradientTargets?: { fill?: string; stroke?: string };
+  transformStopColor?: (color: string) => string;
 }
 
-const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+export { BACKGROUND_MARKER_ATTRIBUTE, isRecolorTarget } from "./svgPaint.js";
 
 export function validateColorInput(color: string): string {
-  const trimmed = color.trim();
-  if (trimmed.toLowerCase() === "none") {
-    return "none";
-  }
-
-  if (HEX_COLOR_PATTERN.test(trimmed)) {
-    return trimmed;
-  }
-
-  throw new Error(`Unsupported color value: ${color}. Use CSS hex values like #ff3300 or the keyword none.`);
+  return normalizeCssColor(color);
 }
 
 export function recolorVivaldiSvg(svgContent: string, options: RecolorOptions): string {
+  const document = parseSvgDocument(svgContent);
+  recolorSvgDocument(document, options);
+  return serializeSvgDocument(document);
+}
+
+export function recolorSvgDocument(document: SvgDocument, options: RecolorOptions): void {
   const preserveFillNone = options.preserveFillNone ?? true;
   const preserveStrokeNone = options.preserveStrokeNone ?? true;
 
-  let output = svgContent;
+  const replaceColors = options.replaceColors ?? [];
+  if (replaceColors.length > 0) {
+    applyColorReplacements(document, replaceColors, options.replaceTolerance);
+  }
+
+  if (hasColorMapEntries(options.colorMap)) {
+    applyColorMap(document, options.colorMap, { preserveFillNone, preserveStrokeNone });
+    return;
+  }
+
+  if (replaceColors.length > 0) {
+    return;
+  }
+
+  const gradientMode = options.gradientMode ?? DEFAULT_GRADIENT_MODE;
+  const gradientReferences = gradientMode === "flatten" ? undefined : new Map<string, string>();
 
   if (options.fill) {
-    output = applyColor(output, "fill", options.fill, preserveFillNone);
+    applyColor(document, "fill", options.fill, preserveFillNone, gradientReferences, options.gradientTargets?.fill);
   }
 
   if (options.stroke) {
-    output = applyColor(output, "stroke", options.stroke, preserveStrokeNone);
+    applyColor(document, "stroke", options.stroke, preserveStrokeNone, gradientReferences, options.gradientTargets?.stroke);
+  }
+
+  if (options.secondaryColor) {
+    applySecondaryColor(document, {
+      color: options.secondaryColor,
+      marker: options.secondaryMarker ?? DEFAULT_SECONDARY_MARKER,
+      properties: (["fill", "stroke"] as const).filter((property) => {
+        const primary = options[property];
+        return primary !== undefined && !isNoneColor(primary);
+      }),
+      preserveFillNone,
+      preserveStrokeNone,
+    });
   }
 
-  return output;
+  if (gradientReferences && gradientReferences.size > 0 && gradientMode !== "flatten") {
+    recolorReferencedGradients(document, gradientReferences, { ...options, gradientMode });
+  }
 }
 
-function applyColor(svgContent: string, property: "fill" | "stroke", color: string, preserveNone: boolean): string {
-  let result = svgContent;
+function recolorReferencedGradients(
+  document: SvgDocument,
+  references: Map<string, string>,
+  options: RecolorOptions & { gradientMode: Exclude<GradientMode, "flatten"> },
+): void {
+  const idIndex = buildIdIndex(document);
+  const processed = new Set<SvgElement>();
+
+  for (const [id, color] of references) {
+    const gradient = idIndex.get(id);
+    if (!gradient || !isGradientElement(gradient)) {
+      continue;
+    }
 
-  result = replaceSvgAttributes(result, property, color, preserveNone);
-  result = replaceInlineStyleAttributes(result, property, color, preserveNone);
-  result = replaceStyleBlocks(result, property, color, preserveNone);
+    const stops = resolveGradientStops(gradient, idIndex);
+    if (stops.length === 0 || processed.has(stops[0])) {
+      continue;
+    }
+    processed.add(stops[0]);
 
-  return result;
+    recolorGradientStops(stops, {
+      mode: options.gradientMode,
+      color,
+      endColor: options.gradientEndColor,
+      transformStopColor: options.transformStopColor,
+    });
+  }
 }
 
-function replaceSvgAttributes(svgContent: string, property: "fill" | "stroke", color: string, preserveNone: boolean): string {
-  const attributePattern = new RegExp(`(${property}\\s*=\\s*\")(.*?)\"`, "gi");
+function applyColor(
+  document: SvgDocument,
+  property: "fill" | "stroke",
+  color: string,
+  preserveNone: boolean,
+  gradientReferences: Map<string, string> | undefined,
+  gradientTarget: string | undefined,
+): void {
+  const replaceValue = (value: string): string | undefined => {
+    const referenceId = gradientReferences ? getUrlReferenceId(value) : undefined;
+    if (referenceId) {
+      if (!gradientReferences?.has(referenceId)) {
+        gradientReferences?.set(referenceId, gradientTarget ?? color);
+      }
+      return undefined;
+    }
 
-  return svgContent.replace(attributePattern, (match, prefix: string, value: string) => {
     const normalizedValue = value.trim().toLowerCase();
     const normalizedTarget = color.trim().toLowerCase();
 
     if (preserveNone && normalizedValue === "none" && normalizedTarget !== "none") {
-      return match;
+      return undefined;
     }
 
-    return `${prefix}${color}"`;
-  });
-}
-
-function replaceInlineStyleAttributes(svgContent: string, property: "fill" | "stroke", color: string, preserveNone: boolean): string {
-  const styleAttributePattern = /style="([^"]*)"/gi;
+    return color;
+  };
 
-  return svgContent.replace(styleAttributePattern, (match, styleBody: string) => {
-    const declarations = styleBody.split(";").map((block) => block.trim()).filter(Boolean);
-    if (declarations.length === 0) {
-      return match;
+  walkElements(document.children, (element) => {
+    if (!isRecolorTarget(element)) {
+      return false;
     }
 
-    let changed = false;
-    const normalizedTarget = color.trim().toLowerCase();
-
-    const updated = declarations.map((declaration) => {
-      const [name, value] = declaration.split(":").map((part) => part.trim());
-      if (!name || value === undefined) {
-        return declaration;
-      }
-
-      if (name.toLowerCase() !== property) {
-        return declaration;
-      }
-
-      const normalizedValue = value.toLowerCase();
-      if (preserveNone && normalizedValue === "none" && normalizedTarget !== "none") {
-        return declaration;
-      }
-
-      changed = true;
-      return `${name}:${color}`;
-    });
-
-    if (!changed) {
-      return match;
+    if (localName(element.name) === "style") {
+      replaceStyleBlock(element, property, replaceValue);
+      return false;
     }
 
-    return `style="${updated.join("; ")}"`;
+    replaceSvgAttribute(element, property, replaceValue);
+    replaceInlineStyleAttribute(element, property, replaceValue);
+    return true;
   });
 }
 
-function replaceStyleBlocks(svgContent: string, property: "fill" | "stroke", color: string, preserveNone: boolean): string {
-  const styleBlockPattern = /<style[^>]*>([\s\S]*?)<\/style>/gi;
+function replaceSvgAttribute(
+  element: SvgElement,
+  property: "fill" | "stroke",
+  replaceValue: (value: string) => string | undefined,
+): void {
+  const value = getAttribute(element, property);
+  if (value === undefined) {
+    return;
+  }
 
-  return svgContent.replace(styleBlockPattern, (match, blockContent: string) => {
-    const normalizedTarget = color.trim().toLowerCase();
-    const propertyPattern = new RegExp(`(${property})(?!-)\\s*:\\s*([^;\\}]+)`, "gi");
+  const replacement = replaceValue(value);
+  if (replacement !== undefined) {
+    setAttribute(element, property, replacement);
+  }
+}
 
-    let updated = blockContent.replace(propertyPattern, (declaration, propName: string, value: string) => {
-      const normalizedValue = value.trim().toLowerCase();
-      if (preserveNone && normalizedValue === "none" && normalizedTarget !== "none") {
-        return declaration;
-      }
+function replaceInlineStyleAttribute(
+  element: SvgElement,
+  property: "fill" | "stroke",
+  replaceValue: (value: string) => string | undefined,
+): void {
+  const style = getAttribute(element, "style");
+  if (!style) {
+    return;
+  }
 
-      return `${propName}:${color}`;
-    });
+  const updated = rewriteDeclarationList(style, (name, value) => (name === property ? replaceValue(value) : undefined));
+  if (updated !== style) {
+    setAttribute(element, "style", updated);
+  }
+}
 
-    if (updated === blockContent) {
-      return match;
+function replaceStyleBlock(
+  element: SvgElement,
+  property: "fill" | "stroke",
+  replaceValue: (value: string) => string | undefined,
+): void {
+  for (const child of element.children) {
+    if (child.type !== "text" && child.type !== "cdata") {
+      continue;
     }
-
-    return match.replace(blockContent, updated);
-  });
+    child.value = rewriteStyleSheet(child.value, (name, value) => (name === property ? replaceValue(value) : undefined));
+  }
 }
@@ -0,0 +1,475 @@
+export interface SvgAttribute {
+  name: string;
+  value: string;
+  quote: "\"" | "'" | "";
+  leading: string;
+  raw?: string;
+  rawValue?: string;
+}
+
+export interface SvgElement {
+  type: "element";
+  name: string;
+  attributes: SvgAttribute[];
+  children: SvgNode[];
+  selfClosing: boolean;
+  openTagEnd: string;
+  closeTag: string;
+  parent?: SvgElement;
+}
+
+export interface SvgText {
+  type: "text";
+  value: string;
+}
+
+export interface SvgComment {
+  type: "comment";
+  value: string;
+}
+
+export interface SvgCData {
+  type: "cdata";
+  value: string;
+}
+
+export interface SvgRawNode {
+  type: "instruction" | "doctype";
+  value: string;
+}
+
+export type SvgNode = SvgElement | SvgText | SvgComment | SvgCData | SvgRawNode;
+
+export interface SvgDocument {
+  children: SvgNode[];
+}
+
+const NAME_PATTERN = /[^\s/>=]+/y;
+const WHITESPACE_PATTERN = /\s*/y;
+
+export function parseSvgDocument(source: string): SvgDocument {
+  const document: SvgDocument = { children: [] };
+  const stack: SvgElement[] = [];
+  let index = 0;
+
+  const append = (node: SvgNode): void => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      if (node.type === "element") {
+        node.parent = parent;
+      }
+      parent.children.push(node);
+    } else {
+      document.children.push(node);
+    }
+  };
+
+  while (index < source.length) {
+    const next = source.indexOf("<", index);
+    if (next === -1) {
+      append({ type: "text", value: source.slice(index) });
+      break;
+    }
+
+    if (next > index) {
+      append({ type: "text", value: source.slice(index, next) });
+      index = next;
+    }
+
+    if (source.startsWith("<!--", index)) {
+      const end = requireIndex(source, "-->", index + 4, "comment");
+      const value = source.slice(index + 4, end);
+      if (value.includes("--")) {
+        throw new Error(`Malformed comment at offset ${index}: "--" is not allowed inside comments.`);
+      }
+      append({ type: "comment", value });
+      index = end + 3;
+    } else if (source.startsWith("<![CDATA[", index)) {
+      const end = requireIndex(source, "]]>", index + 9, "CDATA section");
+      append({ type: "cdata", value: source.slice(index + 9, end) });
+      index = end + 3;
+    } else if (source.startsWith("<?", index)) {
+      const end = requireIndex(source, "?>", index + 2, "processing instruction");
+      append({ type: "instruction", value: source.slice(index, end + 2) });
+      index = end + 2;
+    } else if (source.startsWith("<!", index)) {
+      const end = findDoctypeEnd(source, index);
+      append({ type: "doctype", value: source.slice(index, end + 1) });
+      index = end + 1;
+    } else if (source.startsWith("</", index)) {
+      const end = requireIndex(source, ">", index + 2, "closing tag");
+      const name = source.slice(index + 2, end).trim();
+      const openIndex = findOpenElement(stack, name);
+      if (openIndex !== -1) {
+        stack[openIndex].closeTag = source.slice(index, end + 1);
+        stack.length = openIndex;
+      }
+      index = end + 1;
+    } else {
+      const { element, end } = parseOpenTag(source, index);
+      append(element);
+      if (!element.selfClosing) {
+        stack.push(element);
+      }
+      index = end;
+    }
+  }
+
+  return document;
+}
+
+export function serializeSvgDocument(document: SvgDocument): string {
+  return document.children.map(serializeNode).join("");
+}
+
+export function serializeNode(node: SvgNode): string {
+  switch (node.type) {
+    case "text":
+      return node.value;
+    case "comment":
+      return `<!--${node.value}-->`;
+    case "cdata":
+      return `<![CDATA[${node.value}]]>`;
+    case "instruction":
+    case "doctype":
+      return node.value;
+    case "element":
+      return serializeElement(node);
+  }
+}
+
+export function findRootSvg(document: SvgDocument): SvgElement | undefined {
+  return document.children.find(
+    (node): node is SvgElement => node.type === "element" && localName(node.name) === "svg",
+  );
+}
+
+export function requireRootSvg(document: SvgDocument): SvgElement {
+  const root = findRootSvg(document);
+  if (!root) {
+    throw new Error("Input file is not a valid SVG document.");
+  }
+  return root;
+}
+
+export function localName(name: string): string {
+  const separator = name.indexOf(":");
+  return (separator === -1 ? name : name.slice(separator + 1)).toLowerCase();
+}
+
+export function createElement(name: string, attributes: Record<string, string>): SvgElement {
+  return {
+    type: "element",
+    name,
+    attributes: Object.entries(attributes).map(([attributeName, value]) => ({
+      name: attributeName,
+      value,
+      quote: "\"",
+      leading: " ",
+    })),
+    children: [],
+    selfClosing: true,
+    openTagEnd: "",
+    closeTag: "",
+  };
+}
+
+export function getAttribute(element: SvgElement, name: string): string | undefined {
+  return findAttribute(element, name)?.value;
+}
+
+export function hasAttribute(element: SvgElement, name: string): boolean {
+  return findAttribute(element, name) !== undefined;
+}
+
+export function setAttribute(element: SvgElement, name: string, value: string): void {
+  const existing = findAttribute(element, name);
+  if (existing) {
+    existing.value = value;
+    return;
+  }
+  element.attributes.push({ name, value, quote: "\"", leading: " " });
+}
+
+export function removeAttribute(element: SvgElement, name: string): void {
+  element.attributes = element.attributes.filter((attribute) => attribute.name.toLowerCase() !== name.toLowerCase());
+}
+
+export function appendChild(parent: SvgElement, child: SvgNode): void {
+  insertChild(parent, parent.children.length, child);
+}
+
+export function insertChild(parent: SvgElement, index: number, child: SvgNode): void {
+  if (child.type === "element") {
+    child.parent = parent;
+  }
+  parent.children.splice(index, 0, child);
+  if (parent.selfClosing) {
+    parent.selfClosing = false;
+    parent.openTagEnd = "";
+    parent.closeTag = `</${parent.name}>`;
+  }
+}
+
+export function replaceNode(parent: SvgElement | SvgDocument, target: SvgNode, replacement: SvgNode): void {
+  const index = parent.children.indexOf(target);
+  if (index === -1) {
+    return;
+  }
+  if (replacement.type === "element" && "type" in parent) {
+    replacement.parent = parent;
+  }
+  parent.children.splice(index, 1, replacement);
+}
+
+export function removeNode(parent: SvgElement | SvgDocument, target: SvgNode): void {
+  const index = parent.children.indexOf(target);
+  if (index !== -1) {
+    parent.children.splice(index, 1);
+  }
+}
+
+export function walkElements(
+  nodes: SvgNode[],
+  visitor: (element: SvgElement) => boolean | void,
+): void {
+  for (const node of [...nodes]) {
+    if (node.type !== "element") {
+      continue;
+    }
+    if (visitor(node) === false) {
+      continue;
+    }
+    walkElements(node.children, visitor);
+  }
+}
+
+export function collectElements(nodes: SvgNode[], predicate: (element: SvgElement) => boolean): SvgElement[] {
+  const matches: SvgElement[] = [];
+  walkElements(nodes, (element) => {
+    if (predicate(element)) {
+      matches.push(element);
+    }
+  });
+  return matches;
+}
+
+export function buildIdIndex(document: SvgDocument): Map<string, SvgElement> {
+  const index = new Map<string, SvgElement>();
+  walkElements(document.children, (element) => {
+    const id = getAttribute(element, "id");
+    if (id && !index.has(id)) {
+      index.set(id, element);
+    }
+  });
+  return index;
+}
+
+export function getUrlReferenceId(value: string): string | undefined {
+  const match = value.trim().match(/^url\(\s*(["']?)#([^"')]+)\1\s*\)/i);
+  return match ? match[2] : undefined;
+}
+
+export function getHrefReferenceId(element: SvgElement): string | undefined {
+  const href = getAttribute(element, "href") ?? getAttribute(element, "xlink:href");
+  return href?.startsWith("#") ? href.slice(1) : undefined;
+}
+
+export function getTextContent(element: SvgElement): string {
+  return element.children
+    .map((child) => (child.type === "text" || child.type === "cdata" ? child.value : ""))
+    .join("");
+}
+
+function serializeElement(element: SvgElement): string {
+  const attributes = element.attributes.map(serializeAttribute).join("");
+  const openTag = `<${element.name}${attributes}${element.openTagEnd}`;
+
+  if (element.selfClosing) {
+    return `${openTag}/>`;
+  }
+
+  return `${openTag}>${element.children.map(serializeNode).join("")}${element.closeTag}`;
+}
+
+function serializeAttribute(attribute: SvgAttribute): string {
+  if (attribute.raw !== undefined && attribute.rawValue !== undefined && decodeEntities(attribute.rawValue) === attribute.value) {
+    return attribute.raw;
+  }
+
+  const quote = attribute.quote || "\"";
+  return `${attribute.leading}${attribute.name}=${quote}${escapeAttributeValue(attribute.value, quote)}${quote}`;
+}
+
+function parseOpenTag(source: string, start: number): { element: SvgElement; end: number } {
+  let index = start + 1;
+  const name = matchAt(NAME_PATTERN, source, index);
+  if (!name) {
+    throw new Error(`Malformed SVG markup at offset ${start}.`);
+  }
+  index += name.length;
+
+  const attributes: SvgAttribute[] = [];
+
+  while (index < source.length) {
+    const leading = matchAt(WHITESPACE_PATTERN, source, index) ?? "";
+    const afterWhitespace = index + leading.length;
+
+    if (source.startsWith("/>", afterWhitespace)) {
+      return {
+        element: createParsedElement(name, attributes, true, leading),
+        end: afterWhitespace + 2,
+      };
+    }
+
+    if (source[afterWhitespace] === ">") {
+      return {
+        element: createParsedElement(name, attributes, false, leading),
+        end: afterWhitespace + 1,
+      };
+    }
+
+    const attributeName = matchAt(NAME_PATTERN, source, afterWhitespace);
+    if (!attributeName) {
+      throw new Error(`Malformed attribute in <${name}> at offset ${afterWhitespace}.`);
+    }
+
+    let cursor = afterWhitespace + attributeName.length;
+    const beforeEquals = matchAt(WHITESPACE_PATTERN, source, cursor) ?? "";
+
+    if (source[cursor + beforeEquals.length] !== "=") {
+      attributes.push({
+        name: attributeName,
+        value: "",
+        quote: "",
+        leading,
+        raw: `${leading}${attributeName}`,
+        rawValue: "",
+      });
+      index = cursor;
+      continue;
+    }
+
+    cursor += beforeEquals.length + 1;
+    cursor += (matchAt(WHITESPACE_PATTERN, source, cursor) ?? "").length;
+
+    const quoteChar = source[cursor];
+    let rawValue: string;
+    let quote: SvgAttribute["quote"];
+    if (quoteChar === "\"" || quoteChar === "'") {
+      const valueEnd = source.indexOf(quoteChar, cursor + 1);
+      if (valueEnd === -1) {
+        throw new Error(`Unterminated attribute value in <${name}> at offset ${cursor}.`);
+      }
+      rawValue = source.slice(cursor + 1, valueEnd);
+      quote = quoteChar;
+      cursor = valueEnd + 1;
+    } else {
+      rawValue = matchAt(/[^\s>]+/y, source, cursor) ?? "";
+      quote = "";
+      cursor += rawValue.length;
+    }
+
+    attributes.push({
+      name: attributeName,
+      value: decodeEntities(rawValue),
+      quote,
+      leading,
+      raw: source.slice(index, cursor),
+      rawValue,
+    });
+    index = cursor;
+  }
+
+  throw new Error(`Unterminated <${name}> tag at offset ${start}.`);
+}
+
+function createParsedElement(
+  name: string,
+  attributes: SvgAttribute[],
+  selfClosing: boolean,
+  openTagEnd: string,
+): SvgElement {
+  return {
+    type: "element",
+    name,
+    attributes,
+    children: [],
+    selfClosing,
+    openTagEnd,
+    closeTag: "",
+  };
+}
+
+function findAttribute(element: SvgElement, name: string): SvgAttribute | undefined {
+  const normalized = name.toLowerCase();
+  return element.attributes.find((attribute) => attribute.name.toLowerCase() === normalized);
+}
+
+function findOpenElement(stack: SvgElement[], name: string): number {
+  for (let index = stack.length - 1; index >= 0; index -= 1) {
+    if (stack[index].name === name) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function findDoctypeEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let index = start + 2; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === "[") {
+      depth += 1;
+    } else if (char === "]") {
+      depth -= 1;
+    } else if (char === ">" && depth <= 0) {
+      return index;
+    }
+  }
+  throw new Error(`Unterminated declaration at offset ${start}.`);
+}
+
+function requireIndex(source: string, token: string, from: number, label: string): number {
+  const index = source.indexOf(token, from);
+  if (index === -1) {
+    throw new Error(`Unterminated ${label} at offset ${from}.`);
+  }
+  return index;
+}
+
+function matchAt(pattern: RegExp, source: string, index: number): string | undefined {
+  pattern.lastIndex = index;
+  const match = pattern.exec(source);
+  return match ? match[0] : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, body: string) => {
+    const lower = body.toLowerCase();
+    if (lower.startsWith("#")) {
+      const codePoint = lower.startsWith("#x") ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+      // Out-of-range references are not characters; keep them as written instead of throwing.
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    switch (lower) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return "\"";
+      case "apos":
+        return "'";
+      default:
+        return entity;
+    }
+  });
+}
+
+function escapeAttributeValue(value: string, quote: "\"" | "'"): string {
+  const escaped = value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return quote === "\"" ? escaped.replace(/"/g, "&quot;") : escaped.replace(/'/g, "&apos;");
+}
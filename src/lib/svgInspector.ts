@@ -0,0 +1,409 @@
+import { extractViewBox, ViewBoxValues } from "./backgroundShapes.js";
+import { formatCssColor, isCurrentColor, isNoneColor, tryParseCssColor } from "./cssColor.js";
+import { isGradientElement, readStopColor } from "./gradientRecolor.js";
+import {
+  buildIdIndex,
+  findRootSvg,
+  getAttribute,
+  getHrefReferenceId,
+  getTextContent,
+  getUrlReferenceId,
+  localName,
+  parseSvgDocument,
+  SvgElement,
+  walkElements,
+} from "./svgDocument.js";
+import { collectCompiledStyleRules, getEffectivePaint, isRecolorTarget, readPaintSources } from "./svgPaint.js";
+import { summarizeSanitizeRemovals, sanitizeSvg } from "./svgSanitizer.js";
+import { collectStyleRules, forEachDeclaration } from "./svgStyles.js";
+
+export type InspectedProperty = "fill" | "stroke" | "stop-color";
+
+export type PaintSourceKind = "attribute" | "inline-style" | "style-rule";
+
+export type InspectionWarningCode =
+  | "implicit-fill"
+  | "css-variable"
+  | "pattern-paint"
+  | "gradient-flattened"
+  | "mask-content"
+  | "animated-paint"
+  | "filter-color"
+  | "raster-image"
+  | "external-reference"
+  | "missing-viewbox"
+  | "unsupported-markup";
+
+export interface PaintUsage {
+  property: InspectedProperty;
+  value: string;
+  color?: string;
+  source: PaintSourceKind;
+  location: string;
+}
+
+export interface GradientInfo {
+  id?: string;
+  type: "linear" | "radial";
+  stops: string[];
+  template?: string;
+  referenced: boolean;
+}
+
+export interface InspectionWarning {
+  code: InspectionWarningCode;
+  message: string;
+}
+
+export interface SvgInspection {
+  viewBox?: ViewBoxValues;
+  width?: string;
+  height?: string;
+  elementCounts: Record<string, number>;
+  paints: PaintUsage[];
+  colors: string[];
+  gradients: GradientInfo[];
+  masks: string[];
+  clipPaths: string[];
+  patterns: string[];
+  filters: string[];
+  unsupported: string[];
+  warnings: InspectionWarning[];
+}
+
+const INSPECTED_PROPERTIES: InspectedProperty[] = ["fill", "stroke", "stop-color"];
+const FILLED_SHAPES = new Set(["path", "rect", "circle", "ellipse", "polygon", "polyline", "text", "use"]);
+// Content here is painted by whatever references it, or is meant to stay black (masks, clip paths).
+const REFERENCED_CONTAINERS = ["defs", "symbol", "mask", "clippath", "pattern", "marker"];
+const ANIMATION_ELEMENTS = new Set(["animate", "set", "animatecolor"]);
+const FILTER_COLOR_PROPERTIES = ["flood-color", "lighting-color"];
+const MAX_LISTED_LOCATIONS = 5;
+
+// Mirrors what recolorVivaldiSvg reads and writes: paint in attributes, inline styles and <style> rules of
+// elements outside <metadata>, <title>, <desc> and <script>. Warnings describe what that pass gets wrong.
+export function inspectSvg(svgContent: string): SvgInspection {
+  const document = parseSvgDocument(svgContent);
+  const root = findRootSvg(document);
+  if (!root) {
+    throw new Error("Input does not contain an <svg> root element.");
+  }
+
+  const idIndex = buildIdIndex(document);
+  const rules = collectCompiledStyleRules(document);
+  const locations = createLocationNamer();
+  const inspection: SvgInspection = {
+    viewBox: extractViewBox(root),
+    width: getAttribute(root, "width"),
+    height: getAttribute(root, "height"),
+    elementCounts: {},
+    paints: [],
+    colors: [],
+    gradients: [],
+    masks: [],
+    clipPaths: [],
+    patterns: [],
+    filters: [],
+    unsupported: summarizeSanitizeRemovals(sanitizeSvg(svgContent).removed),
+    warnings: [],
+  };
+
+  const paintReferences = new Set<string>();
+  const unfilledShapes: string[] = [];
+  const maskedPaints: string[] = [];
+  const variablePaints: string[] = [];
+  const animatedPaints: string[] = [];
+  const filterColors: string[] = [];
+  const images: string[] = [];
+  const externalReferences: string[] = [];
+
+  const record = (property: string, value: string, source: PaintSourceKind, location: string): void => {
+    if (!(INSPECTED_PROPERTIES as string[]).includes(property)) {
+      return;
+    }
+    const parsed = tryParseCssColor(value);
+    inspection.paints.push({
+      property: property as InspectedProperty,
+      value: value.trim(),
+      color: parsed ? formatCssColor(parsed, parsed.a < 1) : undefined,
+      source,
+      location,
+    });
+    const referenceId = getUrlReferenceId(value);
+    if (referenceId) {
+      paintReferences.add(referenceId);
+    }
+    if (/\bvar\(/i.test(value)) {
+      variablePaints.push(location);
+    }
+  };
+
+  walkElements(document.children, (element) => {
+    const name = localName(element.name);
+    inspection.elementCounts[element.name] = (inspection.elementCounts[element.name] ?? 0) + 1;
+    const location = locations(element);
+
+    if (!isRecolorTarget(element)) {
+      return false;
+    }
+
+    if (name === "style") {
+      const css = getTextContent(element);
+      for (const rule of collectStyleRules(css)) {
+        forEachDeclaration(rule.declarations, (property, value) => {
+          record(property, value, "style-rule", rule.selector);
+          if (property.startsWith("--") && tryParseCssColor(value)) {
+            variablePaints.push(`${rule.selector} { ${property} }`);
+          }
+        });
+      }
+      return false;
+    }
+
+    for (const attribute of element.attributes) {
+      record(attribute.name.toLowerCase(), attribute.value, "attribute", location);
+      if (FILTER_COLOR_PROPERTIES.includes(attribute.name.toLowerCase())) {
+        filterColors.push(location);
+      }
+    }
+    const style = getAttribute(element, "style");
+    if (style) {
+      forEachDeclaration(style, (property, value) => {
+        record(property, value, "inline-style", location);
+        if (FILTER_COLOR_PROPERTIES.includes(property)) {
+          filterColors.push(location);
+        }
+      });
+    }
+
+    if (isGradientElement(element)) {
+      inspection.gradients.push({
+        id: getAttribute(element, "id"),
+        type: name === "lineargradient" ? "linear" : "radial",
+        stops: element.children
+          .filter((child): child is SvgElement => child.type === "element" && localName(child.name) === "stop")
+          .map((stop) => formatColorValue(readStopColor(stop))),
+        template: getHrefReferenceId(element),
+        referenced: false,
+      });
+    } else if (name === "mask") {
+      inspection.masks.push(location);
+    } else if (name === "clippath") {
+      inspection.clipPaths.push(location);
+    } else if (name === "pattern") {
+      inspection.patterns.push(location);
+    } else if (name === "filter") {
+      inspection.filters.push(location);
+    } else if (name === "image" || name === "feimage") {
+      images.push(location);
+    } else if (ANIMATION_ELEMENTS.has(name)) {
+      const attributeName = getAttribute(element, "attributeName")?.trim().toLowerCase();
+      if (attributeName && (INSPECTED_PROPERTIES as string[]).includes(attributeName)) {
+        animatedPaints.push(`${location} (${attributeName})`);
+      }
+    }
+
+    const href = getAttribute(element, "href") ?? getAttribute(element, "xlink:href");
+    if (href !== undefined && !href.startsWith("#") && name !== "a" && name !== "image" && name !== "feimage") {
+      externalReferences.push(location);
+    }
+
+    if (isInside(element, "mask") && hasOwnPaint(element)) {
+      maskedPaints.push(location);
+    }
+    if (
+      FILLED_SHAPES.has(name) &&
+      !REFERENCED_CONTAINERS.some((container) => isInside(element, container)) &&
+      !externalReferences.includes(location) &&
+      !hasPaintInChain(element)
+    ) {
+      unfilledShapes.push(location);
+    }
+    return true;
+  });
+
+  function hasOwnPaint(element: SvgElement): boolean {
+    return ["fill", "stroke"].some((property) => getEffectivePaint(readPaintSources(element, property, rules)) !== undefined);
+  }
+
+  function hasPaintInChain(element: SvgElement): boolean {
+    for (let current: SvgElement | undefined = element; current; current = current.parent) {
+      if (getEffectivePaint(readPaintSources(current, "fill", rules)) !== undefined) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  for (const gradient of inspection.gradients) {
+    gradient.referenced =
+      gradient.id !== undefined &&
+      (paintReferences.has(gradient.id) ||
+        inspection.gradients.some((other) => other.template === gradient.id && other.id && paintReferences.has(other.id)));
+  }
+  inspection.colors = [...new Set(inspection.paints.flatMap((paint) => (paint.color ? [paint.color] : [])))];
+
+  const warn = (code: InspectionWarningCode, message: string, where: string[] = []) =>
+    inspection.warnings.push({ code, message: where.length > 0 ? `${message}: ${listLocations(where)}` : message });
+
+  if (!inspection.viewBox) {
+    warn("missing-viewbox", "No usable viewBox, so the icon will not scale cleanly and background plates fall back to width/height");
+  }
+  if (unfilledShapes.length > 0) {
+    warn(
+      "implicit-fill",
+      "Shapes without any fill render in the default black, which --fill does not change (set fill on the root <svg>)",
+      unfilledShapes,
+    );
+  }
+  const patternPaints = inspection.paints.filter((paint) => {
+    const id = getUrlReferenceId(paint.value);
+    const target = id ? idIndex.get(id) : undefined;
+    return id !== undefined && !(target && isGradientElement(target));
+  });
+  if (patternPaints.length > 0) {
+    warn(
+      "pattern-paint",
+      "Paint referencing a pattern or missing element is replaced by a flat color",
+      patternPaints.map((paint) => paint.location),
+    );
+  }
+  if (inspection.gradients.some((gradient) => gradient.referenced)) {
+    warn("gradient-flattened", "Gradient paint is replaced by the flat color unless --gradient tint or --gradient map is used");
+  }
+  if (variablePaints.length > 0) {
+    warn(
+      "css-variable",
+      "CSS custom properties are not recolored; var() paint is replaced by the flat color and loses the variable",
+      variablePaints,
+    );
+  }
+  if (maskedPaints.length > 0) {
+    warn("mask-content", "Paint inside <mask> is recolored too, which changes the mask's luminance and coverage", maskedPaints);
+  }
+  if (animatedPaints.length > 0) {
+    warn("animated-paint", "Animated colors are not recolored", animatedPaints);
+  }
+  if (filterColors.length > 0) {
+    warn("filter-color", "flood-color and lighting-color in filters are not recolored", filterColors);
+  }
+  if (images.length > 0) {
+    warn("raster-image", "Embedded images cannot be recolored", images);
+  }
+  if (externalReferences.length > 0) {
+    warn("external-reference", "References to other files are not recolored and are removed by sanitizing", externalReferences);
+  }
+  if (inspection.unsupported.length > 0) {
+    warn("unsupported-markup", "Unsafe or unsupported markup is removed before recoloring", inspection.unsupported);
+  }
+
+  return inspection;
+}
+
+export function formatInspection(inspection: SvgInspection, title?: string): string {
+  const lines: string[] = title ? [title] : [];
+  const { viewBox } = inspection;
+  const size = [
+    viewBox ? `viewBox ${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}` : "no viewBox",
+    inspection.width !== undefined ? `width ${inspection.width}` : undefined,
+    inspection.height !== undefined ? `height ${inspection.height}` : undefined,
+  ].filter(Boolean);
+  lines.push(`  Size: ${size.join(", ")}`);
+
+  const counts = Object.entries(inspection.elementCounts).sort(([, a], [, b]) => b - a);
+  const total = counts.reduce((sum, [, count]) => sum + count, 0);
+  lines.push(`  Elements: ${total} (${counts.map(([name, count]) => `${name} ${count}`).join(", ")})`);
+
+  const colorCount = inspection.colors.length;
+  lines.push(`  Paint (${colorCount} distinct color${colorCount === 1 ? "" : "s"}):`);
+  if (inspection.paints.length === 0) {
+    lines.push("    none found");
+  }
+  const groups = new Map<string, PaintUsage[]>();
+  for (const paint of inspection.paints) {
+    const key = `${paint.property}\u0000${paint.color ?? paint.value}\u0000${paint.source}`;
+    groups.set(key, [...(groups.get(key) ?? []), paint]);
+  }
+  for (const usages of groups.values()) {
+    const [{ property, value, color, source }] = usages;
+    const note = isNoneColor(value) ? " (preserved)" : isCurrentColor(value) ? " (inherits color)" : "";
+    lines.push(
+      `    ${property} ${color ?? value}${note} – ${describeSource(source)} ${listLocations(usages.map((usage) => usage.location))}`,
+    );
+  }
+
+  for (const gradient of inspection.gradients) {
+    lines.push(
+      `  Gradient: ${gradient.type}${gradient.id ? ` #${gradient.id}` : ""} ` +
+        `(${gradient.stops.length > 0 ? gradient.stops.join(" -> ") : `stops from #${gradient.template ?? "?"}`})` +
+        `${gradient.referenced ? "" : ", unused"}`,
+    );
+  }
+  for (const [label, entries] of [
+    ["Masks", inspection.masks],
+    ["Clip paths", inspection.clipPaths],
+    ["Patterns", inspection.patterns],
+    ["Filters", inspection.filters],
+  ] as const) {
+    if (entries.length > 0) {
+      lines.push(`  ${label}: ${entries.join(", ")}`);
+    }
+  }
+
+  if (inspection.warnings.length === 0) {
+    lines.push("  No recoloring issues found");
+  } else {
+    lines.push("  Warnings:");
+    lines.push(...inspection.warnings.map((warning) => `    - ${warning.message}`));
+  }
+  return lines.join("\n");
+}
+
+function describeSource(source: PaintSourceKind): string {
+  switch (source) {
+    case "attribute":
+      return "attribute on";
+    case "inline-style":
+      return "inline style on";
+    case "style-rule":
+      return "<style> rule";
+  }
+}
+
+// Elements are named by id, then first class, then their position among elements of the same name.
+function createLocationNamer(): (element: SvgElement) => string {
+  const counters = new Map<string, number>();
+  const names = new Map<SvgElement, string>();
+  return (element) => {
+    const existing = names.get(element);
+    if (existing) {
+      return existing;
+    }
+    const count = (counters.get(element.name) ?? 0) + 1;
+    counters.set(element.name, count);
+    const id = getAttribute(element, "id");
+    const className = getAttribute(element, "class")?.trim().split(/\s+/)[0];
+    const name = id ? `${element.name}#${id}` : className ? `${element.name}.${className}` : `${element.name}[${count}]`;
+    names.set(element, name);
+    return name;
+  };
+}
+
+function isInside(element: SvgElement, ancestorName: string): boolean {
+  for (let current = element.parent; current; current = current.parent) {
+    if (localName(current.name) === ancestorName) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function formatColorValue(value: string): string {
+  const parsed = tryParseCssColor(value);
+  return parsed ? formatCssColor(parsed, parsed.a < 1) : value;
+}
+
+function listLocations(locations: string[]): string {
+  const unique = [...new Set(locations)];
+  const listed = unique.slice(0, MAX_LISTED_LOCATIONS).join(", ");
+  return unique.length > MAX_LISTED_LOCATIONS ? `${listed} and ${unique.length - MAX_LISTED_LOCATIONS} more` : listed;
+}
@@ -0,0 +1,399 @@
+import {
+  getAttribute,
+  getTextContent,
+  localName,
+  parseSvgDocument,
+  removeAttribute,
+  removeNode,
+  requireRootSvg,
+  serializeSvgDocument,
+  SvgDocument,
+  SvgElement,
+  SvgNode,
+  walkElements,
+} from "./svgDocument.js";
+import { collectStyleRules } from "./svgStyles.js";
+
+export type OptimizeStep =
+  | "comments"
+  | "metadata"
+  | "editor-data"
+  | "unused-defs"
+  | "unused-ids"
+  | "dimensions"
+  | "round-numbers"
+  | "whitespace";
+
+export interface OptimizeOptions {
+  skip?: OptimizeStep[];
+  precision?: number;
+}
+
+export interface OptimizeReport {
+  originalBytes: number;
+  optimizedBytes: number;
+  savedBytes: number;
+}
+
+export interface OptimizeResult {
+  svg: string;
+  report: OptimizeReport;
+}
+
+export const OPTIMIZE_STEPS: OptimizeStep[] = [
+  "comments",
+  "metadata",
+  "editor-data",
+  "unused-defs",
+  "unused-ids",
+  "dimensions",
+  "round-numbers",
+  "whitespace",
+];
+export const DEFAULT_OPTIMIZE_PRECISION = 3;
+
+const EDITOR_NAMESPACES = new Set([
+  "http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd",
+  "http://inkscape.sourceforge.net/DTD/sodipodi-0.dtd",
+  "http://www.inkscape.org/namespaces/inkscape",
+  "http://www.bohemiancoding.com/sketch/ns",
+  "http://www.serif.com/",
+  "http://ns.adobe.com/AdobeIllustrator/10.0/",
+  "http://ns.adobe.com/AdobeSVGViewerExtensions/3.0/",
+  "http://ns.adobe.com/Extensibility/1.0/",
+  "http://ns.adobe.com/Flows/1.0/",
+  "http://ns.adobe.com/ImageReplacement/1.0/",
+  "http://ns.adobe.com/GenericCustomNamespace/1.0/",
+  "http://ns.adobe.com/XPath/1.0/",
+  "http://ns.adobe.com/SaveForWeb/1.0/",
+  "http://ns.adobe.com/Variables/1.0/",
+  "http://creativecommons.org/ns#",
+  "http://purl.org/dc/elements/1.1/",
+  "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+]);
+// Illustrator writes layer names into data-name, which nothing downstream reads.
+const EDITOR_ATTRIBUTES = new Set(["data-name"]);
+const GEOMETRY_ATTRIBUTES = new Set(["x", "y", "width", "height", "rx", "ry", "cx", "cy", "r", "x1", "y1", "x2", "y2"]);
+const PRESERVE_WHITESPACE_ELEMENTS = new Set(["text", "tspan", "textpath", "title", "desc"]);
+const PATH_COMMAND_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]/;
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+const PLAIN_NUMBER_PATTERN = /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?\s*$/;
+// ARIA attributes that hold a space-separated list of ids rather than a url(#…) or href.
+const ID_LIST_ATTRIBUTES = new Set([
+  "aria-activedescendant",
+  "aria-controls",
+  "aria-describedby",
+  "aria-details",
+  "aria-errormessage",
+  "aria-flowto",
+  "aria-labelledby",
+  "aria-owns",
+]);
+const URL_REFERENCE_PATTERN = /url\(\s*["']?#([^"')]+)["']?\s*\)/g;
+const MAX_DEFS_PASSES = 8;
+
+export function isOptimizeStep(value: string): value is OptimizeStep {
+  return (OPTIMIZE_STEPS as string[]).includes(value);
+}
+
+export function optimizeSvg(svgContent: string, options: OptimizeOptions = {}): OptimizeResult {
+  const { skip = [], precision = DEFAULT_OPTIMIZE_PRECISION } = options;
+  if (!Number.isInteger(precision) || precision < 0 || precision > 8) {
+    throw new Error(`Optimize precision must be an integer between 0 and 8: ${precision}`);
+  }
+
+  const enabled = (step: OptimizeStep) => !skip.includes(step);
+  const document = parseSvgDocument(svgContent);
+  const root = requireRootSvg(document);
+
+  if (enabled("comments")) {
+    removeNodes(document, (node) => node.type === "comment" && !node.value.startsWith("!"));
+  }
+  if (enabled("metadata")) {
+    removeNodes(
+      document,
+      (node) =>
+        node.type === "instruction" ||
+        node.type === "doctype" ||
+        (node.type === "element" && localName(node.name) === "metadata"),
+    );
+  }
+  if (enabled("editor-data")) {
+    removeEditorData(document, root);
+  }
+  if (enabled("unused-defs")) {
+    removeUnusedDefs(document);
+  }
+  if (enabled("unused-ids")) {
+    const referenced = collectReferencedIds(document);
+    walkElements(document.children, (element) => {
+      const id = getAttribute(element, "id");
+      if (id !== undefined && !referenced.has(id)) {
+        removeAttribute(element, "id");
+      }
+    });
+  }
+  if (enabled("dimensions") && getAttribute(root, "viewBox")) {
+    removeAttribute(root, "width");
+    removeAttribute(root, "height");
+  }
+  if (enabled("round-numbers")) {
+    roundNumbers(document, precision);
+  }
+  if (enabled("whitespace")) {
+    collapseWhitespace(document);
+  }
+
+  const svg = serializeSvgDocument(document);
+  const originalBytes = measureBytes(svgContent);
+  const optimizedBytes = measureBytes(svg);
+  return { svg, report: { originalBytes, optimizedBytes, savedBytes: originalBytes - optimizedBytes } };
+}
+
+export function roundPathData(data: string, precision: number): string {
+  const commands: { letter: string; values: string[] }[] = [];
+  let current: { letter: string; values: string[] } | undefined;
+  let index = 0;
+
+  while (index < data.length) {
+    const char = data[index];
+    if (/[\s,]/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (PATH_COMMAND_PATTERN.test(char)) {
+      current = { letter: char, values: [] };
+      commands.push(current);
+      index += 1;
+      continue;
+    }
+    if (!current) {
+      return data;
+    }
+
+    // Arc flags may be written without separators ("a1 1 0 01.5.5"), so they are read one digit at a time.
+    const arcPosition = current.values.length % 7;
+    if ((current.letter === "a" || current.letter === "A") && (arcPosition === 3 || arcPosition === 4)) {
+      if (char !== "0" && char !== "1") {
+        return data;
+      }
+      current.values.push(char);
+      index += 1;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(data);
+    if (!match) {
+      return data;
+    }
+    current.values.push(formatRoundedNumber(Number(match[0]), precision));
+    index += match[0].length;
+  }
+
+  return commands.map((command) => `${command.letter}${joinNumbers(command.values)}`).join("");
+}
+
+function removeNodes(document: SvgDocument, predicate: (node: SvgNode) => boolean): void {
+  document.children = document.children.filter((node) => !predicate(node));
+  walkElements(document.children, (element) => {
+    element.children = element.children.filter((node) => !predicate(node));
+  });
+}
+
+function removeEditorData(document: SvgDocument, root: SvgElement): void {
+  const editorPrefixes = new Set<string>();
+  walkElements(document.children, (element) => {
+    for (const attribute of element.attributes) {
+      if (attribute.name.startsWith("xmlns:") && EDITOR_NAMESPACES.has(attribute.value)) {
+        editorPrefixes.add(attribute.name.slice("xmlns:".length));
+      }
+    }
+  });
+
+  const isEditorName = (name: string) => {
+    const separator = name.indexOf(":");
+    return separator !== -1 && editorPrefixes.has(name.slice(0, separator));
+  };
+
+  removeNodes(document, (node) => node.type === "element" && isEditorName(node.name));
+
+  const usedPrefixes = new Set<string>();
+  walkElements(document.children, (element) => {
+    element.attributes = element.attributes.filter(
+      (attribute) =>
+        !isEditorName(attribute.name) &&
+        !EDITOR_ATTRIBUTES.has(attribute.name) &&
+        !(attribute.name.startsWith("xmlns:") && editorPrefixes.has(attribute.name.slice("xmlns:".length))),
+    );
+    for (const name of [element.name, ...element.attributes.map((attribute) => attribute.name)]) {
+      const separator = name.indexOf(":");
+      if (separator !== -1 && !name.startsWith("xmlns:")) {
+        usedPrefixes.add(name.slice(0, separator));
+      }
+    }
+  });
+
+  root.attributes = root.attributes.filter(
+    (attribute) => !attribute.name.startsWith("xmlns:") || usedPrefixes.has(attribute.name.slice("xmlns:".length)),
+  );
+}
+
+// Removing one definition can orphan the gradient it inherited stops from, so passes repeat until stable.
+function removeUnusedDefs(document: SvgDocument): void {
+  for (let pass = 0; pass < MAX_DEFS_PASSES; pass += 1) {
+    const referenced = collectReferencedIds(document);
+    let removed = false;
+
+    walkElements(document.children, (element) => {
+      if (localName(element.name) !== "defs") {
+        return;
+      }
+      for (const child of [...element.children]) {
+        if (child.type !== "element") {
+          continue;
+        }
+        const id = getAttribute(child, "id");
+        if (id !== undefined && !referenced.has(id)) {
+          removeNode(element, child);
+          removed = true;
+        }
+      }
+    });
+
+    if (!removed) {
+      break;
+    }
+  }
+
+  removeNodes(
+    document,
+    (node) =>
+      node.type === "element" &&
+      localName(node.name) === "defs" &&
+      !node.children.some((child) => child.type === "element"),
+  );
+}
+
+function collectReferencedIds(document: SvgDocument): Set<string> {
+  const referenced = new Set<string>();
+  const addUrls = (value: string) => {
+    for (const [, id] of value.matchAll(URL_REFERENCE_PATTERN)) {
+      referenced.add(id);
+    }
+  };
+
+  walkElements(document.children, (element) => {
+    for (const attribute of element.attributes) {
+      const name = attribute.name.toLowerCase();
+      if ((name === "href" || name === "xlink:href") && attribute.value.startsWith("#")) {
+        referenced.add(attribute.value.slice(1));
+      } else if (ID_LIST_ATTRIBUTES.has(name)) {
+        attribute.value.split(/\s+/).filter(Boolean).forEach((id) => referenced.add(id));
+      } else if (name === "begin" || name === "end") {
+        for (const part of attribute.value.split(";")) {
+          const separator = part.indexOf(".");
+          if (separator > 0) {
+            referenced.add(part.slice(0, separator).trim());
+          }
+        }
+      } else {
+        addUrls(attribute.value);
+      }
+    }
+
+    if (localName(element.name) === "style") {
+      const css = getTextContent(element);
+      addUrls(css);
+      for (const rule of collectStyleRules(css)) {
+        for (const [, id] of rule.selector.matchAll(/#([-_A-Za-z0-9]+)/g)) {
+          referenced.add(id);
+        }
+      }
+    }
+  });
+
+  return referenced;
+}
+
+function roundNumbers(document: SvgDocument, precision: number): void {
+  walkElements(document.children, (element) => {
+    const isRoot = localName(element.name) === "svg";
+    for (const attribute of element.attributes) {
+      const name = attribute.name;
+      let rounded: string | undefined;
+      if (name === "d") {
+        rounded = roundPathData(attribute.value, precision);
+      } else if (name === "points") {
+        rounded = roundPointList(attribute.value, precision);
+      } else if (GEOMETRY_ATTRIBUTES.has(name) && !isRoot && PLAIN_NUMBER_PATTERN.test(attribute.value)) {
+        rounded = formatRoundedNumber(Number(attribute.value), precision);
+      }
+      if (rounded !== undefined && rounded !== attribute.value) {
+        attribute.value = rounded;
+      }
+    }
+  });
+}
+
+function roundPointList(value: string, precision: number): string {
+  if (/[^-+\d.eE\s,]/.test(value)) {
+    return value;
+  }
+  const numbers = value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  return joinNumbers(numbers.map((number) => formatRoundedNumber(Number(number), precision)));
+}
+
+function collapseWhitespace(document: SvgDocument): void {
+  const isBlank = (node: SvgNode) => node.type === "text" && node.value.trim() === "";
+  document.children = document.children.filter((node) => !isBlank(node));
+
+  walkElements(document.children, (element) => {
+    for (const attribute of element.attributes) {
+      attribute.leading = " ";
+      attribute.raw = undefined;
+    }
+    element.openTagEnd = "";
+    if (!element.selfClosing) {
+      element.closeTag = `</${element.name}>`;
+    }
+
+    const name = localName(element.name);
+    if (PRESERVE_WHITESPACE_ELEMENTS.has(name) || getAttribute(element, "xml:space") === "preserve") {
+      return false;
+    }
+    if (name === "style") {
+      for (const child of element.children) {
+        if (child.type === "text" || child.type === "cdata") {
+          child.value = child.value.replace(/\s+/g, " ").replace(/\s*([{};])\s*/g, "$1").trim();
+        }
+      }
+      return false;
+    }
+    element.children = element.children.filter((node) => !isBlank(node));
+    if (element.children.length === 0) {
+      element.selfClosing = true;
+    }
+    return true;
+  });
+}
+
+function formatRoundedNumber(value: number, precision: number): string {
+  const text = String(Number(value.toFixed(precision)));
+  return text === "-0" ? "0" : text.replace(/^(-?)0\./, "$1.");
+}
+
+function joinNumbers(values: string[]): string {
+  return values.reduce((joined, value, index) => {
+    if (index === 0) {
+      return value;
+    }
+    const previous = values[index - 1];
+    const needsSeparator = !value.startsWith("-") && !(value.startsWith(".") && previous.includes("."));
+    return `${joined}${needsSeparator ? " " : ""}${value}`;
+  }, "");
+}
+
+function measureBytes(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
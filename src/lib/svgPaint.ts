@@ -0,0 +1,94 @@
+import { getAttribute, localName, setAttribute, SvgDocument, SvgElement, walkElements } from "./svgDocument.js";
+import { SelectorMatcher, tryCompileSelector } from "./svgSelectors.js";
+import { collectStyleRules, readDeclaration, setDeclaration } from "./svgStyles.js";
+
+export const BACKGROUND_MARKER_ATTRIBUTE = "data-vivaldi-inactive-bg";
+
+export interface CompiledStyleRule {
+  matches: SelectorMatcher;
+  declarations: string;
+}
+
+export interface PaintSources {
+  inline?: string;
+  sheet?: string;
+  attribute?: string;
+}
+
+const SKIPPED_CONTAINERS = new Set(["metadata", "title", "desc", "script"]);
+
+export function isRecolorTarget(element: SvgElement): boolean {
+  return !SKIPPED_CONTAINERS.has(localName(element.name)) && getAttribute(element, BACKGROUND_MARKER_ATTRIBUTE) === undefined;
+}
+
+export function isBackgroundElement(element: SvgElement): boolean {
+  for (let current: SvgElement | undefined = element; current; current = current.parent) {
+    if (getAttribute(current, BACKGROUND_MARKER_ATTRIBUTE) !== undefined) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function collectCompiledStyleRules(document: SvgDocument): CompiledStyleRule[] {
+  const rules: CompiledStyleRule[] = [];
+
+  walkElements(document.children, (element) => {
+    if (localName(element.name) !== "style") {
+      return true;
+    }
+
+    for (const child of element.children) {
+      if (child.type !== "text" && child.type !== "cdata") {
+        continue;
+      }
+      for (const rule of collectStyleRules(child.value)) {
+        const matches = tryCompileSelector(rule.selector);
+        if (matches) {
+          rules.push({ matches, declarations: rule.declarations });
+        }
+      }
+    }
+    return false;
+  });
+
+  return rules;
+}
+
+export function readPaintSources(element: SvgElement, property: string, rules: CompiledStyleRule[]): PaintSources {
+  const style = getAttribute(element, "style");
+  let sheet: string | undefined;
+
+  for (const rule of rules) {
+    if (rule.matches(element)) {
+      sheet = readDeclaration(rule.declarations, property) ?? sheet;
+    }
+  }
+
+  return {
+    inline: style ? readDeclaration(style, property) : undefined,
+    sheet,
+    attribute: getAttribute(element, property),
+  };
+}
+
+export function getEffectivePaint(sources: PaintSources): string | undefined {
+  return sources.inline ?? sources.sheet ?? sources.attribute;
+}
+
+export function writePaint(
+  element: SvgElement,
+  property: string,
+  color: string,
+  sources: PaintSources,
+  force: boolean,
+): void {
+  if (sources.inline !== undefined || sources.sheet !== undefined) {
+    setAttribute(element, "style", setDeclaration(getAttribute(element, "style") ?? "", property, color));
+    return;
+  }
+
+  if (sources.attribute !== undefined || force) {
+    setAttribute(element, property, color);
+  }
+}
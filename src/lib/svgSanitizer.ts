@@ -0,0 +1,360 @@
+import {
+  getAttribute,
+  getTextContent,
+  localName,
+  parseSvgDocument,
+  requireRootSvg,
+  serializeSvgDocument,
+  SvgAttribute,
+  SvgDocument,
+  SvgElement,
+  SvgNode,
+  SvgRawNode,
+  walkElements,
+} from "./svgDocument.js";
+import { removeDeclarations, removeStyleSheetDeclarations } from "./svgStyles.js";
+
+export type SanitizeRemovalKind = "element" | "attribute" | "declaration" | "instruction";
+
+export interface SanitizeRemoval {
+  kind: SanitizeRemovalKind;
+  name: string;
+  element?: string;
+}
+
+export interface SanitizeResult {
+  svg: string;
+  removed: SanitizeRemoval[];
+}
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+const ALLOWED_ELEMENTS = new Set(
+  [
+    "svg", "g", "defs", "symbol", "use", "switch", "a", "title", "desc", "metadata", "style",
+    "path", "rect", "circle", "ellipse", "line", "polyline", "polygon", "image", "marker",
+    "text", "tspan", "textPath",
+    "linearGradient", "radialGradient", "stop", "pattern", "clipPath", "mask",
+    "animate", "animateMotion", "animateTransform", "mpath", "set",
+    "filter", "feBlend", "feColorMatrix", "feComponentTransfer", "feComposite", "feConvolveMatrix",
+    "feDiffuseLighting", "feDisplacementMap", "feDistantLight", "feDropShadow", "feFlood", "feFuncA",
+    "feFuncB", "feFuncG", "feFuncR", "feGaussianBlur", "feImage", "feMerge", "feMergeNode",
+    "feMorphology", "feOffset", "fePointLight", "feSpecularLighting", "feSpotLight", "feTile",
+    "feTurbulence",
+  ].map((name) => name.toLowerCase()),
+);
+
+const ALLOWED_ATTRIBUTES = new Set(
+  [
+    // Core and accessibility
+    "id", "class", "style", "lang", "role", "tabindex", "focusable", "href",
+    "requiredFeatures", "requiredExtensions", "systemLanguage",
+    // Presentation
+    "alignment-baseline", "baseline-shift", "clip", "clip-path", "clip-rule", "color",
+    "color-interpolation", "color-interpolation-filters", "color-rendering", "cursor", "direction",
+    "display", "dominant-baseline", "enable-background", "fill", "fill-opacity", "fill-rule", "filter",
+    "flood-color", "flood-opacity", "font", "font-family", "font-size", "font-size-adjust", "font-stretch",
+    "font-style", "font-variant", "font-weight", "glyph-orientation-horizontal",
+    "glyph-orientation-vertical", "image-rendering", "isolation", "kerning", "letter-spacing",
+    "lighting-color", "marker", "marker-end", "marker-mid", "marker-start", "mask", "mask-type",
+    "mix-blend-mode", "opacity", "overflow", "paint-order", "pointer-events", "shape-rendering",
+    "stop-color", "stop-opacity", "stroke", "stroke-dasharray", "stroke-dashoffset", "stroke-linecap",
+    "stroke-linejoin", "stroke-miterlimit", "stroke-opacity", "stroke-width", "text-anchor",
+    "text-decoration", "text-rendering", "transform", "transform-origin", "unicode-bidi",
+    "vector-effect", "visibility", "word-spacing", "writing-mode",
+    // Geometry and structure
+    "x", "y", "x1", "y1", "x2", "y2", "cx", "cy", "r", "rx", "ry", "fx", "fy", "fr", "width", "height",
+    "d", "points", "pathLength", "viewBox", "preserveAspectRatio", "version", "baseProfile",
+    "gradientUnits", "gradientTransform", "spreadMethod", "offset", "patternUnits",
+    "patternContentUnits", "patternTransform", "clipPathUnits", "maskUnits", "maskContentUnits",
+    "markerUnits", "markerWidth", "markerHeight", "refX", "refY", "orient",
+    "dx", "dy", "rotate", "textLength", "lengthAdjust", "startOffset", "method", "spacing", "side",
+    "media", "type",
+    // Filters
+    "filterUnits", "primitiveUnits", "in", "in2", "result", "mode", "values", "operator",
+    "k1", "k2", "k3", "k4", "stdDeviation", "edgeMode", "scale", "xChannelSelector", "yChannelSelector",
+    "radius", "baseFrequency", "numOctaves", "seed", "stitchTiles", "tableValues", "slope", "intercept",
+    "amplitude", "exponent", "order", "kernelMatrix", "divisor", "bias", "targetX", "targetY",
+    "preserveAlpha", "surfaceScale", "diffuseConstant", "specularConstant", "specularExponent",
+    "kernelUnitLength", "azimuth", "elevation", "pointsAtX", "pointsAtY", "pointsAtZ",
+    "limitingConeAngle", "z",
+    // Animation
+    "attributeName", "attributeType", "begin", "dur", "end", "min", "max", "restart", "repeatCount",
+    "repeatDur", "calcMode", "keyTimes", "keySplines", "keyPoints", "from", "to", "by",
+    "additive", "accumulate", "path",
+  ].map((name) => name.toLowerCase()),
+);
+
+const ALLOWED_XML_ATTRIBUTES = new Set(["xml:space", "xml:lang"]);
+const IMAGE_DATA_URI_PATTERN = /^data:image\/(?:png|jpe?g|gif|webp|svg\+xml)[;,]/i;
+const LINK_URL_PATTERN = /^(?:https?:|mailto:)/i;
+const CSS_URL_PATTERN = /url\(\s*(["']?)([^"')]*)/gi;
+const IMPORT_RULE_PATTERN = /@import[^;]*;?/gi;
+const XML_DECLARATION_PATTERN =
+  /^<\?xml\s+version\s*=\s*["'](1\.\d)["'](?:\s+encoding\s*=\s*["']([A-Za-z][\w.-]*)["'])?(?:\s+standalone\s*=\s*["'](yes|no)["'])?\s*\?>$/;
+const UNSAFE_CSS_PATTERN = /@import|expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+
+// Only the markup SVG needs to draw is kept: anything that can run script, load external resources or
+// switch into HTML parsing (<script>, on* handlers, javascript: and remote URLs, <foreignObject>) is dropped.
+export function sanitizeSvg(svgContent: string): SanitizeResult {
+  const document = parseSvgDocument(svgContent);
+  requireRootSvg(document);
+
+  const removed: SanitizeRemoval[] = [];
+  sanitizeChildren(document, collectNamespaceBindings(document), removed);
+
+  return { svg: serializeSvgDocument(document), removed };
+}
+
+export function describeSanitizeRemoval(removal: SanitizeRemoval): string {
+  switch (removal.kind) {
+    case "element":
+      return `<${removal.name}>`;
+    case "instruction":
+      return removal.name;
+    case "attribute":
+      return `${removal.name} on <${removal.element}>`;
+    case "declaration":
+      return `style ${removal.name} on <${removal.element}>`;
+  }
+}
+
+// Collapses repeated removals (e.g. an onclick on every path) into one line each.
+export function summarizeSanitizeRemovals(removed: SanitizeRemoval[]): string[] {
+  const counts = new Map<string, number>();
+  for (const removal of removed) {
+    const label = describeSanitizeRemoval(removal);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts].map(([label, count]) => (count > 1 ? `${label} (x${count})` : label));
+}
+
+function sanitizeChildren(
+  parent: SvgElement | SvgDocument,
+  namespaces: Map<string, string>,
+  removed: SanitizeRemoval[],
+): void {
+  parent.children = parent.children.filter((node) => {
+    // Previews parse the result as HTML, which ends comments at "--!>" or "<!--->" where XML does not.
+    if (node.type === "comment") {
+      return false;
+    }
+    if (isXmlDeclaration(node)) {
+      const declaration = serializeXmlDeclaration(node.value);
+      if (declaration === undefined) {
+        removed.push({ kind: "instruction", name: describeInstruction(node) });
+        return false;
+      }
+      node.value = declaration;
+      return true;
+    }
+    if (isUnsafeInstruction(node)) {
+      removed.push({ kind: "instruction", name: describeInstruction(node) });
+      return false;
+    }
+    if (node.type !== "element") {
+      return true;
+    }
+    if (!isAllowedElement(node, namespaces)) {
+      removed.push({ kind: "element", name: node.name });
+      return false;
+    }
+    sanitizeAttributes(node, namespaces, removed);
+    if (localName(node.name).toLowerCase() === "style" && !sanitizeStyleElement(node, removed)) {
+      removed.push({ kind: "element", name: node.name });
+      return false;
+    }
+    sanitizeChildren(node, namespaces, removed);
+    return true;
+  });
+}
+
+function isAllowedElement(element: SvgElement, namespaces: Map<string, string>): boolean {
+  const separator = element.name.indexOf(":");
+  if (separator !== -1 && namespaces.get(element.name.slice(0, separator)) !== SVG_NAMESPACE) {
+    return false;
+  }
+  const name = localName(element.name).toLowerCase();
+  if (!ALLOWED_ELEMENTS.has(name)) {
+    return false;
+  }
+  if (name === "animate" || name === "set") {
+    // Animating href (or an event attribute) would smuggle in a javascript: URL after sanitizing.
+    const target = localName(getAttribute(element, "attributeName") ?? "").trim().toLowerCase();
+    return target !== "href" && !target.startsWith("on");
+  }
+  return true;
+}
+
+function sanitizeAttributes(element: SvgElement, namespaces: Map<string, string>, removed: SanitizeRemoval[]): void {
+  element.attributes = element.attributes.filter((attribute) => {
+    if (isAllowedAttribute(element, attribute, namespaces)) {
+      return true;
+    }
+    removed.push({ kind: "attribute", name: attribute.name, element: element.name });
+    return false;
+  });
+
+  const style = element.attributes.find((attribute) => attribute.name.toLowerCase() === "style");
+  if (style) {
+    style.value = removeDeclarations(style.value, (property, value) => {
+      const unsafe = isUnsafeCss(value);
+      if (unsafe) {
+        removed.push({ kind: "declaration", name: property, element: element.name });
+      }
+      return unsafe;
+    });
+    if (isUnsafeCss(style.value)) {
+      element.attributes = element.attributes.filter((attribute) => attribute !== style);
+      removed.push({ kind: "attribute", name: style.name, element: element.name });
+    }
+  }
+}
+
+function isAllowedAttribute(element: SvgElement, attribute: SvgAttribute, namespaces: Map<string, string>): boolean {
+  const name = attribute.name.toLowerCase();
+  const value = attribute.value;
+
+  if (name === "xmlns") {
+    return value === SVG_NAMESPACE;
+  }
+  if (name.startsWith("xmlns:")) {
+    return value === SVG_NAMESPACE || value === XLINK_NAMESPACE;
+  }
+  if (name === "style") {
+    return true;
+  }
+  if (isUnsafeCss(value)) {
+    return false;
+  }
+
+  const separator = name.indexOf(":");
+  if (separator !== -1) {
+    const prefix = attribute.name.slice(0, separator);
+    if (prefix === "xml") {
+      return ALLOWED_XML_ATTRIBUTES.has(name);
+    }
+    return (
+      namespaces.get(prefix) === XLINK_NAMESPACE && name.slice(separator + 1) === "href" && isAllowedHref(element, value)
+    );
+  }
+  if (name.startsWith("data-") || name.startsWith("aria-")) {
+    return true;
+  }
+  if (!ALLOWED_ATTRIBUTES.has(name)) {
+    return false;
+  }
+  return name !== "href" || isAllowedHref(element, value);
+}
+
+function isAllowedHref(element: SvgElement, value: string): boolean {
+  const target = value.replace(/[\s\u0000-\u001f]+/g, "");
+  if (target.startsWith("#")) {
+    return true;
+  }
+  const name = localName(element.name).toLowerCase();
+  if (name === "image" || name === "feimage") {
+    return IMAGE_DATA_URI_PATTERN.test(target);
+  }
+  return name === "a" && LINK_URL_PATTERN.test(target);
+}
+
+function sanitizeStyleElement(element: SvgElement, removed: SanitizeRemoval[]): boolean {
+  for (const child of element.children) {
+    if (child.type === "text" || child.type === "cdata") {
+      child.value = child.value.replace(IMPORT_RULE_PATTERN, () => {
+        removed.push({ kind: "declaration", name: "@import", element: element.name });
+        return "";
+      });
+      child.value = removeStyleSheetDeclarations(child.value, (property, value) => {
+        const unsafe = isUnsafeCss(value);
+        if (unsafe) {
+          removed.push({ kind: "declaration", name: property, element: element.name });
+        }
+        return unsafe;
+      });
+    }
+  }
+  return !isUnsafeCss(getTextContent(element));
+}
+
+function isUnsafeCss(css: string): boolean {
+  const decoded = decodeCssEscapes(css);
+  if (UNSAFE_CSS_PATTERN.test(decoded)) {
+    return true;
+  }
+  for (const [, , target] of decoded.matchAll(CSS_URL_PATTERN)) {
+    const url = target.trim();
+    if (!url.startsWith("#") && !IMAGE_DATA_URI_PATTERN.test(url)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function decodeCssEscapes(css: string): string {
+  return css
+    .replace(/\\([0-9a-fA-F]{1,6})\s?/g, (_match, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16) || 0xfffd))
+    .replace(/\\(.)/g, "$1");
+}
+
+function collectNamespaceBindings(document: SvgDocument): Map<string, string> {
+  const bindings = new Map<string, string>();
+  const conflicting = new Set<string>();
+  walkElements(document.children, (element) => {
+    for (const attribute of element.attributes) {
+      if (!attribute.name.startsWith("xmlns:")) {
+        continue;
+      }
+      const prefix = attribute.name.slice("xmlns:".length);
+      const declared = bindings.get(prefix);
+      if (declared !== undefined && declared !== attribute.value) {
+        conflicting.add(prefix);
+      }
+      bindings.set(prefix, attribute.value);
+    }
+  });
+
+  // A prefix bound to different namespaces in different places cannot be trusted without tracking scope.
+  for (const prefix of conflicting) {
+    bindings.delete(prefix);
+  }
+  // Browsers treat an undeclared xlink:href as XLink, so it gets the same checks as href.
+  if (!bindings.has("xlink") && !conflicting.has("xlink")) {
+    bindings.set("xlink", XLINK_NAMESPACE);
+  }
+  return bindings;
+}
+
+// The XML declaration is harmless; other processing instructions (xml-stylesheet) load external files and
+// a DOCTYPE internal subset can declare entities.
+function isUnsafeInstruction(node: SvgNode): boolean {
+  return node.type === "instruction" || (node.type === "doctype" && node.value.includes("["));
+}
+
+function isXmlDeclaration(node: SvgNode): node is SvgRawNode {
+  return node.type === "instruction" && /^<\?xml\s/i.test(node.value);
+}
+
+// The declaration is rebuilt from its known fields so nothing else written inside it (e.g. a quoted ">") survives.
+function serializeXmlDeclaration(value: string): string | undefined {
+  const match = XML_DECLARATION_PATTERN.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const [, version, encoding, standalone] = match;
+  return (
+    `<?xml version="${version}"` +
+    (encoding ? ` encoding="${encoding}"` : "") +
+    (standalone ? ` standalone="${standalone}"` : "") +
+    `?>`
+  );
+}
+
+function describeInstruction(node: SvgNode): string {
+  if (node.type === "instruction") {
+    return `<?${/^<\?\s*([^\s?]+)/.exec(node.value)?.[1] ?? ""}?>`;
+  }
+  return "<!DOCTYPE>";
+}
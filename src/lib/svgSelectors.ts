@@ -0,0 +1,163 @@
+import { getAttribute, localName, SvgElement } from "./svgDocument.js";
+
+export type SelectorMatcher = (element: SvgElement) => boolean;
+
+interface CompoundSelector {
+  tag?: string;
+  ids: string[];
+  classes: string[];
+  attributes: { name: string; value?: string }[];
+  bare?: string;
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: (" " | ">")[];
+}
+
+const IDENTIFIER = "-?[_a-zA-Z][-_a-zA-Z0-9]*";
+const BARE_PATTERN = new RegExp(`^${IDENTIFIER}$`);
+const COMPOUND_PART_PATTERN = new RegExp(
+  `^(?:(\\*|${IDENTIFIER})|#(${IDENTIFIER})|\\.(${IDENTIFIER})|\\[\\s*([-_a-zA-Z0-9:]+)\\s*(?:=\\s*(?:"([^"]*)"|'([^']*)'|([^\\]\\s]+))\\s*)?\\])`,
+);
+
+export function compileSelector(selector: string, options: { allowBareNames?: boolean } = {}): SelectorMatcher {
+  const alternatives = selector
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => parseComplexSelector(part, options.allowBareNames ?? false));
+
+  if (alternatives.length === 0) {
+    throw new Error(`Empty selector: "${selector}"`);
+  }
+
+  return (element) => alternatives.some((complex) => matchesComplex(element, complex, complex.compounds.length - 1));
+}
+
+export function tryCompileSelector(selector: string): SelectorMatcher | undefined {
+  try {
+    return compileSelector(selector);
+  } catch {
+    return undefined;
+  }
+}
+
+export function getClassList(element: SvgElement): string[] {
+  return (getAttribute(element, "class") ?? "").split(/\s+/).filter(Boolean);
+}
+
+function parseComplexSelector(selector: string, allowBareNames: boolean): ComplexSelector {
+  const tokens = selector.replace(/\s*>\s*/g, " > ").split(/\s+/).filter(Boolean);
+  const compounds: CompoundSelector[] = [];
+  const combinators: (" " | ">")[] = [];
+  let pendingCombinator: " " | ">" = " ";
+
+  for (const token of tokens) {
+    if (token === ">") {
+      if (compounds.length === 0) {
+        throw new Error(`Unsupported selector: "${selector}"`);
+      }
+      pendingCombinator = ">";
+      continue;
+    }
+
+    if (compounds.length > 0) {
+      combinators.push(pendingCombinator);
+    }
+    compounds.push(parseCompoundSelector(token, selector, allowBareNames && tokens.length === 1));
+    pendingCombinator = " ";
+  }
+
+  if (compounds.length === 0 || pendingCombinator === ">") {
+    throw new Error(`Unsupported selector: "${selector}"`);
+  }
+
+  return { compounds, combinators };
+}
+
+function parseCompoundSelector(token: string, selector: string, allowBare: boolean): CompoundSelector {
+  if (allowBare && BARE_PATTERN.test(token)) {
+    return { ids: [], classes: [], attributes: [], bare: token };
+  }
+
+  const compound: CompoundSelector = { ids: [], classes: [], attributes: [] };
+  let rest = token;
+
+  while (rest.length > 0) {
+    const match = rest.match(COMPOUND_PART_PATTERN);
+    if (!match) {
+      throw new Error(`Unsupported selector: "${selector}". Use ids, classes, tag names, [attr] / [attr=value] and descendant or > combinators.`);
+    }
+
+    const [whole, tag, id, className, attributeName, doubleQuoted, singleQuoted, unquoted] = match;
+    if (tag) {
+      if (rest !== token) {
+        throw new Error(`Unsupported selector: "${selector}"`);
+      }
+      compound.tag = tag;
+    } else if (id) {
+      compound.ids.push(id);
+    } else if (className) {
+      compound.classes.push(className);
+    } else if (attributeName) {
+      compound.attributes.push({ name: attributeName, value: doubleQuoted ?? singleQuoted ?? unquoted });
+    }
+
+    rest = rest.slice(whole.length);
+  }
+
+  return compound;
+}
+
+function matchesComplex(element: SvgElement, complex: ComplexSelector, index: number): boolean {
+  if (!matchesCompound(element, complex.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  const combinator = complex.combinators[index - 1];
+  let ancestor = element.parent;
+
+  while (ancestor) {
+    if (matchesComplex(ancestor, complex, index - 1)) {
+      return true;
+    }
+    if (combinator === ">") {
+      return false;
+    }
+    ancestor = ancestor.parent;
+  }
+
+  return false;
+}
+
+function matchesCompound(element: SvgElement, compound: CompoundSelector): boolean {
+  if (compound.bare) {
+    return (
+      getAttribute(element, "id") === compound.bare ||
+      getClassList(element).includes(compound.bare) ||
+      localName(element.name) === compound.bare.toLowerCase()
+    );
+  }
+
+  if (compound.tag && compound.tag !== "*" && localName(element.name) !== localName(compound.tag)) {
+    return false;
+  }
+
+  if (compound.ids.some((id) => getAttribute(element, "id") !== id)) {
+    return false;
+  }
+
+  const classList = getClassList(element);
+  if (compound.classes.some((className) => !classList.includes(className))) {
+    return false;
+  }
+
+  return compound.attributes.every(({ name, value }) => {
+    const actual = getAttribute(element, name);
+    return value === undefined ? actual !== undefined : actual === value;
+  });
+}
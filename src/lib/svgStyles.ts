@@ -0,0 +1,190 @@
+export interface StyleRule {
+  selector: string;
+  declarations: string;
+}
+
+export type CssValueReplacer = (property: string, value: string) => string | undefined;
+
+interface StyleSheetSegment {
+  text: string;
+  kind: "text" | "comment" | "open" | "close";
+}
+
+const DECLARATION_PATTERN = /(^|;)(\s*)([-a-zA-Z]+)(\s*:\s*)([^;]*?)(\s*(?:!important)?\s*)(?=;|$)/g;
+const STYLESHEET_TOKEN_PATTERN = /\/\*[\s\S]*?\*\/|[{}]/g;
+
+export function rewriteDeclarationList(declarations: string, replacer: CssValueReplacer): string {
+  return declarations.replace(
+    DECLARATION_PATTERN,
+    (match, separator: string, leading: string, property: string, colon: string, value: string, trailing: string) => {
+      if (!value) {
+        return match;
+      }
+      const replacement = replacer(property.toLowerCase(), value);
+      if (replacement === undefined || replacement === value) {
+        return match;
+      }
+      return `${separator}${leading}${property}${colon}${replacement}${trailing}`;
+    },
+  );
+}
+
+export function rewriteStyleSheet(css: string, replacer: CssValueReplacer): string {
+  const segments = splitStyleSheet(css);
+
+  return segments
+    .map((segment, index) => {
+      if (segment.kind !== "text" || !isDeclarationBlock(segments, index)) {
+        return segment.text;
+      }
+      return rewriteDeclarationList(segment.text, replacer);
+    })
+    .join("");
+}
+
+export function removeDeclarations(
+  declarations: string,
+  predicate: (property: string, value: string) => boolean,
+): string {
+  return declarations.replace(
+    DECLARATION_PATTERN,
+    (match, separator: string, _leading: string, property: string, _colon: string, value: string) =>
+      predicate(property.toLowerCase(), value) ? separator : match,
+  );
+}
+
+export function removeStyleSheetDeclarations(
+  css: string,
+  predicate: (property: string, value: string) => boolean,
+): string {
+  const segments = splitStyleSheet(css);
+
+  return segments
+    .map((segment, index) =>
+      segment.kind === "text" && isDeclarationBlock(segments, index)
+        ? removeDeclarations(segment.text, predicate)
+        : segment.text,
+    )
+    .join("");
+}
+
+export function rewriteStyleSelectors(css: string, replacer: (selector: string) => string): string {
+  const segments = splitStyleSheet(css);
+
+  return segments
+    .map((segment, index) =>
+      segment.kind !== "text" || isDeclarationBlock(segments, index) ? segment.text : replacer(segment.text),
+    )
+    .join("");
+}
+
+export function collectStyleRules(css: string): StyleRule[] {
+  const segments = splitStyleSheet(css);
+  const rules: StyleRule[] = [];
+  let prelude = "";
+  let selector = "";
+
+  segments.forEach((segment, index) => {
+    if (segment.kind === "open") {
+      selector = prelude.trim();
+      prelude = "";
+    } else if (segment.kind === "close") {
+      prelude = "";
+    } else if (segment.kind === "text") {
+      if (isDeclarationBlock(segments, index)) {
+        if (selector && !selector.startsWith("@")) {
+          rules.push({ selector, declarations: segment.text });
+        }
+      } else {
+        prelude += segment.text;
+      }
+    }
+  });
+
+  return rules;
+}
+
+export function readDeclaration(declarations: string, property: string): string | undefined {
+  let result: string | undefined;
+  forEachDeclaration(declarations, (name, value) => {
+    if (name === property) {
+      result = value;
+    }
+  });
+  return result;
+}
+
+export function setDeclaration(declarations: string, property: string, value: string): string {
+  if (readDeclaration(declarations, property) !== undefined) {
+    return rewriteDeclarationList(declarations, (name) => (name === property ? value : undefined));
+  }
+
+  const trimmed = declarations.trimEnd();
+  if (!trimmed) {
+    return `${property}:${value}`;
+  }
+  return `${trimmed}${trimmed.endsWith(";") ? "" : ";"}${property}:${value}`;
+}
+
+function splitStyleSheet(css: string): StyleSheetSegment[] {
+  const segments: StyleSheetSegment[] = [];
+  let cursor = 0;
+
+  for (const match of css.matchAll(STYLESHEET_TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      segments.push({ text: css.slice(cursor, index), kind: "text" });
+    }
+    const token = match[0];
+    segments.push({ text: token, kind: token === "{" ? "open" : token === "}" ? "close" : "comment" });
+    cursor = index + token.length;
+  }
+  if (cursor < css.length) {
+    segments.push({ text: css.slice(cursor), kind: "text" });
+  }
+
+  return segments;
+}
+
+export function forEachDeclaration(
+  declarations: string,
+  visitor: (property: string, value: string) => void,
+): void {
+  rewriteDeclarationList(declarations, (property, value) => {
+    visitor(property, value);
+    return undefined;
+  });
+}
+
+export function forEachStyleSheetDeclaration(
+  css: string,
+  visitor: (property: string, value: string) => void,
+): void {
+  rewriteStyleSheet(css, (property, value) => {
+    visitor(property, value);
+    return undefined;
+  });
+}
+
+function isDeclarationBlock(
+  segments: StyleSheetSegment[],
+  index: number,
+): boolean {
+  const previous = findStructuralToken(segments, index, -1);
+  const next = findStructuralToken(segments, index, 1);
+  return previous === "open" && next === "close";
+}
+
+function findStructuralToken(
+  segments: StyleSheetSegment[],
+  start: number,
+  step: 1 | -1,
+): "open" | "close" | undefined {
+  for (let index = start + step; index >= 0 && index < segments.length; index += step) {
+    const { kind } = segments[index];
+    if (kind === "open" || kind === "close") {
+      return kind;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,12 @@
+export type ThemeName = "light" | "dark";
+
+export const THEME_NAMES: ThemeName[] = ["light", "dark"];
+export const DEFAULT_TOOLBAR_BACKGROUNDS: Record<ThemeName, string> = {
+  light: "#ffffff",
+  dark: "#2b2b2b",
+};
+export const THEMED_INACTIVE_STYLE = "adaptive";
+
+export function isThemeName(value: string): value is ThemeName {
+  return (THEME_NAMES as string[]).includes(value);
+}
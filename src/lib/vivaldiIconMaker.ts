@@ -1,16 +1,90 @@
-import { createInactiveBackgroundColor, createInactiveColor, clampRatio } from "./colorTransforms.js";
-import { recolorVivaldiSvg } from "./svgColorizer.js";
+import {
+  adjustColorForContrast,
+  clampRatio,
+  DEFAULT_INACTIVE_COLOR_MODEL,
+  getContrastRatio,
+  InactiveColorModel,
+  mixColors,
+  WCAG_NON_TEXT_CONTRAST_RATIO,
+} from "./colorTransforms.js";
+import { ColorMap, ColorMapEntry, hasColorMapEntries, parseColorMap, transformColorMap } from "./colorMap.js";
+import { formatCssColor, isCurrentColor, isNoneColor, parseCssColor } from "./cssColor.js";
+import {
+  applyCssVariables,
+  ColorBinding,
+  createCombinedStateSvg,
+  DEFAULT_OUTPUT_MODE,
+  DEFAULT_STATE_TRIGGER,
+  describeCssVariables,
+  OutputMode,
+  StateTrigger,
+  toVariableRole,
+} from "./cssVariables.js";
+import { SecondaryMarker } from "./duotone.js";
+import {
+  addOrUpdateBackgroundPlate,
+  BACKGROUND_SHAPES,
+  BackgroundStyle,
+  formatNumber,
+  isBackgroundShape,
+} from "./backgroundShapes.js";
+import { createStateAppearance, IconStateDefinition, resolveIconStates } from "./iconStates.js";
+import {
+  DEFAULT_INACTIVE_STYLE,
+  InactiveAppearance,
+  InactiveStyleOptions,
+  resolveInactiveAppearance,
+} from "./inactiveStrategies.js";
+import { DEFAULT_TOOLBAR_BACKGROUNDS, THEME_NAMES, ThemeName, THEMED_INACTIVE_STYLE } from "./themes.js";
+import { DEFAULT_GRADIENT_MODE, GradientMode, readStopColor } from "./gradientRecolor.js";
+import {
+  ColorReplacement,
+  DEFAULT_REPLACE_TOLERANCE,
+  normalizeColorReplacements,
+  transformColorReplacements,
+} from "./paletteSwap.js";
+import { recolorVivaldiSvg, validateColorInput } from "./svgColorizer.js";
+import {
+  collectElements,
+  getAttribute,
+  localName,
+  parseSvgDocument,
+  requireRootSvg,
+  serializeSvgDocument,
+  setAttribute,
+} from "./svgDocument.js";
+import { OptimizeOptions, OptimizeReport, optimizeSvg } from "./svgOptimizer.js";
+import { sanitizeSvg } from "./svgSanitizer.js";
 
 export interface GenerateVariantsOptions {
   svgContent: string;
   fill?: string;
   stroke?: string;
+  secondaryColor?: string;
+  secondaryMarker?: SecondaryMarker;
+  colorMap?: ColorMap;
+  replaceColors?: ColorReplacement[];
+  replaceTolerance?: number;
   preserveFillNone?: boolean;
   preserveStrokeNone?: boolean;
   generateInactive?: boolean;
   inactiveMix?: number;
+  inactiveColorModel?: InactiveColorModel;
+  inactiveStyle?: string;
+  inactiveStyleOptions?: InactiveStyleOptions;
   inactiveCornerRadius?: number;
   inactiveBackgroundInsetRatio?: number;
+  backgroundStyle?: BackgroundStyle;
+  activeBackground?: string;
+  minContrastRatio?: number;
+  contrastBackground?: string;
+  gradientMode?: GradientMode;
+  gradientEndColor?: string;
+  outputMode?: OutputMode;
+  stateTrigger?: StateTrigger;
+  states?: (string | IconStateDefinition)[];
+  optimize?: boolean | OptimizeOptions;
+  sanitize?: boolean;
 }
 
 export interface IconVariant {
@@ -18,81 +92,178 @@ export interface IconVariant {
   svg: string;
   fill?: string;
   stroke?: string;
+  secondaryColor?: string;
+  colorMap?: ColorMap;
+  replaceColors?: ColorReplacement[];
   backgroundColor?: string;
+  contrastRatio?: number;
+  contrastBackground?: string;
+  meetsContrast?: boolean;
+  cssVariables?: Record<string, string>;
+  theme?: ThemeName;
+  optimization?: OptimizeReport;
+}
+
+export interface GenerateThemedVariantsOptions extends GenerateVariantsOptions {
+  themes?: ThemeName[];
+  toolbarBackgrounds?: Partial<Record<ThemeName, string>>;
 }
 
 export const DEFAULT_INACTIVE_MIX = 0.5;
 export const DEFAULT_INACTIVE_CORNER_RADIUS = 6;
 export const DEFAULT_INACTIVE_INSET_RATIO = 0.1;
-const INACTIVE_BACKGROUND_MARKER = "data-vivaldi-inactive-bg=\"true\"";
+export const DEFAULT_CONTRAST_BACKGROUND = "#ffffff";
+
+const PRIMARY_ROLE_WEIGHT = 2 / 3;
 
 export function generateIconVariants(options: GenerateVariantsOptions): IconVariant[] {
   const {
-    svgContent,
-    fill,
-    stroke,
     preserveFillNone = true,
     preserveStrokeNone = true,
     generateInactive = true,
     inactiveMix = DEFAULT_INACTIVE_MIX,
+    inactiveColorModel = DEFAULT_INACTIVE_COLOR_MODEL,
     inactiveCornerRadius = DEFAULT_INACTIVE_CORNER_RADIUS,
     inactiveBackgroundInsetRatio = DEFAULT_INACTIVE_INSET_RATIO,
+    minContrastRatio,
+    gradientMode = DEFAULT_GRADIENT_MODE,
+    replaceTolerance = DEFAULT_REPLACE_TOLERANCE,
+    outputMode = DEFAULT_OUTPUT_MODE,
+    stateTrigger = DEFAULT_STATE_TRIGGER,
+    secondaryMarker,
+    inactiveStyle = DEFAULT_INACTIVE_STYLE,
+    inactiveStyleOptions = {},
+    states = [],
+    sanitize = true,
   } = options;
 
-  ensureValidSvg(svgContent);
+  ensureValidSvg(options.svgContent);
+  const svgContent = sanitize ? sanitizeSvg(options.svgContent).svg : options.svgContent;
+
+  const colorMap = hasColorMapEntries(options.colorMap) ? parseColorMap(options.colorMap) : undefined;
+  const replaceColors = options.replaceColors?.length ? normalizeColorReplacements(options.replaceColors) : undefined;
+  // A color map or palette swap takes the place of the flat recolor, so fill/stroke/secondaryColor would never
+  // reach the output; drop them so the reported colors and contrast describe what is actually drawn.
+  const flatColors = colorMap === undefined && replaceColors === undefined;
+  const fill = flatColors && options.fill ? validateColorInput(options.fill) : undefined;
+  const stroke = flatColors && options.stroke ? validateColorInput(options.stroke) : undefined;
+  const secondaryColor = flatColors && options.secondaryColor ? validateColorInput(options.secondaryColor) : undefined;
+  const contrastBackground = validateColorInput(options.contrastBackground ?? DEFAULT_CONTRAST_BACKGROUND);
+  const gradientEndColor = options.gradientEndColor ? validateColorInput(options.gradientEndColor) : undefined;
+  const activeBackground = options.activeBackground ? validateColorInput(options.activeBackground) : undefined;
+  const backgroundStyle = normalizeBackgroundStyle(options.backgroundStyle);
+  const safeReplaceTolerance = Number.isNaN(replaceTolerance) ? DEFAULT_REPLACE_TOLERANCE : Math.max(0, replaceTolerance);
+
+  if (gradientMode === "map" && !gradientEndColor) {
+    throw new Error("gradientMode \"map\" requires gradientEndColor.");
+  }
 
   const variants: IconVariant[] = [];
-  const primaryColor = pickPrimaryColor(fill, stroke);
+  const primaryColor =
+    pickPrimaryColor(fill, stroke, secondaryColor) ??
+    pickColorMapPrimary(colorMap) ??
+    pickReplacementPrimary(replaceColors);
   const normalizedInactiveMix = clampUnitRange(inactiveMix);
   const safeCornerRadius = Math.max(0, inactiveCornerRadius);
 
-  const activeSvg = recolorVivaldiSvg(svgContent, {
+  let activeSvg = recolorVivaldiSvg(svgContent, {
     fill,
     stroke,
+    secondaryColor,
+    secondaryMarker,
     preserveFillNone,
     preserveStrokeNone,
+    colorMap,
+    replaceColors,
+    replaceTolerance: safeReplaceTolerance,
+    gradientMode,
+    gradientEndColor,
   });
 
+  if (activeBackground) {
+    activeSvg = addOrUpdateBackgroundPlate(activeSvg, {
+      ...backgroundStyle,
+      color: activeBackground,
+      cornerRadius: safeCornerRadius,
+      insetRatio: inactiveBackgroundInsetRatio,
+    });
+  }
+
   variants.push({
     name: "active",
     svg: activeSvg,
     fill,
     stroke,
+    secondaryColor,
+    colorMap,
+    replaceColors,
+    backgroundColor: activeBackground,
+    ...measureContrast(fill ?? primaryColor, stroke, activeBackground ?? contrastBackground, minContrastRatio),
   });
 
+  const derivedSource: DerivedVariantSource = {
+    svgContent,
+    fill,
+    stroke,
+    secondaryColor,
+    secondaryMarker,
+    colorMap,
+    replaceColors,
+    replaceTolerance: safeReplaceTolerance,
+    preserveFillNone,
+    preserveStrokeNone,
+    gradientMode,
+    gradientEndColor,
+    contrastBackground,
+    cornerRadius: safeCornerRadius,
+    insetRatio: inactiveBackgroundInsetRatio,
+    backgroundStyle,
+  };
+
   if (generateInactive) {
-    const inactiveFill = transformInactiveColor(fill, normalizedInactiveMix);
-    const inactiveStroke = transformInactiveColor(stroke, normalizedInactiveMix);
-    const backgroundColor = primaryColor
-      ? createInactiveBackgroundColor(primaryColor, normalizedInactiveMix)
-      : undefined;
-
-    let inactiveSvg = recolorVivaldiSvg(svgContent, {
-      fill: inactiveFill,
-      stroke: inactiveStroke,
-      preserveFillNone,
-      preserveStrokeNone,
+    const appearance = resolveInactiveAppearance(inactiveStyle, {
+      mix: normalizedInactiveMix,
+      colorModel: inactiveColorModel,
+      primaryColor,
+      contrastBackground,
+      options: inactiveStyleOptions,
     });
+    // Inactive colors are dimmed on purpose, so without an explicit ratio they are still nudged to the
+    // WCAG non-text minimum; only a requested ratio turns an unreachable one into an error.
+    const enforcement = { ratio: minContrastRatio ?? WCAG_NON_TEXT_CONTRAST_RATIO, required: minContrastRatio !== undefined };
+    variants.push(createDerivedVariant("inactive", appearance, derivedSource, enforcement, minContrastRatio));
+  }
 
-    if (backgroundColor) {
-      inactiveSvg = addOrUpdateBackgroundRect(
-        inactiveSvg,
-        backgroundColor,
-        safeCornerRadius,
-        inactiveBackgroundInsetRatio,
-      );
-    }
-
-    variants.push({
-      name: "inactive",
-      svg: inactiveSvg,
-      fill: inactiveFill,
-      stroke: inactiveStroke,
-      backgroundColor,
+  for (const state of resolveIconStates(states)) {
+    const appearance = createStateAppearance(state, {
+      mix: normalizedInactiveMix,
+      colorModel: inactiveColorModel,
+      primaryColor,
+      contrastBackground,
     });
+    variants.push(createDerivedVariant(state.name, appearance, derivedSource, undefined, minContrastRatio));
   }
 
-  return variants;
+  const outputVariants =
+    outputMode === "css-variables" ? withCssVariables(variants, gradientMode !== "flatten", stateTrigger) : variants;
+
+  return options.optimize ? optimizeVariants(outputVariants, options.optimize) : outputVariants;
+}
+
+export function generateThemedIconVariants(options: GenerateThemedVariantsOptions): IconVariant[] {
+  const { themes = THEME_NAMES, toolbarBackgrounds = {}, ...variantOptions } = options;
+
+  if (new Set(themes).size !== themes.length) {
+    throw new Error(`Duplicate theme in: ${themes.join(", ")}`);
+  }
+
+  return themes.flatMap((theme) =>
+    generateIconVariants({
+      ...variantOptions,
+      inactiveStyle: variantOptions.inactiveStyle ?? THEMED_INACTIVE_STYLE,
+      contrastBackground: toolbarBackgrounds[theme] ?? DEFAULT_TOOLBAR_BACKGROUNDS[theme],
+    }).map((variant) => ({ ...variant, name: `${theme}-${variant.name}`, theme })),
+  );
 }
 
 export function addOrUpdateBackgroundRect(
@@ -100,129 +271,315 @@ export function addOrUpdateBackgroundRect(
   color: string,
   cornerRadius: number,
   insetRatio: number,
+  outlineWidth?: number,
 ): string {
-  const clampedInset = clampRatio(insetRatio);
-  const viewBox = extractViewBox(svgContent);
-  const rectElement = viewBox
-    ? buildInsetRectFromViewBox(viewBox, color, cornerRadius, clampedInset)
-    : buildInsetRectWithPercent(color, cornerRadius, clampedInset);
-  const rectPattern = new RegExp(`<rect[^>]*${INACTIVE_BACKGROUND_MARKER}[^>]*/>`, "i");
+  return addOrUpdateBackgroundPlate(svgContent, { color, cornerRadius, insetRatio, outlineWidth });
+}
 
-  if (rectPattern.test(svgContent)) {
-    return svgContent.replace(rectPattern, rectElement);
+// Runs last so the optimizer sees the final markup, including the css-variables combined SVG.
+function optimizeVariants(variants: IconVariant[], optimize: true | OptimizeOptions): IconVariant[] {
+  const optimizeOptions = optimize === true ? {} : optimize;
+  return variants.map((variant) => {
+    const { svg, report } = optimizeSvg(variant.svg, optimizeOptions);
+    return { ...variant, svg, optimization: report };
+  });
+}
+
+interface ContrastEnforcement {
+  ratio: number;
+  required: boolean;
+}
+
+interface DerivedVariantSource {
+  svgContent: string;
+  fill?: string;
+  stroke?: string;
+  secondaryColor?: string;
+  secondaryMarker?: SecondaryMarker;
+  colorMap?: ColorMap;
+  replaceColors?: ColorReplacement[];
+  replaceTolerance: number;
+  preserveFillNone: boolean;
+  preserveStrokeNone: boolean;
+  gradientMode: GradientMode;
+  gradientEndColor?: string;
+  contrastBackground: string;
+  cornerRadius: number;
+  insetRatio: number;
+  backgroundStyle: BackgroundStyle;
+}
+
+function createDerivedVariant(
+  name: string,
+  appearance: InactiveAppearance,
+  source: DerivedVariantSource,
+  enforcement: ContrastEnforcement | undefined,
+  minContrastRatio: number | undefined,
+): IconVariant {
+  const { fill, stroke, secondaryColor, colorMap, replaceColors } = source;
+  const backgroundColor = appearance.background?.color;
+  const contrastBackground =
+    backgroundColor && appearance.background?.outlineWidth === undefined ? backgroundColor : source.contrastBackground;
+  const derive = (color: string | undefined, transform = appearance.transformColor): string | undefined =>
+    enforceContrast(
+      color && !isNoneColor(color) ? transform(color) : color,
+      contrastBackground,
+      enforcement,
+    );
+
+  const derivedFill = derive(fill);
+  const derivedStroke = derive(stroke);
+  const derivedSecondaryColor = derive(secondaryColor, appearance.transformSecondaryColor);
+  const derivedColorMap = colorMap ? transformColorMap(colorMap, (color) => derive(color)) : undefined;
+  const derivedReplaceColors = replaceColors
+    ? transformColorReplacements(replaceColors, (color) => derive(color) ?? color)
+    : undefined;
+
+  let svg = recolorVivaldiSvg(source.svgContent, {
+    fill: derivedFill,
+    stroke: derivedStroke,
+    secondaryColor: derivedSecondaryColor,
+    secondaryMarker: source.secondaryMarker,
+    preserveFillNone: source.preserveFillNone,
+    preserveStrokeNone: source.preserveStrokeNone,
+    colorMap: derivedColorMap,
+    replaceColors: derivedReplaceColors,
+    replaceTolerance: source.replaceTolerance,
+    gradientMode: source.gradientMode,
+    gradientEndColor: source.gradientEndColor,
+    gradientTargets: { fill, stroke },
+    transformStopColor: appearance.transformColor,
+  });
+
+  if (appearance.background) {
+    svg = addOrUpdateBackgroundPlate(svg, {
+      ...source.backgroundStyle,
+      shape: appearance.background.shape ?? source.backgroundStyle.shape,
+      color: appearance.background.color,
+      cornerRadius: appearance.background.cornerRadius ?? source.cornerRadius,
+      insetRatio: appearance.background.insetRatio ?? source.insetRatio,
+      outlineWidth: appearance.background.outlineWidth,
+    });
   }
 
-  const svgOpenTagMatch = svgContent.match(/<svg[^>]*>/i);
-  if (!svgOpenTagMatch) {
-    throw new Error("Input file is not a valid SVG document.");
+  if (appearance.opacity !== undefined) {
+    svg = setRootOpacity(svg, appearance.opacity);
   }
 
-  const [svgOpenTag] = svgOpenTagMatch;
-  const replacement = `${svgOpenTag}\n  ${rectElement}`;
-  return svgContent.replace(svgOpenTag, replacement);
+  return {
+    name,
+    svg,
+    fill: derivedFill,
+    stroke: derivedStroke,
+    secondaryColor: derivedSecondaryColor,
+    colorMap: derivedColorMap,
+    replaceColors: derivedReplaceColors,
+    backgroundColor,
+    ...measureContrast(
+      derivedFill ?? pickColorMapPrimary(derivedColorMap) ?? pickReplacementPrimary(derivedReplaceColors),
+      derivedStroke,
+      contrastBackground,
+      minContrastRatio,
+      appearance.opacity,
+    ),
+  };
 }
 
-function ensureValidSvg(content: string): void {
-  if (!content || !content.includes("<svg")) {
-    throw new Error("有効な SVG コンテンツを指定してください。");
+function withCssVariables(variants: IconVariant[], bindStops: boolean, trigger: StateTrigger): IconVariant[] {
+  const bound = variants.map((variant) => {
+    const bindings = buildColorBindings(variant, bindStops);
+    return {
+      variant: {
+        ...variant,
+        svg: applyCssVariables(variant.svg, bindings, variant.name),
+        cssVariables: describeCssVariables(bindings, variant.name),
+      },
+      bindings,
+      source: variant,
+    };
+  });
+
+  const active = bound.find(({ variant }) => variant.name === "active");
+  const inactive = bound.find(({ variant }) => variant.name === "inactive");
+  const result = bound.map(({ variant }) => variant);
+
+  if (active && inactive) {
+    const activeOpacity = readRootOpacity(active.source.svg);
+    const inactiveOpacity = readRootOpacity(inactive.source.svg);
+    const opacityDiffers = activeOpacity !== inactiveOpacity;
+    result.push({
+      name: "combined",
+      svg: createCombinedStateSvg(
+        inactive.source.svg,
+        { bindings: active.bindings, opacity: opacityDiffers ? activeOpacity ?? "1" : undefined },
+        { bindings: inactive.bindings, opacity: opacityDiffers ? inactiveOpacity ?? "1" : undefined },
+        trigger,
+      ),
+      cssVariables: { ...active.variant.cssVariables, ...inactive.variant.cssVariables },
+    });
   }
+
+  return result;
 }
 
-function transformInactiveColor(color: string | undefined, mix: number): string | undefined {
-  if (!color || color.trim().toLowerCase() === "none") {
-    return color;
+function buildColorBindings(variant: IconVariant, bindStops: boolean): ColorBinding[] {
+  const bindings: ColorBinding[] = [];
+  const usedRoles = new Set<string>();
+  const bind = (role: string, color: string | undefined, background = false): void => {
+    if (!normalizeColor(color)) {
+      return;
+    }
+    let uniqueRole = role;
+    for (let suffix = 2; usedRoles.has(uniqueRole); suffix += 1) {
+      uniqueRole = `${role}-${suffix}`;
+    }
+    usedRoles.add(uniqueRole);
+    bindings.push({ role: uniqueRole, color: color as string, background });
+  };
+
+  bind("fill", variant.fill);
+  bind("stroke", variant.stroke);
+  bind("secondary", variant.secondaryColor);
+  Object.entries(variant.colorMap ?? {}).forEach(([selector, entry]) => {
+    bind(`${toVariableRole(selector)}-fill`, entry.fill);
+    bind(`${toVariableRole(selector)}-stroke`, entry.stroke);
+  });
+  variant.replaceColors?.forEach(({ to }, index) => bind(`color-${index + 1}`, to));
+
+  if (bindStops) {
+    const stops = collectElements(parseSvgDocument(variant.svg).children, (element) => localName(element.name) === "stop");
+    stops.forEach((stop, index) => bind(`stop-${index + 1}`, readStopColor(stop)));
   }
-  return createInactiveColor(color, mix);
+
+  bind("bg", variant.backgroundColor, true);
+  return bindings;
 }
 
-function clampUnitRange(value: number): number {
-  if (Number.isNaN(value)) {
-    return DEFAULT_INACTIVE_MIX;
-  }
-  return Math.min(Math.max(value, 0), 1);
+function readRootOpacity(svgContent: string): string | undefined {
+  return getAttribute(requireRootSvg(parseSvgDocument(svgContent)), "opacity");
+}
+
+function setRootOpacity(svgContent: string, opacity: number): string {
+  const document = parseSvgDocument(svgContent);
+  const root = requireRootSvg(document);
+  const existing = Number(getAttribute(root, "opacity") ?? "1");
+  const combined = (Number.isFinite(existing) ? existing : 1) * clampRatio(opacity);
+  setAttribute(root, "opacity", formatNumber(combined));
+  return serializeSvgDocument(document);
 }
 
-function pickPrimaryColor(fill?: string, stroke?: string): string | undefined {
-  const normalizedFill = normalizeColor(fill);
-  if (normalizedFill) {
-    return normalizedFill;
+function normalizeBackgroundStyle(style: BackgroundStyle | undefined): BackgroundStyle {
+  if (!style) {
+    return {};
   }
 
-  const normalizedStroke = normalizeColor(stroke);
-  if (normalizedStroke) {
-    return normalizedStroke;
+  if (style.shape && !isBackgroundShape(style.shape)) {
+    throw new Error(`Unknown background shape: ${style.shape}. Use ${BACKGROUND_SHAPES.join(", ")}.`);
+  }
+  if (style.border && !(style.border.width >= 0)) {
+    throw new Error("Background border width must be zero or greater.");
   }
 
-  return undefined;
+  return {
+    ...style,
+    border: style.border ? { ...style.border, color: validateColorInput(style.border.color) } : undefined,
+    gradientEndColor: style.gradientEndColor ? validateColorInput(style.gradientEndColor) : undefined,
+    shadow: style.shadow ? { ...style.shadow, color: validateColorInput(style.shadow.color) } : undefined,
+  };
 }
 
-function normalizeColor(color: string | undefined): string | undefined {
-  if (!color) {
-    return undefined;
+function ensureValidSvg(content: string): void {
+  if (!content || !content.includes("<svg")) {
+    throw new Error("有効な SVG コンテンツを指定してください。");
   }
+}
 
-  if (color.trim().toLowerCase() === "none") {
-    return undefined;
+function enforceContrast(
+  color: string | undefined,
+  background: string,
+  enforcement: ContrastEnforcement | undefined,
+): string | undefined {
+  if (!enforcement || !normalizeColor(color)) {
+    return color;
   }
 
-  return color;
+  const adjusted = adjustColorForContrast(color as string, background, enforcement.ratio);
+  if (!adjusted && enforcement.required) {
+    throw new Error(
+      `Inactive color ${color} cannot reach a contrast ratio of ${enforcement.ratio}:1 against ${background}. Lower minContrastRatio or choose another color.`,
+    );
+  }
+  return adjusted ?? color;
 }
 
-interface ViewBoxValues {
-  minX: number;
-  minY: number;
-  width: number;
-  height: number;
+function measureContrast(
+  fill: string | undefined,
+  stroke: string | undefined,
+  background: string,
+  minRatio: number | undefined,
+  opacity?: number,
+): Pick<IconVariant, "contrastRatio" | "contrastBackground" | "meetsContrast"> {
+  const foreground = pickPrimaryColor(fill, stroke);
+  if (!foreground) {
+    return {};
+  }
+
+  const contrastRatio = getContrastRatio(
+    opacity === undefined ? foreground : withOpacity(foreground, opacity),
+    background,
+  );
+  return {
+    contrastRatio,
+    contrastBackground: background,
+    meetsContrast: contrastRatio >= (minRatio ?? WCAG_NON_TEXT_CONTRAST_RATIO),
+  };
 }
 
-function extractViewBox(svgContent: string): ViewBoxValues | undefined {
-  const match = svgContent.match(/viewBox="([^"]+)"/i);
-  if (!match) {
-    return undefined;
-  }
+function withOpacity(color: string, opacity: number): string {
+  const parsed = parseCssColor(color);
+  return formatCssColor({ ...parsed, a: parsed.a * clampRatio(opacity) }, true);
+}
 
-  const parts = match[1].trim().split(/\s+/);
-  if (parts.length !== 4) {
-    return undefined;
+function clampUnitRange(value: number): number {
+  if (Number.isNaN(value)) {
+    return DEFAULT_INACTIVE_MIX;
   }
+  return Math.min(Math.max(value, 0), 1);
+}
 
-  const [minXRaw, minYRaw, widthRaw, heightRaw] = parts.map(Number);
-  if ([minXRaw, minYRaw, widthRaw, heightRaw].some((value) => Number.isNaN(value))) {
-    return undefined;
+function pickPrimaryColor(fill?: string, stroke?: string, secondary?: string): string | undefined {
+  const primary = normalizeColor(fill) ?? normalizeColor(stroke);
+  const normalizedSecondary = normalizeColor(secondary);
+
+  if (primary && normalizedSecondary) {
+    return mixColors(primary, normalizedSecondary, PRIMARY_ROLE_WEIGHT);
   }
 
-  return { minX: minXRaw, minY: minYRaw, width: widthRaw, height: heightRaw };
+  return primary;
 }
 
-function buildInsetRectFromViewBox(
-  viewBox: ViewBoxValues,
-  color: string,
-  cornerRadius: number,
-  insetRatio: number,
-): string {
-  const clampedInset = clampRatio(insetRatio);
-  const newWidth = viewBox.width * (1 - clampedInset);
-  const newHeight = viewBox.height * (1 - clampedInset);
-  const offsetX = viewBox.minX + (viewBox.width - newWidth) / 2;
-  const offsetY = viewBox.minY + (viewBox.height - newHeight) / 2;
+function pickColorMapPrimary(colorMap: ColorMap | undefined): string | undefined {
+  if (!colorMap) {
+    return undefined;
+  }
 
-  return `<rect ${INACTIVE_BACKGROUND_MARKER} x="${formatNumber(offsetX)}" y="${formatNumber(offsetY)}" width="${formatNumber(newWidth)}" height="${formatNumber(newHeight)}" rx="${cornerRadius}" ry="${cornerRadius}" fill="${color}"/>`;
+  return Object.values(colorMap)
+    .map((entry: ColorMapEntry) => pickPrimaryColor(entry.fill, entry.stroke))
+    .find((color) => color !== undefined);
 }
 
-function buildInsetRectWithPercent(
-  color: string,
-  cornerRadius: number,
-  insetRatio: number,
-): string {
-  const insetPercent = ((insetRatio * 100) / 2).toFixed(2);
-  const sizePercent = (100 - insetRatio * 100).toFixed(2);
-
-  return `<rect ${INACTIVE_BACKGROUND_MARKER} x="${insetPercent}%" y="${insetPercent}%" width="${sizePercent}%" height="${sizePercent}%" rx="${cornerRadius}" ry="${cornerRadius}" fill="${color}"/>`;
+function pickReplacementPrimary(replacements: ColorReplacement[] | undefined): string | undefined {
+  return replacements?.map(({ to }) => normalizeColor(to)).find((color) => color !== undefined);
 }
 
-function formatNumber(value: number): string {
-  if (Number.isInteger(value)) {
-    return value.toString();
+function normalizeColor(color: string | undefined): string | undefined {
+  if (!color) {
+    return undefined;
+  }
+
+  if (isNoneColor(color) || isCurrentColor(color)) {
+    return undefined;
   }
-  return value.toFixed(4).replace(/0+$/g, "").replace(/\.$/, "");
+
+  return color;
 }
@@ -0,0 +1,159 @@
+import { createInactiveBackgroundColor, getContrastRatio } from "./colorTransforms.js";
+import { isCurrentColor, isNoneColor, normalizeCssColor } from "./cssColor.js";
+import type { IconVariant } from "./vivaldiIconMaker.js";
+import { createZipArchive } from "./zipArchive.js";
+
+export interface VivaldiThemeButton {
+  name: string;
+  variants: IconVariant[];
+}
+
+export interface VivaldiThemeOptions {
+  name: string;
+  accentColor: string;
+  inactiveMix?: number;
+  buttons: VivaldiThemeButton[];
+  id?: string;
+}
+
+export interface VivaldiThemeSettings {
+  accentFromPage: boolean;
+  accentOnWindow: boolean;
+  accentSaturationLimit: number;
+  alpha: number;
+  backgroundImage: string;
+  backgroundPosition: string;
+  blur: number;
+  buttons: Record<string, string>;
+  colorAccentBg: string;
+  colorBg: string;
+  colorFg: string;
+  colorHighlightBg: string;
+  colorWindowBg: string;
+  contrast: number;
+  dimBlurred: boolean;
+  engineVersion: number;
+  id: string;
+  name: string;
+  preferSystemAccent: boolean;
+  radius: number;
+  simpleScrollbar: boolean;
+  transparencyTabBar: boolean;
+  transparencyTabs: boolean;
+  url: string;
+  version: number;
+}
+
+export const VIVALDI_THEME_SETTINGS_FILE = "settings.json";
+export const DEFAULT_THEME_INACTIVE_MIX = 0.5;
+
+const BUTTON_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+const THEME_BUTTON_VARIANT = "active";
+
+export function isVivaldiButtonName(value: string): boolean {
+  return BUTTON_NAME_PATTERN.test(value);
+}
+
+export function getThemeIconPath(buttonName: string): string {
+  return `${buttonName}.svg`;
+}
+
+// The accent is the icon color itself and the toolbar background is the same neutral plate
+// the pastel inactive style draws, so the theme matches the generated icons.
+export function createVivaldiThemeSettings(options: VivaldiThemeOptions): VivaldiThemeSettings {
+  const accent = requireConcreteColor(options.accentColor);
+  const background = createInactiveBackgroundColor(accent, options.inactiveMix ?? DEFAULT_THEME_INACTIVE_MIX);
+  const foreground = getContrastRatio("#000000", background) >= getContrastRatio("#ffffff", background) ? "#000000" : "#ffffff";
+  const buttons = Object.fromEntries(
+    validateButtons(options.buttons).map((button) => [button.name, getThemeIconPath(button.name)]),
+  );
+
+  return {
+    accentFromPage: false,
+    accentOnWindow: true,
+    accentSaturationLimit: 1,
+    alpha: 1,
+    backgroundImage: "",
+    backgroundPosition: "stretch",
+    blur: 0,
+    buttons,
+    colorAccentBg: accent,
+    colorBg: background,
+    colorFg: foreground,
+    colorHighlightBg: accent,
+    colorWindowBg: background,
+    contrast: 0,
+    dimBlurred: false,
+    engineVersion: 1,
+    id: options.id ?? createThemeId(`${options.name}\n${accent}\n${Object.keys(buttons).join(",")}`),
+    name: options.name,
+    preferSystemAccent: false,
+    radius: 4,
+    simpleScrollbar: true,
+    transparencyTabBar: false,
+    transparencyTabs: false,
+    url: "",
+    version: 1,
+  };
+}
+
+export function createVivaldiThemeArchive(options: VivaldiThemeOptions): Uint8Array {
+  const settings = createVivaldiThemeSettings(options);
+  return createZipArchive([
+    { path: VIVALDI_THEME_SETTINGS_FILE, data: `${JSON.stringify(settings, null, 2)}\n` },
+    ...validateButtons(options.buttons).map((button) => ({
+      path: getThemeIconPath(button.name),
+      data: selectThemeIcon(button),
+    })),
+  ]);
+}
+
+function validateButtons(buttons: VivaldiThemeButton[]): VivaldiThemeButton[] {
+  if (buttons.length === 0) {
+    throw new Error("A Vivaldi theme needs at least one toolbar button icon.");
+  }
+
+  const seen = new Set<string>();
+  for (const button of buttons) {
+    if (!isVivaldiButtonName(button.name)) {
+      throw new Error(`Invalid toolbar button name: ${button.name}. Use letters and digits, e.g. Back or Reload.`);
+    }
+    if (seen.has(button.name.toLowerCase())) {
+      throw new Error(`Duplicate toolbar button: ${button.name}`);
+    }
+    seen.add(button.name.toLowerCase());
+  }
+  return buttons;
+}
+
+function selectThemeIcon(button: VivaldiThemeButton): string {
+  const variant =
+    button.variants.find((candidate) => candidate.name === THEME_BUTTON_VARIANT) ??
+    button.variants.find((candidate) => candidate.theme === "light" && candidate.name === `light-${THEME_BUTTON_VARIANT}`);
+  if (!variant) {
+    throw new Error(`Toolbar button ${button.name} has no ${THEME_BUTTON_VARIANT} variant.`);
+  }
+  return variant.svg;
+}
+
+function requireConcreteColor(color: string): string {
+  if (isNoneColor(color) || isCurrentColor(color)) {
+    throw new Error(`Theme accent color must be a concrete color: ${color}`);
+  }
+  return normalizeCssColor(color);
+}
+
+// Vivaldi identifies themes by UUID; deriving it from the theme contents keeps repeated exports of the
+// same theme byte-identical.
+function createThemeId(seed: string): string {
+  const words = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x85ebca6b].map((basis) => {
+    let hash = basis;
+    for (let index = 0; index < seed.length; index += 1) {
+      hash = Math.imul(hash ^ seed.charCodeAt(index), 0x01000193) >>> 0;
+    }
+    return hash;
+  });
+  const hex = words.map((word) => word.toString(16).padStart(8, "0")).join("");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
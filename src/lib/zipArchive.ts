@@ -0,0 +1,106 @@
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+// 1980-01-01 00:00, the earliest DOS timestamp, so the same entries always produce the same bytes.
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+let crcTable: Uint32Array | undefined;
+
+// Entries are stored without compression: the archives hold a handful of small SVG/JSON files,
+// and skipping deflate keeps the writer dependency-free for both Node and the browser.
+export function createZipArchive(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => {
+    const path = entry.path.replace(/\\/g, "/").replace(/^\/+/, "");
+    if (!path || path.split("/").includes("..")) {
+      throw new Error(`Invalid archive path: ${entry.path}`);
+    }
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    return { path, name: encoder.encode(path), data, crc: crc32(data) };
+  });
+
+  const paths = files.map((file) => file.path);
+  const duplicate = paths.find((path, index) => paths.indexOf(path) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate archive path: ${duplicate}`);
+  }
+
+  const localSize = files.reduce((total, file) => total + LOCAL_HEADER_SIZE + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((total, file) => total + CENTRAL_HEADER_SIZE + file.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, DOS_TIME, true);
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.name, offset + LOCAL_HEADER_SIZE);
+    output.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length);
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, DOS_TIME, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    view.setUint32(offset + 42, offsets[index], true);
+    output.set(file.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}
+
+function crc32(data: Uint8Array): number {
+  crcTable ??= buildCrcTable();
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+}
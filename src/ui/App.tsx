@@ -3,9 +3,41 @@ import {
   DEFAULT_INACTIVE_CORNER_RADIUS,
   DEFAULT_INACTIVE_MIX,
   generateIconVariants,
+  generateThemedIconVariants,
+  GenerateVariantsOptions,
   IconVariant,
 } from "../lib/vivaldiIconMaker.js";
 import { validateColorInput } from "../lib/svgColorizer.js";
+import { DEFAULT_INACTIVE_COLOR_MODEL, InactiveColorModel } from "../lib/colorTransforms.js";
+import { formatCssColor, tryParseCssColor } from "../lib/cssColor.js";
+import { DEFAULT_GRADIENT_MODE, GradientMode } from "../lib/gradientRecolor.js";
+import { ColorMap, collectLayerSelectors } from "../lib/colorMap.js";
+import {
+  DEFAULT_INACTIVE_OPACITY,
+  DEFAULT_INACTIVE_OUTLINE_WIDTH,
+  DEFAULT_INACTIVE_SOLID_COLOR,
+  DEFAULT_INACTIVE_STYLE,
+  InactiveStyleOptions,
+  listInactiveStrategies,
+} from "../lib/inactiveStrategies.js";
+import { DEFAULT_SECONDARY_MARKER, formatSecondaryMarker, parseSecondaryMarker } from "../lib/duotone.js";
+import { DEFAULT_OUTPUT_MODE, DEFAULT_STATE_TRIGGER, OutputMode, StateTrigger } from "../lib/cssVariables.js";
+import { BUILT_IN_ICON_STATES, BuiltInIconState } from "../lib/iconStates.js";
+import {
+  BACKGROUND_SHAPES,
+  BackgroundShape,
+  DEFAULT_BACKGROUND_BORDER_WIDTH,
+  DEFAULT_BACKGROUND_SHAPE,
+  DEFAULT_SHADOW_COLOR,
+} from "../lib/backgroundShapes.js";
+import { DEFAULT_TOOLBAR_BACKGROUNDS, ThemeName, THEMED_INACTIVE_STYLE } from "../lib/themes.js";
+import { collectSourceColors, ColorReplacement, DEFAULT_REPLACE_TOLERANCE } from "../lib/paletteSwap.js";
+import { DEFAULT_PNG_SIZES, initRasterizer, rasterizeIcon } from "../lib/rasterize.js";
+import { CONTAINER_FORMATS, ContainerFormat, exportIconContainer } from "../lib/iconContainers.js";
+import { createSprite } from "../lib/sprite.js";
+import { createVivaldiThemeArchive } from "../lib/vivaldiTheme.js";
+import { sanitizeSvg, summarizeSanitizeRemovals } from "../lib/svgSanitizer.js";
+import resvgWasmUrl from "@resvg/resvg-wasm/index_bg.wasm?url";
 import blackPreset from "../../vivaldi-black.svg?raw";
 import linePreset from "../../vivaldi-line.svg?raw";
 import "./App.css";
@@ -16,18 +48,102 @@ interface DownloadMap {
   [name: string]: string;
 }
 
+interface LayerColor {
+  key: number;
+  selector: string;
+  fill: string;
+  stroke: string;
+}
+
+interface ReplacementRow {
+  key: number;
+  from: string;
+  to: string;
+}
+
 const DEFAULT_FILL = "#ff0000";
 
+const INACTIVE_STYLE_LABELS: Record<string, string> = {
+  pastel: "パステル＋角丸背景（従来）",
+  adaptive: "ツールバー背景に合わせる",
+  grayscale: "グレースケール",
+  opacity: "不透明度を下げるだけ",
+  outline: "パステル＋枠線のみの背景",
+  solid: "固定色",
+};
+
+const BACKGROUND_SHAPE_LABELS: Record<BackgroundShape, string> = {
+  rect: "角丸四角形（従来）",
+  circle: "円",
+  squircle: "スクワークル",
+  pill: "ピル",
+  path: "カスタムパス",
+};
+
+const STATE_LABELS: Record<BuiltInIconState, string> = {
+  hover: "ホバー",
+  pressed: "押下",
+  "focus-ring": "フォーカスリング",
+  disabled: "無効",
+};
+
+const CONTAINER_LABELS: Record<ContainerFormat, string> = {
+  ico: "Windows アイコン (16〜256px)",
+  icns: "macOS アイコン (16〜1024px)",
+};
+
+const CONTAINER_MIME_TYPES: Record<ContainerFormat, string> = {
+  ico: "image/vnd.microsoft.icon",
+  icns: "image/icns",
+};
+
 function App(): JSX.Element {
   const [preset, setPreset] = useState<Preset>("black");
   const [customSvg, setCustomSvg] = useState<string | null>(null);
+  const [sanitizeNotes, setSanitizeNotes] = useState<string[]>([]);
   const [fill, setFill] = useState<string>(DEFAULT_FILL);
   const [stroke, setStroke] = useState<string>("");
+  const [secondaryColor, setSecondaryColor] = useState<string>("");
+  const [secondaryMarker, setSecondaryMarker] = useState<string>(formatSecondaryMarker(DEFAULT_SECONDARY_MARKER));
+  const [layers, setLayers] = useState<LayerColor[]>([]);
+  const [replacements, setReplacements] = useState<ReplacementRow[]>([]);
+  const [replaceTolerance, setReplaceTolerance] = useState<number>(DEFAULT_REPLACE_TOLERANCE);
+  const [gradientMode, setGradientMode] = useState<GradientMode>(DEFAULT_GRADIENT_MODE);
+  const [gradientEndColor, setGradientEndColor] = useState<string>("#90caf9");
   const [inactiveMix, setInactiveMix] = useState<number>(DEFAULT_INACTIVE_MIX);
+  const [inactiveColorModel, setInactiveColorModel] = useState<InactiveColorModel>(
+    DEFAULT_INACTIVE_COLOR_MODEL,
+  );
+  const [inactiveStyle, setInactiveStyle] = useState<string>(DEFAULT_INACTIVE_STYLE);
+  const [inactiveStyleOptions, setInactiveStyleOptions] = useState<InactiveStyleOptions>({
+    opacity: DEFAULT_INACTIVE_OPACITY,
+    outlineWidth: DEFAULT_INACTIVE_OUTLINE_WIDTH,
+    color: DEFAULT_INACTIVE_SOLID_COLOR,
+    background: "",
+  });
   const [inactiveCornerRadius, setInactiveCornerRadius] = useState<number>(
     DEFAULT_INACTIVE_CORNER_RADIUS,
   );
+  const [backgroundShape, setBackgroundShape] = useState<BackgroundShape>(DEFAULT_BACKGROUND_SHAPE);
+  const [backgroundPath, setBackgroundPath] = useState<string>("M0 0.5 L0.5 0 L1 0.5 L0.5 1 Z");
+  const [backgroundBorder, setBackgroundBorder] = useState<string>("");
+  const [backgroundGradient, setBackgroundGradient] = useState<string>("");
+  const [backgroundShadow, setBackgroundShadow] = useState<boolean>(false);
+  const [activeBackground, setActiveBackground] = useState<string>("");
+  const [pngSize, setPngSize] = useState<number>(64);
+  const [pngRetina, setPngRetina] = useState<boolean>(false);
+  const [spriteOutput, setSpriteOutput] = useState<boolean>(false);
+  const [optimize, setOptimize] = useState<boolean>(true);
+  const [themeName, setThemeName] = useState<string>("Vivaldi Icon Maker");
+  const [themeButtons, setThemeButtons] = useState<string>("Home");
+  const [rasterizerReady, setRasterizerReady] = useState<boolean>(false);
+  const [minContrastRatio, setMinContrastRatio] = useState<number>(0);
   const [generateInactive, setGenerateInactive] = useState<boolean>(true);
+  const [outputMode, setOutputMode] = useState<OutputMode>(DEFAULT_OUTPUT_MODE);
+  const [stateTrigger, setStateTrigger] = useState<StateTrigger>(DEFAULT_STATE_TRIGGER);
+  const [states, setStates] = useState<BuiltInIconState[]>([]);
+  const [themePair, setThemePair] = useState<boolean>(false);
+  const [toolbarBackgrounds, setToolbarBackgrounds] = useState<Record<ThemeName, string>>(DEFAULT_TOOLBAR_BACKGROUNDS);
   const [variants, setVariants] = useState<IconVariant[]>([]);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,6 +157,20 @@ function App(): JSX.Element {
     return customSvg;
   }, [preset, customSvg]);
 
+  const layerSuggestions = useMemo(() => {
+    if (!svgContent) {
+      return [];
+    }
+    try {
+      return collectLayerSelectors(svgContent);
+    } catch {
+      return [];
+    }
+  }, [svgContent]);
+
+  const colorMap = useMemo(() => buildColorMap(layers), [layers]);
+  const replaceColors = useMemo(() => buildReplaceColors(replacements), [replacements]);
+
   useEffect(() => {
     if (!svgContent) {
       setVariants([]);
@@ -49,19 +179,57 @@ function App(): JSX.Element {
     }
 
     try {
-      const normalizedFill = validateColorInput(fill);
-      const normalizedStroke = stroke.trim()
+      const flatColors = !colorMap && !replaceColors;
+      const normalizedFill = flatColors ? validateColorInput(fill) : undefined;
+      const normalizedStroke = flatColors && stroke.trim()
         ? validateColorInput(stroke.trim())
         : undefined;
+      const normalizedSecondary = flatColors && secondaryColor.trim()
+        ? validateColorInput(secondaryColor.trim())
+        : undefined;
 
-      const created = generateIconVariants({
+      const variantOptions: GenerateVariantsOptions = {
         svgContent,
         fill: normalizedFill,
         stroke: normalizedStroke,
+        secondaryColor: normalizedSecondary,
+        secondaryMarker: normalizedSecondary ? parseSecondaryMarker(secondaryMarker) : undefined,
+        colorMap,
+        replaceColors,
+        replaceTolerance,
+        gradientMode,
+        gradientEndColor: gradientMode === "map" ? validateColorInput(gradientEndColor) : undefined,
         inactiveMix,
+        inactiveColorModel,
+        inactiveStyle,
+        inactiveStyleOptions,
         generateInactive,
         inactiveCornerRadius,
-      });
+        backgroundStyle: {
+          shape: backgroundShape,
+          path: backgroundShape === "path" ? backgroundPath : undefined,
+          border: backgroundBorder.trim()
+            ? { color: backgroundBorder.trim(), width: DEFAULT_BACKGROUND_BORDER_WIDTH }
+            : undefined,
+          gradientEndColor: backgroundGradient.trim() || undefined,
+          shadow: backgroundShadow ? { color: DEFAULT_SHADOW_COLOR } : undefined,
+        },
+        activeBackground: activeBackground.trim() || undefined,
+        minContrastRatio: minContrastRatio > 0 ? minContrastRatio : undefined,
+        outputMode,
+        stateTrigger,
+        states,
+        optimize,
+      };
+      const created = themePair
+        ? generateThemedIconVariants({
+            ...variantOptions,
+            toolbarBackgrounds: {
+              light: validateColorInput(toolbarBackgrounds.light),
+              dark: validateColorInput(toolbarBackgrounds.dark),
+            },
+          })
+        : generateIconVariants(variantOptions);
 
       setVariants(created);
       setError(null);
@@ -69,7 +237,40 @@ function App(): JSX.Element {
       setVariants([]);
       setError(e instanceof Error ? e.message : "未知のエラーが発生しました");
     }
-  }, [fill, stroke, inactiveMix, svgContent, preset, generateInactive, inactiveCornerRadius]);
+  }, [
+    fill,
+    stroke,
+    secondaryColor,
+    secondaryMarker,
+    colorMap,
+    replaceColors,
+    replaceTolerance,
+    gradientMode,
+    gradientEndColor,
+    inactiveMix,
+    inactiveColorModel,
+    inactiveStyle,
+    inactiveStyleOptions,
+    svgContent,
+    preset,
+    generateInactive,
+    inactiveCornerRadius,
+    backgroundShape,
+    backgroundPath,
+    backgroundBorder,
+    backgroundGradient,
+    backgroundShadow,
+    activeBackground,
+    minContrastRatio,
+    outputMode,
+    stateTrigger,
+    states,
+    themePair,
+    toolbarBackgrounds,
+    optimize,
+  ]);
+
+  const fillPickerValue = useMemo(() => toPickerValue(fill), [fill]);
 
   const downloadUrls = useMemo<DownloadMap>(() => {
     const map: DownloadMap = {};
@@ -86,19 +287,130 @@ function App(): JSX.Element {
     };
   }, [downloadUrls]);
 
+  useEffect(() => {
+    initRasterizer(fetch(resvgWasmUrl))
+      .then(() => setRasterizerReady(true))
+      .catch((e) => setError(e instanceof Error ? `PNG 変換を初期化できませんでした: ${e.message}` : "PNG 変換を初期化できませんでした"));
+  }, []);
+
+  const downloadPng = (variant: IconVariant) => {
+    try {
+      const [image] = rasterizeIcon(variant.svg, { sizes: [pngSize], scales: [pngRetina ? 2 : 1] });
+      saveFile(image.png, "image/png", `vivaldi-${variant.name}-${image.suffix}.png`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "PNG の生成に失敗しました");
+    }
+  };
+
+  const downloadSprite = (kind: "svg" | "html") => {
+    try {
+      const sprite = createSprite(variants, { idPrefix: `vivaldi-${preset}`, toolbarBackgrounds });
+      saveFile(
+        kind === "svg" ? sprite.svg : sprite.html,
+        kind === "svg" ? "image/svg+xml" : "text/html",
+        `vivaldi-${preset}-sprite.${kind}`,
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "スプライトの生成に失敗しました");
+    }
+  };
+
+  const downloadTheme = () => {
+    try {
+      const archive = createVivaldiThemeArchive({
+        name: themeName.trim() || "Vivaldi Icon Maker",
+        accentColor: validateColorInput(fill.trim() || stroke.trim()),
+        inactiveMix,
+        buttons: themeButtons
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean)
+          .map((name) => ({ name, variants })),
+      });
+      saveFile(archive, "application/zip", `${themeName.trim() || "vivaldi"}-theme.zip`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "テーマの生成に失敗しました");
+    }
+  };
+
+  const downloadContainer = (variant: IconVariant, format: ContainerFormat) => {
+    try {
+      saveFile(exportIconContainer(variant.svg, format), CONTAINER_MIME_TYPES[format], `vivaldi-${variant.name}.${format}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `${format.toUpperCase()} の生成に失敗しました`);
+    }
+  };
+
+  const toggleThemePair = (enabled: boolean) => {
+    setThemePair(enabled);
+    if (enabled && inactiveStyle === DEFAULT_INACTIVE_STYLE) {
+      setInactiveStyle(THEMED_INACTIVE_STYLE);
+    } else if (!enabled && inactiveStyle === THEMED_INACTIVE_STYLE) {
+      setInactiveStyle(DEFAULT_INACTIVE_STYLE);
+    }
+  };
+
+  const toggleState = (state: BuiltInIconState, enabled: boolean) => {
+    setStates((current) =>
+      BUILT_IN_ICON_STATES.filter((name) => (name === state ? enabled : current.includes(name))),
+    );
+  };
+
+  const updateLayer = (key: number, patch: Partial<LayerColor>) => {
+    setLayers((current) => current.map((layer) => (layer.key === key ? { ...layer, ...patch } : layer)));
+  };
+
+  const addLayer = () => {
+    setLayers((current) => [
+      ...current,
+      { key: Date.now(), selector: layerSuggestions[current.length] ?? "", fill, stroke: "" },
+    ]);
+  };
+
+  const removeLayer = (key: number) => {
+    setLayers((current) => current.filter((layer) => layer.key !== key));
+  };
+
+  const updateInactiveStyleOption = (key: string, value: string | number) => {
+    setInactiveStyleOptions((current) => ({ ...current, [key]: value }));
+  };
+
+  const updateReplacement = (key: number, patch: Partial<ReplacementRow>) => {
+    setReplacements((current) => current.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const loadSourceColors = () => {
+    if (!svgContent) {
+      return;
+    }
+    try {
+      const base = Date.now();
+      setReplacements(collectSourceColors(svgContent).map((color, index) => ({ key: base + index, from: color, to: color })));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "色の読み込みに失敗しました");
+    }
+  };
+
+  const removeReplacement = (key: number) => {
+    setReplacements((current) => current.filter((row) => row.key !== key));
+  };
+
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) {
       setCustomSvg(null);
+      setSanitizeNotes([]);
       return;
     }
 
     try {
-      const text = await file.text();
-      setCustomSvg(text);
+      // The preview injects SVG markup directly, so uploads are sanitized before anything else reads them.
+      const { svg, removed } = sanitizeSvg(await file.text());
+      setCustomSvg(svg);
+      setSanitizeNotes(summarizeSanitizeRemovals(removed));
       setPreset("custom");
     } catch (e) {
-      setError("SVG ファイルの読み込みに失敗しました");
+      setError(e instanceof Error ? e.message : "SVG ファイルの読み込みに失敗しました");
     }
   };
 
@@ -130,6 +442,11 @@ function App(): JSX.Element {
           {preset === "custom" && !svgContent && (
             <p className="helper">SVG ファイルを選択してください。</p>
           )}
+          {preset === "custom" && sanitizeNotes.length > 0 && (
+            <p className="helper sanitize-note">
+              安全のため次の内容を取り除きました: {sanitizeNotes.join(", ")}
+            </p>
+          )}
         </div>
 
         <div className="field-group color-field">
@@ -137,7 +454,7 @@ function App(): JSX.Element {
           <input
             id="fill"
             type="color"
-            value={fill}
+            value={fillPickerValue}
             onChange={(event) => setFill(event.target.value)}
           />
           <input
@@ -147,19 +464,157 @@ function App(): JSX.Element {
             className="hex-input"
           />
         </div>
+        <p className="helper">#hex / rgb() / hsl() / oklch() / 色名 / currentColor を入力できます。</p>
 
         <div className="field-group">
           <label htmlFor="stroke">ストローク</label>
           <input
             id="stroke"
             type="text"
-            placeholder="#000000 または none"
+            placeholder="#000000 / rgb(0 0 0) / currentColor / none"
             value={stroke}
             onChange={(event) => setStroke(event.target.value)}
           />
           <p className="helper">空欄でストローク無し。</p>
         </div>
 
+        <div className="field-group">
+          <label htmlFor="secondaryColor">セカンダリカラー（デュオトーン）</label>
+          <input
+            id="secondaryColor"
+            type="text"
+            placeholder="#90caf9"
+            value={secondaryColor}
+            onChange={(event) => setSecondaryColor(event.target.value)}
+          />
+          <input
+            id="secondaryMarker"
+            type="text"
+            list="secondary-marker-suggestions"
+            placeholder="opacity / class:fa-secondary / data-layer=secondary"
+            value={secondaryMarker}
+            onChange={(event) => setSecondaryMarker(event.target.value)}
+            disabled={!secondaryColor.trim()}
+          />
+          <datalist id="secondary-marker-suggestions">
+            <option value="opacity" />
+            <option value="class:fa-secondary" />
+            <option value="data-layer=secondary" />
+          </datalist>
+          <p className="helper">目印（opacity &lt; 1・クラス・data- 属性）に一致したレイヤーだけをセカンダリカラーで塗ります。空欄で単色。</p>
+        </div>
+
+        <div className="field-group">
+          <label>レイヤー別カラー</label>
+          {layers.map((layer) => (
+            <div key={layer.key} className="layer-row">
+              <input
+                type="text"
+                list="layer-suggestions"
+                placeholder="#id / .class / セレクター"
+                value={layer.selector}
+                onChange={(event) => updateLayer(layer.key, { selector: event.target.value })}
+              />
+              <input
+                type="text"
+                placeholder="fill"
+                value={layer.fill}
+                onChange={(event) => updateLayer(layer.key, { fill: event.target.value })}
+              />
+              <input
+                type="text"
+                placeholder="stroke"
+                value={layer.stroke}
+                onChange={(event) => updateLayer(layer.key, { stroke: event.target.value })}
+              />
+              <button type="button" className="secondary-button" onClick={() => removeLayer(layer.key)}>
+                削除
+              </button>
+            </div>
+          ))}
+          <datalist id="layer-suggestions">
+            {layerSuggestions.map((selector) => (
+              <option key={selector} value={selector} />
+            ))}
+          </datalist>
+          <button type="button" className="secondary-button" onClick={addLayer}>
+            レイヤーを追加
+          </button>
+          <p className="helper">指定した場合はベースカラー／ストロークの代わりに、一致した要素だけを着色します。それ以外の要素は元の色のまま残します。</p>
+        </div>
+
+        <div className="field-group">
+          <label>パレット置換</label>
+          {replacements.map((row) => (
+            <div key={row.key} className="layer-row replacement-row">
+              <span className="swatch" style={{ background: row.from }} />
+              <input
+                type="text"
+                placeholder="元の色"
+                value={row.from}
+                onChange={(event) => updateReplacement(row.key, { from: event.target.value })}
+              />
+              <input
+                type="color"
+                value={toPickerValue(row.to)}
+                onChange={(event) => updateReplacement(row.key, { to: event.target.value })}
+              />
+              <input
+                type="text"
+                placeholder="置換後の色"
+                value={row.to}
+                onChange={(event) => updateReplacement(row.key, { to: event.target.value })}
+              />
+              <button type="button" className="secondary-button" onClick={() => removeReplacement(row.key)}>
+                削除
+              </button>
+            </div>
+          ))}
+          <button type="button" className="secondary-button" onClick={loadSourceColors}>
+            SVG の色を読み込む
+          </button>
+          {replacements.length > 0 && (
+            <>
+              <label htmlFor="replaceTolerance">許容差: {replaceTolerance.toFixed(0)}</label>
+              <input
+                id="replaceTolerance"
+                type="range"
+                min="0"
+                max="20"
+                step="1"
+                value={replaceTolerance}
+                onChange={(event) => setReplaceTolerance(Number(event.target.value))}
+              />
+            </>
+          )}
+          <p className="helper">
+            置換を指定するとベースカラー／ストロークの代わりに、元の色ごとに新しい色へ差し替えます。許容差を上げると近い色もまとめて置換します。
+          </p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="gradientMode">グラデーション</label>
+          <select
+            id="gradientMode"
+            value={gradientMode}
+            onChange={(event) => setGradientMode(event.target.value as GradientMode)}
+          >
+            <option value="flatten">単色で塗りつぶす（従来）</option>
+            <option value="tint">各ストップをベースカラーの色相に寄せる</option>
+            <option value="map">最初／最後のストップを 2 色に割り当てる</option>
+          </select>
+          {gradientMode === "map" && (
+            <input
+              id="gradientEndColor"
+              type="text"
+              placeholder="最後のストップの色"
+              value={gradientEndColor}
+              onChange={(event) => setGradientEndColor(event.target.value)}
+            />
+          )}
+          <p className="helper">`fill="url(#…)"` のグラデーション参照を残したまま stop-color を再着色します。</p>
+        </div>
+
         <div className="field-group toggle-field">
           <label htmlFor="generateInactive" className="toggle-label">
             <input
@@ -172,6 +627,68 @@ function App(): JSX.Element {
           </label>
         </div>
 
+        <div className="field-group">
+          <label htmlFor="inactiveStyle">非活性スタイル</label>
+          <select
+            id="inactiveStyle"
+            value={inactiveStyle}
+            onChange={(event) => setInactiveStyle(event.target.value)}
+            disabled={!generateInactive}
+          >
+            {listInactiveStrategies().map((name) => (
+              <option key={name} value={name}>
+                {INACTIVE_STYLE_LABELS[name] ?? name}
+              </option>
+            ))}
+          </select>
+          {inactiveStyle === "opacity" && (
+            <>
+              <label htmlFor="inactiveOpacity">不透明度: {Number(inactiveStyleOptions.opacity).toFixed(2)}</label>
+              <input
+                id="inactiveOpacity"
+                type="range"
+                min="0.1"
+                max="1"
+                step="0.05"
+                value={Number(inactiveStyleOptions.opacity)}
+                onChange={(event) => updateInactiveStyleOption("opacity", Number(event.target.value))}
+              />
+            </>
+          )}
+          {inactiveStyle === "outline" && (
+            <>
+              <label htmlFor="inactiveOutlineWidth">枠線の太さ: {Number(inactiveStyleOptions.outlineWidth)}</label>
+              <input
+                id="inactiveOutlineWidth"
+                type="range"
+                min="0"
+                max="4"
+                step="0.5"
+                value={Number(inactiveStyleOptions.outlineWidth)}
+                onChange={(event) => updateInactiveStyleOption("outlineWidth", Number(event.target.value))}
+              />
+            </>
+          )}
+          {inactiveStyle === "solid" && (
+            <>
+              <input
+                id="inactiveSolidColor"
+                type="text"
+                placeholder="非活性の色"
+                value={String(inactiveStyleOptions.color ?? "")}
+                onChange={(event) => updateInactiveStyleOption("color", event.target.value)}
+              />
+              <input
+                id="inactiveSolidBackground"
+                type="text"
+                placeholder="背景色（空欄で背景なし）"
+                value={String(inactiveStyleOptions.background ?? "")}
+                onChange={(event) => updateInactiveStyleOption("background", event.target.value)}
+              />
+            </>
+          )}
+        </div>
+
         <div className="field-group">
           <label htmlFor="inactiveMix">非活性強度: {inactiveMix.toFixed(2)}</label>
           <input
@@ -186,6 +703,19 @@ function App(): JSX.Element {
           />
         </div>
 
+        <div className="field-group">
+          <label htmlFor="inactiveColorModel">非活性の色空間</label>
+          <select
+            id="inactiveColorModel"
+            value={inactiveColorModel}
+            onChange={(event) => setInactiveColorModel(event.target.value as InactiveColorModel)}
+            disabled={!generateInactive}
+          >
+            <option value="hsl">HSL（従来）</option>
+            <option value="oklch">OKLCH（知覚的に均一な明度）</option>
+          </select>
+        </div>
+
         <div className="field-group">
           <label htmlFor="inactiveCornerRadius">
             背景角丸: {inactiveCornerRadius.toFixed(0)}px
@@ -198,8 +728,232 @@ function App(): JSX.Element {
             step="1"
             value={inactiveCornerRadius}
             onChange={(event) => setInactiveCornerRadius(Number(event.target.value))}
+            disabled={!generateInactive || backgroundShape !== "rect"}
+          />
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="backgroundShape">背景の形</label>
+          <select
+            id="backgroundShape"
+            value={backgroundShape}
+            onChange={(event) => setBackgroundShape(event.target.value as BackgroundShape)}
+          >
+            {BACKGROUND_SHAPES.map((shape) => (
+              <option key={shape} value={shape}>
+                {BACKGROUND_SHAPE_LABELS[shape]}
+              </option>
+            ))}
+          </select>
+          {backgroundShape === "path" && (
+            <input
+              type="text"
+              aria-label="背景のパス"
+              placeholder="0〜1 の正方形内のパス"
+              value={backgroundPath}
+              onChange={(event) => setBackgroundPath(event.target.value)}
+            />
+          )}
+          <input
+            type="text"
+            aria-label="背景の枠線の色"
+            placeholder="枠線の色（空欄でなし）"
+            value={backgroundBorder}
+            onChange={(event) => setBackgroundBorder(event.target.value)}
+          />
+          <input
+            type="text"
+            aria-label="背景グラデーションの終端色"
+            placeholder="グラデーションの終端色（空欄で単色）"
+            value={backgroundGradient}
+            onChange={(event) => setBackgroundGradient(event.target.value)}
+          />
+          <input
+            type="text"
+            aria-label="アクティブ版の背景色"
+            placeholder="アクティブ版の背景色（空欄でなし）"
+            value={activeBackground}
+            onChange={(event) => setActiveBackground(event.target.value)}
+          />
+          <label htmlFor="backgroundShadow" className="toggle-label">
+            <input
+              id="backgroundShadow"
+              type="checkbox"
+              checked={backgroundShadow}
+              onChange={(event) => setBackgroundShadow(event.target.checked)}
+            />
+            <span>背景に影を付ける</span>
+          </label>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="minContrastRatio">
+            最小コントラスト比: {minContrastRatio > 0 ? `${minContrastRatio.toFixed(1)}:1` : "既定（3:1）"}
+          </label>
+          <input
+            id="minContrastRatio"
+            type="range"
+            min="0"
+            max="7"
+            step="0.5"
+            value={minContrastRatio}
+            onChange={(event) => setMinContrastRatio(Number(event.target.value))}
             disabled={!generateInactive}
           />
+          <p className="helper">非テキスト UI の目安は 3:1。満たすまで非活性色の明度を調整します（既定でも 3:1 まで調整）。</p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="themePair" className="toggle-label">
+            <input
+              id="themePair"
+              type="checkbox"
+              checked={themePair}
+              onChange={(event) => toggleThemePair(event.target.checked)}
+            />
+            <span>ライト／ダークのペアを生成</span>
+          </label>
+          {themePair && (
+            <div className="state-list">
+              <input
+                type="text"
+                aria-label="ライトテーマのツールバー背景"
+                placeholder="ライトのツールバー背景"
+                value={toolbarBackgrounds.light}
+                onChange={(event) => setToolbarBackgrounds((current) => ({ ...current, light: event.target.value }))}
+              />
+              <input
+                type="text"
+                aria-label="ダークテーマのツールバー背景"
+                placeholder="ダークのツールバー背景"
+                value={toolbarBackgrounds.dark}
+                onChange={(event) => setToolbarBackgrounds((current) => ({ ...current, dark: event.target.value }))}
+              />
+            </div>
+          )}
+          <p className="helper">各ツールバー背景に合わせて非活性色と背景プレートを導出します（非活性スタイル「ツールバー背景に合わせる」）。</p>
+        </div>
+
+        <div className="field-group">
+          <label>追加の状態</label>
+          <div className="state-list">
+            {BUILT_IN_ICON_STATES.map((state) => (
+              <label key={state} className="toggle-label">
+                <input
+                  type="checkbox"
+                  checked={states.includes(state)}
+                  onChange={(event) => toggleState(state, event.target.checked)}
+                />
+                <span>{STATE_LABELS[state]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="helper">選択した状態ごとに別の SVG を生成し、プレビューに並べて表示します。</p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="outputMode">出力形式</label>
+          <select
+            id="outputMode"
+            value={outputMode}
+            onChange={(event) => setOutputMode(event.target.value as OutputMode)}
+          >
+            <option value="static">色を直接書き込む（従来）</option>
+            <option value="css-variables">CSS カスタムプロパティ（var(--vim-…)）</option>
+          </select>
+          {outputMode === "css-variables" && (
+            <select
+              id="stateTrigger"
+              value={stateTrigger}
+              onChange={(event) => setStateTrigger(event.target.value as StateTrigger)}
+              disabled={!generateInactive}
+            >
+              <option value="class">combined: クラス vim-inactive で非活性に切り替え</option>
+              <option value="hover">combined: ホバー時にアクティブ表示</option>
+            </select>
+          )}
+          <p className="helper">テーマ側で変数を上書きすれば再生成せずに色を変えられます。非活性版も生成すると両状態を 1 つにまとめた combined SVG も出力します。</p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="pngSize">PNG サイズ</label>
+          <select id="pngSize" value={pngSize} onChange={(event) => setPngSize(Number(event.target.value))}>
+            {DEFAULT_PNG_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}px
+              </option>
+            ))}
+          </select>
+          <label htmlFor="pngRetina" className="toggle-label">
+            <input
+              id="pngRetina"
+              type="checkbox"
+              checked={pngRetina}
+              onChange={(event) => setPngRetina(event.target.checked)}
+            />
+            <span>@2x で書き出す</span>
+          </label>
+          <p className="helper">CLI と同じ WASM レンダラーで変換するため、同じ入力なら同じ PNG になります。</p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="optimize" className="toggle-label">
+            <input
+              id="optimize"
+              type="checkbox"
+              checked={optimize}
+              onChange={(event) => setOptimize(event.target.checked)}
+            />
+            <span>SVG を最適化する</span>
+          </label>
+          <p className="helper">
+            コメント・メタデータ・エディター固有の属性、使われていない id や defs を取り除き、数値を丸めて空白を詰めます。
+          </p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="spriteOutput" className="toggle-label">
+            <input
+              id="spriteOutput"
+              type="checkbox"
+              checked={spriteOutput}
+              onChange={(event) => setSpriteOutput(event.target.checked)}
+            />
+            <span>SVG をスプライトにまとめる</span>
+          </label>
+          <p className="helper">
+            全バリアントを 1 つの &lt;symbol&gt; スプライト（id は vivaldi-{preset}-inactive など）にまとめ、確認用の HTML も書き出します。
+          </p>
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="themeName">Vivaldi テーマ</label>
+          <input
+            id="themeName"
+            type="text"
+            value={themeName}
+            onChange={(event) => setThemeName(event.target.value)}
+            placeholder="テーマ名"
+          />
+          <input
+            id="themeButtons"
+            type="text"
+            value={themeButtons}
+            onChange={(event) => setThemeButtons(event.target.value)}
+            placeholder="Back, Reload, Home"
+            aria-label="ツールバーボタン名"
+          />
+          <button
+            type="button"
+            className="download-button"
+            onClick={downloadTheme}
+            disabled={variants.length === 0}
+          >
+            テーマをダウンロード
+          </button>
+          <p className="helper">
+            カンマ区切りのツールバーボタンすべてにアクティブ版のアイコンを割り当てた settings.json 入りの zip を作ります。アクセント色は塗り（なければ線）の色、背景色は非活性の背景プレートと同じ色です。
+          </p>
         </div>
 
         {error && <p className="error">{error}</p>}
@@ -207,6 +961,16 @@ function App(): JSX.Element {
 
       <section className="panel">
         <h2>プレビュー</h2>
+        {spriteOutput && variants.length > 0 && (
+          <div className="download-menu">
+            <button type="button" className="download-button" onClick={() => downloadSprite("svg")}>
+              スプライト SVG
+            </button>
+            <button type="button" className="download-button" onClick={() => downloadSprite("html")}>
+              プレビュー HTML
+            </button>
+          </div>
+        )}
         {variants.length === 0 ? (
           <p>表示するアイコンがありません。</p>
         ) : (
@@ -214,17 +978,65 @@ function App(): JSX.Element {
             {variants.map((variant) => (
               <div key={variant.name} className="preview-card">
                 <h3>{variant.name}</h3>
+                {variant.contrastRatio !== undefined && (
+                  <span
+                    className={`contrast-badge ${variant.meetsContrast ? "contrast-pass" : "contrast-fail"}`}
+                    title={`背景 ${variant.contrastBackground} に対するコントラスト比`}
+                  >
+                    {variant.meetsContrast ? "✓" : "⚠"} {variant.contrastRatio.toFixed(2)}:1
+                  </span>
+                )}
                 <div
                   className="preview-svg"
+                  style={variant.theme ? { background: toolbarBackgrounds[variant.theme] } : undefined}
                   dangerouslySetInnerHTML={{ __html: variant.svg }}
                 />
-                <a
-                  className="download-button"
-                  href={downloadUrls[variant.name]}
-                  download={`vivaldi-${variant.name}.svg`}
-                >
-                  ダウンロード
-                </a>
+                {variant.optimization && (
+                  <p className="size-note">
+                    {variant.optimization.originalBytes} → {variant.optimization.optimizedBytes} バイト（
+                    {variant.optimization.savedBytes} バイト削減）
+                  </p>
+                )}
+                {variant.cssVariables && (
+                  <ul className="variable-list">
+                    {Object.entries(variant.cssVariables).map(([name, value]) => (
+                      <li key={name}>
+                        <code>{name}</code>: {value}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!spriteOutput && (
+                  <a
+                    className="download-button"
+                    href={downloadUrls[variant.name]}
+                    download={`vivaldi-${variant.name}.svg`}
+                  >
+                    ダウンロード
+                  </a>
+                )}
+                <div className="download-menu">
+                  <button
+                    type="button"
+                    className="download-button"
+                    onClick={() => downloadPng(variant)}
+                    disabled={!rasterizerReady}
+                  >
+                    PNG
+                  </button>
+                  {CONTAINER_FORMATS.map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      className="download-button"
+                      onClick={() => downloadContainer(variant, format)}
+                      disabled={!rasterizerReady}
+                      title={CONTAINER_LABELS[format]}
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
               </div>
             ))}
           </div>
@@ -234,4 +1046,42 @@ function App(): JSX.Element {
   );
 }
 
+function saveFile(data: Uint8Array | string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([typeof data === "string" ? data : new Uint8Array(data)], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function buildColorMap(layers: LayerColor[]): ColorMap | undefined {
+  const map: ColorMap = {};
+  for (const layer of layers) {
+    const selector = layer.selector.trim();
+    const fill = layer.fill.trim();
+    const stroke = layer.stroke.trim();
+    if (!selector || (!fill && !stroke)) {
+      continue;
+    }
+    map[selector] = {
+      fill: fill || undefined,
+      stroke: stroke || undefined,
+    };
+  }
+  return Object.keys(map).length > 0 ? map : undefined;
+}
+
+function buildReplaceColors(rows: ReplacementRow[]): ColorReplacement[] | undefined {
+  const replaceColors = rows
+    .map((row) => ({ from: row.from.trim(), to: row.to.trim() }))
+    .filter((row) => row.from && row.to);
+  return replaceColors.length > 0 ? replaceColors : undefined;
+}
+
+function toPickerValue(color: string): string {
+  const parsed = tryParseCssColor(color);
+  return parsed ? formatCssColor(parsed, false) : "#000000";
+}
+
 export default App;
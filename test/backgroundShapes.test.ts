@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { addOrUpdateBackgroundPlate, BackgroundPlate, formatNumber } from "../src/lib/backgroundShapes.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h4v4H0z"/></svg>`;
+const NO_VIEWBOX = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24"><path d="M0 0h4v4H0z"/></svg>`;
+
+const plate = (overrides: Partial<BackgroundPlate> = {}): BackgroundPlate => ({
+  color: "#acacac",
+  cornerRadius: 6,
+  insetRatio: 0.5,
+  ...overrides,
+});
+
+describe("addOrUpdateBackgroundPlate", () => {
+  it("draws an inset rounded rect by default", () => {
+    expect(addOrUpdateBackgroundPlate(ICON, plate())).toContain(
+      `<rect data-vivaldi-inactive-bg="true" x="6" y="6" width="12" height="12" rx="6" ry="6" fill="#acacac"/>`,
+    );
+  });
+
+  it("draws circle, pill and squircle shapes inside the inset box", () => {
+    expect(addOrUpdateBackgroundPlate(ICON, plate({ shape: "circle" }))).toContain(
+      `<circle data-vivaldi-inactive-bg="true" cx="12" cy="12" r="6" fill="#acacac"/>`,
+    );
+    expect(addOrUpdateBackgroundPlate(ICON, plate({ shape: "pill" }))).toContain(`rx="6" ry="6"`);
+
+    const squircle = addOrUpdateBackgroundPlate(ICON, plate({ shape: "squircle" }));
+    expect(squircle).toMatch(/<path data-vivaldi-inactive-bg="true" d="M18 12 L[^"]+ Z" fill="#acacac"\/>/);
+  });
+
+  it("scales a unit-square path into the box and requires path data", () => {
+    expect(addOrUpdateBackgroundPlate(ICON, plate({ shape: "path", path: "M0 0.5 L0.5 0 L1 0.5 L0.5 1 Z" }))).toContain(
+      `transform="translate(6 6) scale(12 12)"`,
+    );
+    expect(() => addOrUpdateBackgroundPlate(ICON, plate({ shape: "path" }))).toThrow(
+      `Background shape "path" requires path data`,
+    );
+  });
+
+  it("falls back to percentages without a viewBox for rect and circle only", () => {
+    expect(addOrUpdateBackgroundPlate(NO_VIEWBOX, plate({ insetRatio: 0.1 }))).toContain(
+      `x="5.00%" y="5.00%" width="90.00%" height="90.00%"`,
+    );
+    expect(addOrUpdateBackgroundPlate(NO_VIEWBOX, plate({ shape: "circle", insetRatio: 0.1 }))).toContain(`r="45.00%"`);
+    expect(() => addOrUpdateBackgroundPlate(NO_VIEWBOX, plate({ shape: "squircle" }))).toThrow(
+      `Background shape "squircle" requires a viewBox on the root <svg>.`,
+    );
+  });
+
+  it("adds a border, or only a stroke for outline plates", () => {
+    expect(addOrUpdateBackgroundPlate(ICON, plate({ border: { color: "#333333", width: 2 } }))).toContain(
+      `fill="#acacac" stroke="#333333" stroke-width="2"`,
+    );
+    expect(addOrUpdateBackgroundPlate(ICON, plate({ outlineWidth: 1.5 }))).toContain(
+      `fill="none" stroke="#acacac" stroke-width="1.5"`,
+    );
+  });
+
+  it("wraps gradient and shadow plates in a marked group with their defs", () => {
+    const svg = addOrUpdateBackgroundPlate(ICON, plate({ gradientEndColor: "#ffffff", shadow: { color: "#00000040" } }));
+
+    expect(svg).toContain(`<g data-vivaldi-inactive-bg="true" filter="url(#vim-bg-shadow-00000040)"><defs>`);
+    expect(svg).toContain(`<linearGradient id="vim-bg-gradient-acacac-ffffff" x1="0" y1="0" x2="0" y2="1">`);
+    expect(svg).toContain(`fill="url(#vim-bg-gradient-acacac-ffffff)"`);
+    expect(svg.match(/data-vivaldi-inactive-bg/g)).toHaveLength(1);
+  });
+
+  it("replaces an existing plate instead of adding another", () => {
+    const once = addOrUpdateBackgroundPlate(ICON, plate({ shadow: { color: "#000000" } }));
+    const twice = addOrUpdateBackgroundPlate(once, plate({ color: "#dddddd", shape: "circle" }));
+
+    expect(twice.match(/data-vivaldi-inactive-bg/g)).toHaveLength(1);
+    expect(twice).toContain(`<circle data-vivaldi-inactive-bg="true"`);
+    expect(twice).not.toContain("vim-bg-shadow");
+  });
+});
+
+describe("formatNumber", () => {
+  it("keeps at most four decimals without trailing zeros", () => {
+    expect(formatNumber(12)).toBe("12");
+    expect(formatNumber(1.5)).toBe("1.5");
+    expect(formatNumber(1 / 3)).toBe("0.3333");
+  });
+});
@@ -0,0 +1,87 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { CLI_TIMEOUT, createWorkspace, listFiles, removeWorkspace, runCli } from "./cli.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`;
+
+let workspace: string | undefined;
+
+function setUp(files: Record<string, string>): string {
+  workspace = createWorkspace(files);
+  return workspace;
+}
+
+afterEach(() => {
+  if (workspace) {
+    removeWorkspace(workspace);
+    workspace = undefined;
+  }
+});
+
+describe("batch mode", { timeout: CLI_TIMEOUT }, () => {
+  it("mirrors directory inputs under the output directory with the color suffix and skips hidden folders", async () => {
+    const cwd = setUp({
+      "icons/back.svg": ICON,
+      "icons/nav/reload.svg": ICON,
+      "icons/.cache/stale.svg": ICON,
+      "icons/notes.txt": "",
+    });
+
+    const result = await runCli(["icons", "--fill", "#ef3939", "--output", "out", "--no-inactive"], cwd);
+
+    expect(result.code).toBe(0);
+    expect(listFiles(path.join(cwd, "out"))).toEqual([
+      "back-fill-ef3939-active.svg",
+      "nav/reload-fill-ef3939-active.svg",
+    ]);
+    expect(result.stdout).toContain("finished: 2 succeeded, 0 failed");
+  });
+
+  it("maps glob matches relative to the glob base and leaves earlier output alone", async () => {
+    const cwd = setUp({ "icons/a/back.svg": ICON, "icons/b/back.svg": ICON, "icons/forward.svg": ICON });
+
+    const first = await runCli(["icons/**/*.svg", "--fill", "#ef3939", "--output", "icons/out", "--no-inactive"], cwd);
+    const second = await runCli(
+      ["icons", "--fill", "#ef3939", "--output", "icons/out", "--no-inactive", "--overwrite"],
+      cwd,
+    );
+
+    expect(first.code).toBe(0);
+    expect(second.stdout).toContain("finished: 3 succeeded, 0 failed");
+    expect(listFiles(path.join(cwd, "icons", "out"))).toEqual([
+      "a/back-fill-ef3939-active.svg",
+      "b/back-fill-ef3939-active.svg",
+      "forward-fill-ef3939-active.svg",
+    ]);
+  });
+
+  it("reports inputs that would write to the same output and exits with the partial failure code", async () => {
+    const cwd = setUp({ "a/icon.svg": ICON, "b/icon.svg": ICON });
+
+    const result = await runCli(["a/icon.svg", "b/icon.svg", "missing", "--fill", "#ef3939", "--output", "out"], cwd);
+
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain(
+      `${path.join("b", "icon.svg")}: Output path icon.svg is already used by ${path.join("a", "icon.svg")}`,
+    );
+    expect(result.stdout).toContain("finished: 1 succeeded, 2 failed");
+    expect(listFiles(path.join(cwd, "out"))).toEqual(["icon-fill-ef3939-active.svg", "icon-fill-ef3939-inactive.svg"]);
+  });
+
+  it("writes one sprite for the whole batch with ids taken from the mirrored paths", async () => {
+    const cwd = setUp({ "icons/back.svg": ICON, "icons/nav/reload.svg": ICON });
+
+    const result = await runCli(["icons", "--fill", "#ef3939", "--output", "out", "--sprite"], cwd);
+
+    expect(result.code).toBe(0);
+    expect(listFiles(path.join(cwd, "out"))).toEqual(["sprite.html", "sprite.svg"]);
+    const sprite = readFileSync(path.join(cwd, "out", "sprite.svg"), "utf8");
+    expect(sprite.match(/<symbol id="[^"]+"/g)).toEqual([
+      `<symbol id="back-fill-ef3939-active"`,
+      `<symbol id="back-fill-ef3939-inactive"`,
+      `<symbol id="nav-reload-fill-ef3939-active"`,
+      `<symbol id="nav-reload-fill-ef3939-inactive"`,
+    ]);
+  });
+});
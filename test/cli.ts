@@ -0,0 +1,105 @@
+import { execFile, spawn } from "node:child_process";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const REPO_ROOT = fileURLToPath(new URL("../", import.meta.url));
+const VITE_NODE = path.join(REPO_ROOT, "node_modules", "vite-node", "vite-node.mjs");
+
+export const CLI_TIMEOUT = 30_000;
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface CliProcess {
+  waitForOutput(text: string): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// src/index.ts runs main() as soon as it is imported, so the CLI is started in a child process through
+// vite-node rather than imported into the test.
+export function runCli(args: string[], cwd: string): Promise<CliResult> {
+  return new Promise((resolve) => {
+    execFile(process.execPath, createCliArgs(args), { cwd, timeout: CLI_TIMEOUT }, (error, stdout, stderr) => {
+      const code = error ? (typeof error.code === "number" ? error.code : 1) : 0;
+      resolve({ code, stdout, stderr });
+    });
+  });
+}
+
+// For long-running commands such as --watch: waitForOutput resolves once stdout has printed the text since the
+// previous wait, and stop() ends the child it started.
+export function startCli(args: string[], cwd: string): CliProcess {
+  const child = spawn(process.execPath, createCliArgs(args), { cwd, stdio: ["ignore", "pipe", "pipe"] });
+  let unread = "";
+  let output = "";
+  let waiter: { text: string; resolve: () => void } | undefined;
+
+  const check = (): void => {
+    const index = waiter ? unread.indexOf(waiter.text) : -1;
+    if (waiter && index !== -1) {
+      unread = unread.slice(index + waiter.text.length);
+      waiter.resolve();
+      waiter = undefined;
+    }
+  };
+  const record = (chunk: string): void => {
+    output += chunk;
+    unread += chunk;
+    check();
+  };
+  child.stdout.setEncoding("utf8").on("data", record);
+  child.stderr.setEncoding("utf8").on("data", (chunk: string) => {
+    output += chunk;
+  });
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+
+  return {
+    waitForOutput: (text) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out waiting for "${text}" in:\n${output}`)), CLI_TIMEOUT);
+        waiter = {
+          text,
+          resolve: () => {
+            clearTimeout(timer);
+            resolve();
+          },
+        };
+        check();
+      }),
+    stop: () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill();
+      }
+      return exited;
+    },
+  };
+}
+
+function createCliArgs(args: string[]): string[] {
+  return [VITE_NODE, "--root", REPO_ROOT, path.join(REPO_ROOT, "src", "index.ts"), "--", ...args];
+}
+
+export function createWorkspace(files: Record<string, string>): string {
+  const directory = mkdtempSync(path.join(tmpdir(), "vivaldi-icon-maker-"));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(directory, name)), { recursive: true });
+    writeFileSync(path.join(directory, name), content, "utf8");
+  }
+  return directory;
+}
+
+export function removeWorkspace(directory: string): void {
+  rmSync(directory, { recursive: true, force: true });
+}
+
+export function listFiles(directory: string): string[] {
+  return readdirSync(directory, { recursive: true, encoding: "utf8" })
+    .filter((name) => statSync(path.join(directory, name)).isFile())
+    .map((name) => name.split(path.sep).join("/"))
+    .sort();
+}
@@ -0,0 +1,89 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import {
+  createComponentName,
+  createCssClasses,
+  createDataUriModule,
+  createReactComponent,
+  createSvgDataUri,
+} from "../src/lib/codeOutputs.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const REPO_ROOT = fileURLToPath(new URL("../", import.meta.url));
+
+function typeCheckComponent(source: string): string[] {
+  const fileName = `${REPO_ROOT}test/__generated__/Component.tsx`;
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    jsx: ts.JsxEmit.ReactJSX,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    skipLibCheck: true,
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, languageVersion, ...rest) =>
+    name === fileName ? ts.createSourceFile(name, source, languageVersion) : getSourceFile(name, languageVersion, ...rest);
+  const fileExists = host.fileExists;
+  host.fileExists = (name) => name === fileName || fileExists(name);
+
+  const program = ts.createProgram([fileName], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`);
+}
+
+describe("createReactComponent", () => {
+  it("emits a component for a bundled preset that type-checks", () => {
+    const svgContent = readFileSync(`${REPO_ROOT}vivaldi-black.svg`, "utf8");
+    const [active] = generateIconVariants({ svgContent, fill: "#ef3939", optimize: {} });
+    const source = createReactComponent(active.svg, createComponentName("black", active.name));
+
+    expect(typeCheckComponent(source)).toEqual([]);
+    expect(source.match(/role=/g)).toHaveLength(1);
+    expect(source).not.toContain("<title>Vivaldi icon</title>");
+  }, 30_000);
+
+  it("keeps the root's class and style and maps attribute names to JSX", () => {
+    const source = createReactComponent(
+      `<svg xmlns="http://www.w3.org/2000/svg" class="icon" style="fill-rule: evenodd" stroke-width="2" width="16" height="16"><path d="M0 0h16v16H0z"/></svg>`,
+      "Square",
+    );
+
+    expect(source).toContain(`strokeWidth="2"`);
+    expect(source).toContain(`viewBox="0 0 16 16"`);
+    expect(source).toContain(`className={["icon", className].filter(Boolean).join(" ")}`);
+    expect(source).toContain(`style={{ ...({"fillRule":"evenodd"} as CSSProperties), ...style }}`);
+  });
+});
+
+describe("createSvgDataUri", () => {
+  it("escapes quotes and parentheses and decodes back to the same SVG", () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg"><path fill="url(#g)" d='M0 0'/></svg>`;
+    const uri = createSvgDataUri(svg);
+
+    expect(uri).not.toMatch(/['()"]/);
+    expect(decodeURIComponent(uri.slice("data:image/svg+xml,".length))).toBe(svg);
+  });
+});
+
+describe("createDataUriModule / createCssClasses", () => {
+  const entries = [{ name: "light-active", svg: `<svg xmlns="http://www.w3.org/2000/svg"/>` }];
+
+  it("names exports after the variants", () => {
+    expect(createDataUriModule(entries)).toContain(`export const lightActiveDataUri = "data:image/svg+xml,`);
+    expect(createDataUriModule(entries)).toContain(`  "light-active": lightActiveDataUri,`);
+  });
+
+  it("writes a background and a mask class per variant with valid class names", () => {
+    const css = createCssClasses(entries, "2 icons");
+    expect(css).toContain(".icon-2-icons-light-active {");
+    expect(css).toContain(".icon-2-icons-light-active-mask {");
+    expect(css).toContain(`mask-image: url("data:image/svg+xml,`);
+  });
+});
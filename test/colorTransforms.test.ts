@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { oklabToOklch, rgbToOklab } from "../src/lib/colorSpaces.js";
+import {
+  adjustColorForContrast,
+  createInactiveColor,
+  createInactiveSecondaryColor,
+  getContrastRatio,
+  isInactiveColorModel,
+} from "../src/lib/colorTransforms.js";
+import { parseCssColor } from "../src/lib/cssColor.js";
+
+const oklch = (color: string) => oklabToOklch(rgbToOklab(parseCssColor(color)));
+
+describe("createInactiveColor with the oklch model", () => {
+  it("lands colors of different hues on the same perceived lightness", () => {
+    const lightnesses = ["#ef3939", "#1e88e5", "#ffeb3b", "#2e7d32"].map(
+      (color) => oklch(createInactiveColor(color, 0.5, "oklch")).l,
+    );
+
+    for (const lightness of lightnesses) {
+      expect(lightness).toBeCloseTo(0.85, 1);
+    }
+    expect(Math.max(...lightnesses) - Math.min(...lightnesses)).toBeLessThan(0.02);
+  });
+
+  it("keeps the hue while reducing chroma", () => {
+    const source = oklch("#1e88e5");
+    const inactive = oklch(createInactiveColor("#1e88e5", 0.5, "oklch"));
+
+    expect(inactive.h).toBeCloseTo(source.h, -1);
+    expect(inactive.c).toBeLessThan(source.c);
+  });
+
+  it("differs from the default hsl model and keeps explicit alpha", () => {
+    expect(createInactiveColor("#ef3939", 0.5, "oklch")).not.toBe(createInactiveColor("#ef3939", 0.5));
+    expect(createInactiveColor("#ef393980", 0.5, "oklch")).toMatch(/^#[0-9a-f]{8}$/);
+    expect(createInactiveColor("#ef3939", 0.5, "oklch")).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it("passes none and currentColor through", () => {
+    expect(createInactiveColor("none", 0.5, "oklch")).toBe("none");
+    expect(createInactiveColor("currentColor", 0.5, "oklch")).toBe("currentColor");
+  });
+
+  it("keeps the secondary role lighter than the primary one", () => {
+    const primary = oklch(createInactiveColor("#1e88e5", 0.5, "oklch"));
+    const secondary = oklch(createInactiveSecondaryColor("#1e88e5", 0.5, "oklch"));
+
+    expect(secondary.l).toBeGreaterThan(primary.l);
+  });
+
+  it("recognizes only the registered models", () => {
+    expect(isInactiveColorModel("oklch")).toBe(true);
+    expect(isInactiveColorModel("hsl")).toBe(true);
+    expect(isInactiveColorModel("lab")).toBe(false);
+  });
+});
+
+describe("getContrastRatio", () => {
+  it("follows the WCAG formula and is symmetric", () => {
+    expect(getContrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 5);
+    expect(getContrastRatio("#ffffff", "#ffffff")).toBe(1);
+    expect(getContrastRatio("#767676", "#ffffff")).toBeCloseTo(4.54, 2);
+    expect(getContrastRatio("#ffffff", "#767676")).toBe(getContrastRatio("#767676", "#ffffff"));
+  });
+
+  it("composites translucent colors over the background before measuring", () => {
+    expect(getContrastRatio("#00000000", "#ffffff")).toBe(1);
+    expect(getContrastRatio("#00000080", "#ffffff")).toBeCloseTo(getContrastRatio("#7f7f7f", "#ffffff"), 1);
+  });
+});
+
+describe("adjustColorForContrast", () => {
+  it("returns a color that already meets the ratio unchanged", () => {
+    expect(adjustColorForContrast("#000000", "#ffffff", 3)).toBe("#000000");
+  });
+
+  it("nudges lightness until the ratio is met", () => {
+    const adjusted = adjustColorForContrast("#f0a0a0", "#acacac", 3);
+
+    expect(adjusted).toBeDefined();
+    expect(getContrastRatio(adjusted as string, "#acacac")).toBeGreaterThanOrEqual(3);
+    expect(oklch(adjusted as string).l).toBeLessThan(oklch("#f0a0a0").l);
+  });
+
+  it("gives up when no lightness reaches the ratio", () => {
+    expect(adjustColorForContrast("#ff000000", "#ffffff", 3)).toBeUndefined();
+    expect(adjustColorForContrast("#808080", "#808080", 21)).toBeUndefined();
+  });
+});
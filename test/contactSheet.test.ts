@@ -0,0 +1,109 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSvgDataUri } from "../src/lib/codeOutputs.js";
+import { ContactSheetRow, createContactSheet, formatColorLabel } from "../src/lib/contactSheet.js";
+import { CLI_TIMEOUT, createWorkspace, listFiles, removeWorkspace, runCli } from "./cli.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`;
+
+const ROWS: ContactSheetRow[] = [
+  {
+    label: "icons/<back>.svg",
+    colors: [{ name: "fill", value: "red" }],
+    variants: [
+      { name: "active", svg: `<svg id="a"/>`, fill: "red" },
+      { name: "inactive", svg: `<svg id="b"/>`, fill: "#ff000080" },
+    ],
+  },
+  {
+    label: "icons/home.svg",
+    colors: [{ name: "stroke", value: "currentColor" }],
+    variants: [{ name: "hover", svg: `<svg id="c"/>` }],
+  },
+];
+
+describe("createContactSheet", () => {
+  it("uses one column per variant name and leaves missing cells empty", () => {
+    const html = createContactSheet(ROWS);
+
+    expect(html.match(/^ {10}<th>[^<]+<\/th>$/gm)?.map((cell) => cell.trim())).toEqual([
+      "<th>active</th>",
+      "<th>inactive</th>",
+      "<th>hover</th>",
+    ]);
+    expect(html.match(/<tr>/g)).toHaveLength(3);
+    expect(html.match(/<td><\/td>/g)).toHaveLength(3);
+  });
+
+  it("embeds each icon as an escaped data URI on both toolbar backgrounds", () => {
+    const html = createContactSheet(ROWS, { iconSize: 24, toolbarBackgrounds: { dark: "#101010" } });
+    const source = createSvgDataUri(`<svg id="a"/>`).replace(/"/g, "&quot;");
+
+    expect(html.split(`<img src="${source}" width="24" height="24"`)).toHaveLength(3);
+    expect(html).toContain(`<span class="tile" style="background: #ffffff" title="light toolbar">`);
+    expect(html).toContain(`<span class="tile" style="background: #101010" title="dark toolbar">`);
+  });
+
+  it("escapes labels and titles and shows normalized colors without swatches for keywords", () => {
+    const html = createContactSheet(ROWS, { title: `Red & "friends"` });
+
+    expect(html).toContain(`<title>Red &amp; &quot;friends&quot;</title>`);
+    expect(html).toContain(`<span class="label">icons/&lt;back&gt;.svg</span>`);
+    expect(html).toContain(`<span class="chip"><span class="swatch" style="background: #ff0000"></span>fill #ff0000</span>`);
+    expect(html).toContain(`<span class="chip">stroke currentColor</span>`);
+  });
+});
+
+describe("formatColorLabel", () => {
+  it("normalizes colors and passes through values it cannot parse", () => {
+    expect(formatColorLabel("rgb(255 0 0 / 50%)")).toBe("#ff000080");
+    expect(formatColorLabel("var(--accent)")).toBe("var(--accent)");
+  });
+});
+
+describe("color matrix", { timeout: CLI_TIMEOUT }, () => {
+  let workspace: string | undefined;
+
+  afterEach(() => {
+    if (workspace) {
+      removeWorkspace(workspace);
+      workspace = undefined;
+    }
+  });
+
+  it("names every fill and stroke combination through createSuffix and writes one contact sheet", async () => {
+    workspace = createWorkspace({ "icons/back.svg": ICON, "fills.json": `["#00f", "blue"]` });
+
+    const result = await runCli(
+      ["icons", "--fill", "rgb(255, 0, 0),red", "--fill", "fills.json", "--stroke", "#111", "--output", "out", "--no-inactive"],
+      workspace,
+    );
+
+    expect(result.code).toBe(0);
+    expect(listFiles(path.join(workspace, "out"))).toEqual([
+      "back-fill-0000ff-stroke-111111-active.svg",
+      "back-fill-ff0000-stroke-111111-active.svg",
+      "contact-sheet.html",
+    ]);
+    expect(result.stdout).toContain("Created out/contact-sheet.html (2 combinations)");
+    const html = readFileSync(path.join(workspace, "out", "contact-sheet.html"), "utf8");
+    expect(html.match(/<span class="label">[^<]+<\/span>/g)).toEqual([
+      `<span class="label">${path.join("icons", "back.svg")}</span>`,
+      `<span class="label">${path.join("icons", "back.svg")}</span>`,
+    ]);
+  });
+
+  it("appends the suffix to a single input's output name", async () => {
+    workspace = createWorkspace({ "back.svg": ICON });
+
+    const result = await runCli(["back.svg", "--fill", "#ff0000,#00ff00", "--output", "out/icon", "--no-inactive"], workspace);
+
+    expect(result.code).toBe(0);
+    expect(listFiles(path.join(workspace, "out"))).toEqual([
+      "contact-sheet.html",
+      "icon-fill-00ff00-active.svg",
+      "icon-fill-ff0000-active.svg",
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { hasExplicitAlpha, normalizeCssColor, parseCssColor, tryParseCssColor } from "../src/lib/cssColor.js";
+
+describe("normalizeCssColor", () => {
+  it.each([
+    ["#F00", "#ff0000"],
+    ["#ff000080", "#ff000080"],
+    ["#f008", "#ff000088"],
+    ["rebeccapurple", "#663399"],
+    ["RED", "#ff0000"],
+    ["transparent", "#00000000"],
+    ["rgb(255 0 0)", "#ff0000"],
+    ["rgba(255, 0, 0, 0.5)", "#ff000080"],
+    ["rgb(100% 50% 0% / 50%)", "#ff800080"],
+    ["hsl(120 100% 50%)", "#00ff00"],
+    ["hsl(0.5turn, 100%, 50%)", "#00ffff"],
+    ["hwb(240 0% 0%)", "#0000ff"],
+    ["oklab(0.628 0.2249 0.1258)", "#ff0000"],
+    ["oklch(62.8% 0.2577 29.23deg)", "#ff0000"],
+  ])("normalizes %s to %s", (input, expected) => {
+    expect(normalizeCssColor(input)).toBe(expected);
+  });
+
+  it("keeps the none and currentColor keywords", () => {
+    expect(normalizeCssColor(" NONE ")).toBe("none");
+    expect(normalizeCssColor("currentcolor")).toBe("currentColor");
+  });
+});
+
+describe("parseCssColor", () => {
+  it("clamps out-of-range channels and alpha", () => {
+    expect(parseCssColor("rgb(300 -20 0 / 2)")).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+  });
+
+  it.each(["#ff00f", "rgb(1 2)", "rgb(1, 2 3)", "rgb(1 2 3 /)", "hsl(red 50% 50%)", "color(srgb 1 0 0)", "notacolor"])(
+    "rejects %s with the supported syntax in the message",
+    (input) => {
+      expect(() => parseCssColor(input)).toThrow(/Unsupported color value: .*Use #hex, rgb\(\)/);
+      expect(tryParseCssColor(input)).toBeUndefined();
+    },
+  );
+});
+
+describe("hasExplicitAlpha", () => {
+  it("treats 4 and 8 digit hex as explicit even when opaque", () => {
+    expect(hasExplicitAlpha("#ff0f")).toBe(true);
+    expect(hasExplicitAlpha("#ff0000ff")).toBe(true);
+    expect(hasExplicitAlpha("rgb(0 0 0 / 1)")).toBe(false);
+    expect(hasExplicitAlpha("hsl(0 0% 0% / 0.5)")).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCssVariables,
+  createCombinedStateSvg,
+  describeCssVariables,
+  getCssVariableName,
+  toVariableRole,
+} from "../src/lib/cssVariables.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const PLATE_ICON =
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">` +
+  `<rect data-vivaldi-inactive-bg="true" width="24" height="24" fill="#acacac"/>` +
+  `<path fill="#ff0000" d="M0 0h4v4H0z"/><title>#ff0000</title></svg>`;
+
+describe("variable names", () => {
+  it("prefixes roles and optional states", () => {
+    expect(getCssVariableName("fill")).toBe("--vim-fill");
+    expect(getCssVariableName("fill", "inactive")).toBe("--vim-inactive-fill");
+    expect(toVariableRole("#Outline > .Dot")).toBe("outline-dot");
+    expect(toVariableRole("***")).toBe("color");
+    expect(describeCssVariables([{ role: "fill", color: "#ff0000" }], "active")).toEqual({
+      "--vim-active-fill": "#ff0000",
+    });
+  });
+});
+
+describe("applyCssVariables", () => {
+  it("keeps the attribute as a fallback and adds a var() declaration for matching colors", () => {
+    const output = applyCssVariables(PLATE_ICON, [{ role: "fill", color: "red" }], "active");
+
+    expect(output).toContain(`<path fill="#ff0000" d="M0 0h4v4H0z" style="fill:var(--vim-active-fill, #ff0000)"/>`);
+    expect(output).toContain(`<title>#ff0000</title>`);
+  });
+
+  it("binds background plates only to background roles", () => {
+    const output = applyCssVariables(
+      PLATE_ICON,
+      [
+        { role: "fill", color: "#acacac" },
+        { role: "bg", color: "#acacac", background: true },
+      ],
+      "inactive",
+    );
+
+    expect(output).toContain(`fill="#acacac" style="fill:var(--vim-inactive-bg, #acacac)"`);
+    expect(output).not.toContain("--vim-inactive-fill");
+  });
+
+  it("lets an existing inline declaration win over the attribute", () => {
+    const output = applyCssVariables(`<svg><path fill="#000" style="fill: #ff0000"/></svg>`, [
+      { role: "fill", color: "#ff0000" },
+    ]);
+
+    expect(output).toBe(`<svg><path fill="#000" style="fill: var(--vim-fill, #ff0000)"/></svg>`);
+  });
+});
+
+describe("createCombinedStateSvg", () => {
+  const active = { bindings: [{ role: "fill", color: "#ff0000" }] };
+  const inactive = {
+    bindings: [
+      { role: "fill", color: "#e87d7d" },
+      { role: "bg", color: "#acacac", background: true },
+    ],
+  };
+  const inactiveSvg = PLATE_ICON.replace(`fill="#ff0000"`, `fill="#e87d7d"`);
+
+  it("switches state with the vim-inactive class by default and hides the plate when active", () => {
+    const svg = createCombinedStateSvg(inactiveSvg, active, inactive);
+    const scope = svg.match(/class="(vim-[a-z0-9]+)"/)?.[1];
+
+    expect(scope).toBeDefined();
+    expect(svg).toContain(`.${scope}{--vim-fill:var(--vim-active-fill, #ff0000);}`);
+    expect(svg).toContain(`.${scope} [data-vivaldi-inactive-bg]{display:none}`);
+    expect(svg).toContain(
+      `.${scope}.vim-inactive{--vim-fill:var(--vim-inactive-fill, #e87d7d);--vim-bg:var(--vim-inactive-bg, #acacac);}`,
+    );
+    expect(svg).toContain(`style="fill:var(--vim-fill, #e87d7d)"`);
+  });
+
+  it("shows the inactive state until hover with the hover trigger", () => {
+    const svg = createCombinedStateSvg(inactiveSvg, active, inactive, "hover");
+
+    expect(svg).toMatch(/\.vim-[a-z0-9]+:hover\{--vim-fill:var\(--vim-active-fill, #ff0000\);\}/);
+    expect(svg).toMatch(/\.vim-[a-z0-9]+ \[data-vivaldi-inactive-bg\]\{display:inline\}/);
+  });
+});
+
+describe("generateIconVariants with css-variables output", () => {
+  it("adds a combined variant whose variables cover both states", () => {
+    const variants = generateIconVariants({ svgContent: PLATE_ICON, fill: "#ff0000", outputMode: "css-variables" });
+    const combined = variants.find((variant) => variant.name === "combined");
+
+    expect(variants.map((variant) => variant.name)).toEqual(["active", "inactive", "combined"]);
+    expect(Object.keys(combined?.cssVariables ?? {})).toEqual(
+      expect.arrayContaining(["--vim-active-fill", "--vim-inactive-fill", "--vim-inactive-bg"]),
+    );
+  });
+});
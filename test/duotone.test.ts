@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { formatSecondaryMarker, parseSecondaryMarker } from "../src/lib/duotone.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const activeSvg = (svgContent: string, marker?: string) =>
+  generateIconVariants({
+    svgContent,
+    fill: "#1e88e5",
+    secondaryColor: "#ffb300",
+    secondaryMarker: marker === undefined ? undefined : parseSecondaryMarker(marker),
+    generateInactive: false,
+  })[0].svg;
+
+describe("parseSecondaryMarker", () => {
+  it.each([
+    ["opacity", { type: "opacity" }],
+    [" OPACITY ", { type: "opacity" }],
+    ["class:fa-secondary", { type: "class", className: "fa-secondary" }],
+    ["class:.fa-secondary", { type: "class", className: "fa-secondary" }],
+    ["data-layer", { type: "attribute", name: "data-layer", value: undefined }],
+    [`Data-Layer="back"`, { type: "attribute", name: "data-layer", value: "back" }],
+  ])("parses %s", (spec, marker) => {
+    expect(parseSecondaryMarker(spec)).toEqual(marker);
+  });
+
+  it.each(["class:1bad", "id=secondary", "secondary"])("rejects %s", (spec) => {
+    expect(() => parseSecondaryMarker(spec)).toThrow(`Unknown secondary marker: ${spec}.`);
+  });
+
+  it("round-trips through formatSecondaryMarker", () => {
+    for (const spec of ["opacity", "class:fa-secondary", "data-layer", "data-layer=back"]) {
+      expect(formatSecondaryMarker(parseSecondaryMarker(spec))).toBe(spec);
+    }
+  });
+});
+
+describe("secondary color roles", () => {
+  it("paints translucent layers with the secondary color by default", () => {
+    const svg = activeSvg(
+      `<svg xmlns="http://www.w3.org/2000/svg" fill="#000">` +
+        `<path opacity=".4" d="M0 0h4v4H0z"/><path d="M4 0h4v4H4z"/></svg>`,
+    );
+
+    expect(svg).toContain(`<path opacity=".4" d="M0 0h4v4H0z" fill="#ffb300"/>`);
+    expect(svg).toContain(`<path d="M4 0h4v4H4z"/>`);
+    expect(svg).toContain(`fill="#1e88e5"`);
+  });
+
+  it("follows opacity set from a style sheet", () => {
+    const svg = activeSvg(
+      `<svg xmlns="http://www.w3.org/2000/svg" fill="#000"><style>.back { fill-opacity: 50% }</style>` +
+        `<path class="back" d="M0 0h4v4H0z"/></svg>`,
+    );
+
+    expect(svg).toContain(`class="back" d="M0 0h4v4H0z" fill="#ffb300"`);
+  });
+
+  it("matches class and data attribute markers", () => {
+    const source =
+      `<svg xmlns="http://www.w3.org/2000/svg" fill="#000"><g class="fa-secondary"><path d="M0 0h4v4H0z"/></g>` +
+      `<path data-layer="back" d="M4 0h4v4H4z"/></svg>`;
+
+    expect(activeSvg(source, "class:fa-secondary")).toContain(`<g class="fa-secondary" fill="#ffb300">`);
+    expect(activeSvg(source, "data-layer=back")).toContain(`<path data-layer="back" d="M4 0h4v4H4z" fill="#ffb300"/>`);
+    expect(activeSvg(source, "data-layer=front")).not.toContain("#ffb300");
+  });
+});
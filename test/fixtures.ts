@@ -0,0 +1,10 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const FIXTURES_DIRECTORY = fileURLToPath(new URL("./fixtures/", import.meta.url));
+
+export const FIXTURE_NAMES = readdirSync(FIXTURES_DIRECTORY).filter((name) => name.endsWith(".svg")).sort();
+
+export function readFixture(name: string): string {
+  return readFileSync(`${FIXTURES_DIRECTORY}${name}`, "utf8");
+}
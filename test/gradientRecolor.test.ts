@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { rgbToOklab } from "../src/lib/colorSpaces.js";
+import { parseCssColor } from "../src/lib/cssColor.js";
+import { readStopColor, recolorGradientStops, resolveGradientStops } from "../src/lib/gradientRecolor.js";
+import { buildIdIndex, collectElements, parseSvgDocument, SvgElement } from "../src/lib/svgDocument.js";
+
+function gradientStops(stops: string, extra = ""): SvgElement[] {
+  const document = parseSvgDocument(
+    `<svg xmlns="http://www.w3.org/2000/svg"><linearGradient id="g">${stops}</linearGradient>${extra}</svg>`,
+  );
+  const [gradient] = collectElements(document.children, (element) => element.name === "linearGradient");
+  return resolveGradientStops(gradient, buildIdIndex(document));
+}
+
+const lightness = (stop: SvgElement) => rgbToOklab(parseCssColor(readStopColor(stop))).l;
+
+describe("recolorGradientStops in tint mode", () => {
+  it("keeps red and blue stops apart even though their HSL lightness is equal", () => {
+    const stops = gradientStops(`<stop offset="0" stop-color="#ff0000"/><stop offset="1" stop-color="#0000ff"/>`);
+    recolorGradientStops(stops, { mode: "tint", color: "#1e88e5" });
+
+    const [start, end] = stops.map(readStopColor);
+    expect(start).not.toBe(end);
+    expect(lightness(stops[0])).toBeGreaterThan(lightness(stops[1]));
+  });
+
+  it("writes the tinted color back into an inline style when the stop uses one", () => {
+    const stops = gradientStops(`<stop style="stop-color: #ffffff; stop-opacity: 1"/><stop stop-color="#000000"/>`);
+    recolorGradientStops(stops, { mode: "tint", color: "#ef3939" });
+
+    expect(stops[0].attributes.find((attribute) => attribute.name === "style")?.value).toMatch(/^stop-color: #[0-9a-f]{6}; stop-opacity: 1$/);
+    expect(stops[0].attributes.some((attribute) => attribute.name === "stop-color")).toBe(false);
+  });
+});
+
+describe("recolorGradientStops in map mode", () => {
+  it("assigns the first and last stops to the two colors and interpolates by offset", () => {
+    const stops = gradientStops(
+      `<stop offset="0%" stop-color="red"/><stop offset="50%" stop-color="lime"/><stop offset="100%" stop-color="blue"/>`,
+    );
+    recolorGradientStops(stops, { mode: "map", color: "#000000", endColor: "#ffffff" });
+
+    expect(stops.map(readStopColor)).toEqual(["#000000", expect.stringMatching(/^#[0-9a-f]{6}$/), "#ffffff"]);
+    expect(lightness(stops[1])).toBeCloseTo(0.5, 2);
+  });
+
+  it("follows href templates to find the stops", () => {
+    const document = parseSvgDocument(
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">` +
+        `<linearGradient id="base"><stop stop-color="red"/></linearGradient>` +
+        `<linearGradient id="child" xlink:href="#base"/></svg>`,
+    );
+    const child = collectElements(document.children, (element) => element.name === "linearGradient")[1];
+
+    expect(resolveGradientStops(child, buildIdIndex(document))).toHaveLength(1);
+  });
+
+  it("requires an end color", () => {
+    const stops = gradientStops(`<stop stop-color="red"/>`);
+    expect(() => recolorGradientStops(stops, { mode: "map", color: "#000000" })).toThrow(
+      "Gradient map mode requires an end color.",
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { beforeAll, describe, expect, it } from "vitest";
+import { encodeIcns, encodeIco, exportIconContainer, PngEntry } from "../src/lib/iconContainers.js";
+import { initRasterizer } from "../src/lib/rasterize.js";
+
+const require = createRequire(import.meta.url);
+
+const fakePng = (width: number, height: number, fill: number): PngEntry => ({
+  width,
+  height,
+  png: new Uint8Array(10).fill(fill),
+});
+
+const readOsType = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function readIcnsElements(icns: Uint8Array): { type: string; size: number }[] {
+  const view = new DataView(icns.buffer, icns.byteOffset, icns.byteLength);
+  const elements: { type: string; size: number }[] = [];
+  for (let offset = 8; offset < icns.length; offset += view.getUint32(offset + 4, false)) {
+    elements.push({ type: readOsType(icns, offset), size: view.getUint32(offset + 4, false) });
+  }
+  return elements;
+}
+
+function readPngSize(png: Uint8Array): [number, number] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  return [view.getUint32(16, false), view.getUint32(20, false)];
+}
+
+function readIcoImageSizes(ico: Uint8Array): [number, number][] {
+  const view = new DataView(ico.buffer);
+  return Array.from({ length: view.getUint16(4, true) }, (_, index) => {
+    const entry = 6 + 16 * index;
+    const offset = view.getUint32(entry + 12, true);
+    return readPngSize(ico.subarray(offset, offset + view.getUint32(entry + 8, true)));
+  });
+}
+
+describe("encodeIco", () => {
+  it("writes the directory header and one entry per size in ascending order", () => {
+    const ico = encodeIco([fakePng(256, 256, 2), fakePng(16, 16, 1)]);
+    const view = new DataView(ico.buffer);
+
+    expect([view.getUint16(0, true), view.getUint16(2, true), view.getUint16(4, true)]).toEqual([0, 1, 2]);
+    expect([ico[6], ico[7]]).toEqual([16, 16]);
+    // 256px is stored as 0 because the width and height fields are a single byte.
+    expect([ico[22], ico[23]]).toEqual([0, 0]);
+    expect(view.getUint16(6 + 6, true)).toBe(32);
+    expect(view.getUint32(6 + 8, true)).toBe(10);
+    expect(view.getUint32(6 + 12, true)).toBe(6 + 16 * 2);
+    expect(view.getUint32(22 + 12, true)).toBe(6 + 16 * 2 + 10);
+    expect(ico.length).toBe(6 + 16 * 2 + 20);
+  });
+
+  it("rejects images larger than 256px and empty input", () => {
+    expect(() => encodeIco([fakePng(512, 512, 0)])).toThrow("ICO images must be 256px or smaller: 512x512");
+    expect(() => encodeIco([])).toThrow("ICO needs at least one image.");
+  });
+});
+
+describe("encodeIcns", () => {
+  it("writes the file header and reuses PNGs for the retina element types", () => {
+    const icns = encodeIcns([fakePng(32, 32, 1), fakePng(16, 16, 0)]);
+
+    expect(readOsType(icns, 0)).toBe("icns");
+    expect(new DataView(icns.buffer).getUint32(4, false)).toBe(icns.length);
+    expect(readIcnsElements(icns)).toEqual([
+      { type: "icp4", size: 18 },
+      { type: "icp5", size: 18 },
+      { type: "ic11", size: 18 },
+    ]);
+  });
+
+  it("rejects sizes without an element type and non-square images", () => {
+    expect(() => encodeIcns([fakePng(48, 48, 0)])).toThrow("ICNS supports square images");
+    expect(() => encodeIcns([fakePng(32, 16, 0)])).toThrow("32x16");
+  });
+});
+
+describe("exportIconContainer", () => {
+  beforeAll(() => initRasterizer(readFileSync(require.resolve("@resvg/resvg-wasm/index_bg.wasm"))));
+
+  const wideIcon =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="48" height="24" viewBox="0 0 48 24">` +
+    `<rect width="48" height="24" fill="#ef3939"/></svg>`;
+
+  it("pads a non-square viewBox so ICNS export succeeds with square images", () => {
+    const icns = exportIconContainer(wideIcon, "icns", [16, 32]);
+    const view = new DataView(icns.buffer);
+
+    expect(readIcnsElements(icns).map((element) => element.type)).toEqual(["icp4", "icp5", "ic11"]);
+    expect(readPngSize(icns.subarray(16, 8 + view.getUint32(12, false)))).toEqual([16, 16]);
+  });
+
+  it("pads ICO images to squares as well", () => {
+    expect(readIcoImageSizes(exportIconContainer(wideIcon, "ico", [16, 48]))).toEqual([
+      [16, 16],
+      [48, 48],
+    ]);
+  });
+});
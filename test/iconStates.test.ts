@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createStateAppearance, resolveIconState, resolveIconStates } from "../src/lib/iconStates.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`;
+
+const context = { mix: 0.5, colorModel: "hsl" as const, primaryColor: "#ef3939", contrastBackground: "#ffffff" };
+
+describe("resolveIconStates", () => {
+  it("resolves built-in names case-insensitively", () => {
+    expect(resolveIconStates([" Hover ", "disabled"]).map((state) => state.name)).toEqual(["hover", "disabled"]);
+  });
+
+  it("rejects unknown, reserved, duplicate and malformed names", () => {
+    expect(() => resolveIconState("selected")).toThrow("Unknown state: selected. Use hover, pressed, focus-ring, disabled.");
+    expect(() => resolveIconStates([{ name: "inactive" }])).toThrow("Duplicate or reserved state name: inactive");
+    expect(() => resolveIconStates(["hover", { name: "hover" }])).toThrow("Duplicate or reserved state name: hover");
+    expect(() => resolveIconStates([{ name: "Selected" }])).toThrow("Invalid state name: Selected.");
+  });
+});
+
+describe("createStateAppearance", () => {
+  it("gives hover and pressed plates tinted toward the toolbar, pressed the stronger one", () => {
+    const hover = createStateAppearance(resolveIconState("hover"), context);
+    const pressed = createStateAppearance(resolveIconState("pressed"), context);
+
+    expect(hover.transformColor("#ef3939")).toBe("#ef3939");
+    expect(pressed.transformColor("#ef3939")).not.toBe("#ef3939");
+    expect(hover.background?.color).not.toBe(pressed.background?.color);
+  });
+
+  it("draws a primary-colored ring for focus-ring and dims disabled", () => {
+    expect(createStateAppearance(resolveIconState("focus-ring"), context).background).toEqual({
+      color: "#ef3939",
+      outlineWidth: 2,
+    });
+    expect(createStateAppearance(resolveIconState("disabled"), context).opacity).toBe(0.5);
+  });
+
+  it("passes the context to custom transforms and background functions", () => {
+    const appearance = createStateAppearance(
+      {
+        name: "selected",
+        transformColor: (_color, { primaryColor }) => primaryColor ?? "none",
+        background: ({ contrastBackground }) => ({ color: contrastBackground, cornerRadius: 12 }),
+      },
+      context,
+    );
+
+    expect(appearance.transformColor("#000000")).toBe("#ef3939");
+    expect(appearance.transformColor("none")).toBe("none");
+    expect(appearance.background).toEqual({ color: "#ffffff", cornerRadius: 12 });
+  });
+});
+
+describe("generateIconVariants with states", () => {
+  it("adds one variant per state after active and inactive", () => {
+    const variants = generateIconVariants({ svgContent: ICON, fill: "#ef3939", states: ["hover", "pressed", "disabled"] });
+
+    expect(variants.map((variant) => variant.name)).toEqual(["active", "inactive", "hover", "pressed", "disabled"]);
+    expect(variants[2].fill).toBe("#ef3939");
+    expect(variants[2].backgroundColor).toBeDefined();
+    expect(variants[4].svg).toContain(`opacity="0.5"`);
+  });
+
+  it("measures state contrast without nudging colors", () => {
+    const [, , hover] = generateIconVariants({
+      svgContent: ICON,
+      fill: "#ffeb3b",
+      states: ["hover"],
+      minContrastRatio: 4.5,
+    });
+
+    expect(hover.fill).toBe("#ffeb3b");
+    expect(hover.meetsContrast).toBe(false);
+  });
+});
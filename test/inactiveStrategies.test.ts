@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_INACTIVE_OPACITY,
+  getInactiveStrategy,
+  InactiveStrategyContext,
+  listInactiveStrategies,
+  readColorOption,
+  readNumberOption,
+  registerInactiveStrategy,
+  resolveInactiveAppearance,
+} from "../src/lib/inactiveStrategies.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const context = (overrides: Partial<InactiveStrategyContext> = {}): InactiveStrategyContext => ({
+  mix: 0.5,
+  colorModel: "hsl",
+  primaryColor: "#ef3939",
+  contrastBackground: "#ffffff",
+  options: {},
+  ...overrides,
+});
+
+describe("inactive strategy registry", () => {
+  it("lists the built-in strategies", () => {
+    expect(listInactiveStrategies()).toEqual(
+      expect.arrayContaining(["pastel", "adaptive", "grayscale", "opacity", "outline", "solid"]),
+    );
+  });
+
+  it("looks names up case-insensitively and lists the choices for unknown ones", () => {
+    expect(getInactiveStrategy(" Pastel ")).toBe(getInactiveStrategy("pastel"));
+    expect(() => getInactiveStrategy("sepia")).toThrow(/^Unknown inactive style: sepia\. Use pastel, adaptive, /);
+  });
+
+  it("rejects names that are not lowercase identifiers", () => {
+    expect(() => registerInactiveStrategy("my style", () => ({ transformColor: (color) => color }))).toThrow(
+      "Invalid inactive style name: my style.",
+    );
+  });
+
+  it("uses a registered strategy from generateIconVariants", () => {
+    registerInactiveStrategy("brand", ({ options }) => ({
+      transformColor: () => "#5f6368",
+      background: { color: String(options.background ?? "#eceff1") },
+    }));
+
+    const [, inactive] = generateIconVariants({
+      svgContent: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`,
+      fill: "#ef3939",
+      inactiveStyle: "brand",
+      minContrastRatio: 1,
+    });
+
+    expect(inactive.fill).toBe("#5f6368");
+    expect(inactive.backgroundColor).toBe("#eceff1");
+  });
+});
+
+describe("built-in strategies", () => {
+  it("keeps none and currentColor out of every transform", () => {
+    const appearance = resolveInactiveAppearance("solid", context());
+
+    expect(appearance.transformColor("#ef3939")).toBe("#9e9e9e");
+    expect(appearance.transformColor("none")).toBe("none");
+    expect(appearance.transformSecondaryColor?.("currentColor")).toBe("currentColor");
+  });
+
+  it("lowers opacity without changing colors for opacity", () => {
+    const appearance = resolveInactiveAppearance("opacity", context());
+
+    expect(appearance.transformColor("#ef3939")).toBe("#ef3939");
+    expect(appearance.opacity).toBe(DEFAULT_INACTIVE_OPACITY);
+    expect(appearance.background).toBeUndefined();
+    expect(resolveInactiveAppearance("opacity", context({ options: { opacity: "0.25" } })).opacity).toBe(0.25);
+  });
+
+  it("draws only a border for outline and drops it at width 0", () => {
+    expect(resolveInactiveAppearance("outline", context({ options: { outlineWidth: 2 } })).background).toMatchObject({
+      outlineWidth: 2,
+    });
+    expect(resolveInactiveAppearance("outline", context({ options: { outlineWidth: 0 } })).background).toBeUndefined();
+  });
+
+  it("adds a plate only when there is a primary color", () => {
+    expect(resolveInactiveAppearance("pastel", context()).background?.color).toMatch(/^#[0-9a-f]{6}$/);
+    expect(resolveInactiveAppearance("pastel", context({ primaryColor: undefined })).background).toBeUndefined();
+  });
+
+  it("turns colors gray for grayscale", () => {
+    expect(resolveInactiveAppearance("grayscale", context()).transformColor("#ef3939")).toMatch(
+      /^#([0-9a-f]{2})\1\1$/,
+    );
+  });
+});
+
+describe("option readers", () => {
+  it("validates numeric ranges", () => {
+    expect(readNumberOption({}, "opacity", 0.4, 0, 1)).toBe(0.4);
+    expect(readNumberOption({ opacity: "0.2" }, "opacity", 0.4, 0, 1)).toBe(0.2);
+    expect(() => readNumberOption({ opacity: 2 }, "opacity", 0.4, 0, 1)).toThrow(
+      `Inactive style option "opacity" must be a number between 0 and 1.`,
+    );
+  });
+
+  it("normalizes colors and rejects other types", () => {
+    expect(readColorOption({ color: "gray" }, "color")).toBe("#808080");
+    expect(readColorOption({}, "color")).toBeUndefined();
+    expect(() => readColorOption({ color: true }, "color")).toThrow(`Inactive style option "color" must be a color string.`);
+  });
+});
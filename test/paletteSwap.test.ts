@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyColorReplacements,
+  collectSourceColors,
+  normalizeColorReplacements,
+  parseColorReplacement,
+} from "../src/lib/paletteSwap.js";
+import { parseSvgDocument, serializeSvgDocument } from "../src/lib/svgDocument.js";
+
+function swap(svg: string, replacements: { from: string; to: string }[], tolerance?: number): string {
+  const document = parseSvgDocument(svg);
+  applyColorReplacements(document, replacements, tolerance);
+  return serializeSvgDocument(document);
+}
+
+const TWO_TONE =
+  `<svg xmlns="http://www.w3.org/2000/svg"><path fill="#000000" d="M0 0h4v4H0z"/>` +
+  `<path fill="#020202" stroke="#ff0000" d="M4 0h4v4H4z"/></svg>`;
+
+describe("parseColorReplacement", () => {
+  it("normalizes both sides of a from=to spec", () => {
+    expect(parseColorReplacement("black=rgb(30 136 229)")).toEqual({ from: "#000000", to: "#1e88e5" });
+  });
+
+  it("rejects specs without a separator and sources that are not concrete colors", () => {
+    expect(() => parseColorReplacement("#000000")).toThrow("Invalid color replacement: #000000");
+    expect(() => normalizeColorReplacements([{ from: "currentColor", to: "#fff" }])).toThrow(
+      "Color replacement source must be a concrete color: currentColor",
+    );
+  });
+});
+
+describe("applyColorReplacements", () => {
+  it("only replaces exact matches with the default tolerance", () => {
+    const output = swap(TWO_TONE, [{ from: "#000000", to: "#1e88e5" }]);
+
+    expect(output).toContain(`fill="#1e88e5" d="M0 0`);
+    expect(output).toContain(`fill="#020202"`);
+    expect(output).toContain(`stroke="#ff0000"`);
+  });
+
+  it("also replaces near colors within the tolerance", () => {
+    const output = swap(TWO_TONE, [{ from: "#000000", to: "#1e88e5" }], 10);
+
+    expect(output).not.toContain("#020202");
+    expect(output).toContain(`stroke="#ff0000"`);
+  });
+
+  it("picks the closest source when several are within tolerance", () => {
+    const replacements = [
+      { from: "#000000", to: "#aa0000" },
+      { from: "#141414", to: "#00aa00" },
+    ];
+    const output = swap(`<svg><path fill="#101010"/></svg>`, replacements, 20);
+
+    expect(output).toContain(`fill="#00aa00"`);
+  });
+
+  it("rewrites inline styles and style sheets but leaves other properties alone", () => {
+    const output = swap(
+      `<svg><style>.a { fill: black; opacity: 0.5 }</style><rect style="stroke: #000; color: #000" data-color="#000"/></svg>`,
+      [{ from: "#000000", to: "#1e88e5" }],
+    );
+
+    expect(output).toContain(".a { fill: #1e88e5; opacity: 0.5 }");
+    expect(output).toContain(`style="stroke: #1e88e5; color: #1e88e5"`);
+    expect(output).toContain(`data-color="#000"`);
+  });
+
+  it("treats alpha as part of the distance", () => {
+    expect(swap(`<svg><path fill="#00000080"/></svg>`, [{ from: "#000000", to: "#1e88e5" }], 10)).toContain(
+      `fill="#00000080"`,
+    );
+  });
+});
+
+describe("collectSourceColors", () => {
+  it("lists each palette color once in normalized form", () => {
+    expect(collectSourceColors(`${TWO_TONE.slice(0, -6)}<rect style="fill: black"/></svg>`)).toEqual([
+      "#000000",
+      "#020202",
+      "#ff0000",
+    ]);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { registerInactiveStrategy } from "../src/lib/inactiveStrategies.js";
+import { validateProjectConfig } from "../src/lib/projectConfig.js";
+
+describe("validateProjectConfig", () => {
+  it("rejects an inactive style that is not registered", () => {
+    expect(() =>
+      validateProjectConfig({ defaults: { inactiveStyle: "pastell" }, jobs: [{ input: "icons" }] }, "icons.config.json"),
+    ).toThrow(/defaults\.inactiveStyle: expected one of pastel, adaptive, .*, got "pastell"/);
+  });
+
+  it("accepts built-in and registered inactive styles", () => {
+    registerInactiveStrategy("brand", () => ({ transformColor: () => "#888888" }));
+    expect(() =>
+      validateProjectConfig({
+        defaults: { inactiveStyle: "Grayscale" },
+        jobs: [{ input: "icons", options: { inactiveStyle: "brand" } }],
+      }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,85 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  formatRasterSuffix,
+  initRasterizer,
+  MAX_PNG_PIXELS,
+  rasterizeIcon,
+  rasterizeSvg,
+  widenThinStrokes,
+} from "../src/lib/rasterize.js";
+
+const require = createRequire(import.meta.url);
+
+const ICON =
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">` +
+  `<path fill="none" stroke="#ef3939" stroke-width="0.5" d="M2 2h20v20H2z"/></svg>`;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function readPngSize(png: Uint8Array): [number, number] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  return [view.getUint32(16, false), view.getUint32(20, false)];
+}
+
+describe("widenThinStrokes", () => {
+  it("widens strokes thinner than a device pixel at the target width", () => {
+    expect(widenThinStrokes(ICON, 16, 1)).toContain(`stroke-width="1.5"`);
+    expect(widenThinStrokes(ICON, 48, 1)).toContain(`stroke-width="0.5"`);
+  });
+
+  it("rewrites inline styles and style sheets but skips other units", () => {
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" stroke-width="2">` +
+      `<style>.a { stroke-width: 0.25px }</style><path style="stroke-width: 0.1" d="M0 0"/>` +
+      `<path stroke-width="0.1em" d="M0 0"/></svg>`;
+    const widened = widenThinStrokes(svg, 12, 1);
+
+    expect(widened).toContain(".a { stroke-width: 2 }");
+    expect(widened).toContain(`style="stroke-width: 2"`);
+    expect(widened).toContain(`stroke-width="0.1em"`);
+  });
+
+  it("widens the default stroke on the root when none is set", () => {
+    expect(widenThinStrokes(ICON.replace(` stroke-width="0.5"`, ""), 12, 1)).toMatch(/^<svg [^>]*stroke-width="2"/);
+  });
+});
+
+describe("rasterizing", () => {
+  it("requires initialization first", () => {
+    expect(() => rasterizeSvg(ICON, 16)).toThrow("Call initRasterizer() with the resvg WASM module before rasterizing.");
+  });
+
+  describe("after initRasterizer", () => {
+    beforeAll(() => initRasterizer(readFileSync(require.resolve("@resvg/resvg-wasm/index_bg.wasm"))));
+
+    it("renders one PNG per size and scale with matching suffixes", () => {
+      const images = rasterizeIcon(ICON, { sizes: [16, 24], scales: [1, 2] });
+
+      expect(images.map((image) => image.suffix)).toEqual(["16", "16@2x", "24", "24@2x"]);
+      for (const image of images) {
+        expect([...image.png.subarray(0, 8)]).toEqual(PNG_SIGNATURE);
+        expect(readPngSize(image.png)).toEqual([image.width, image.height]);
+        expect(image.width).toBe(image.size * image.scale);
+      }
+    });
+
+    it("produces identical bytes for identical input", () => {
+      expect(rasterizeSvg(ICON, 32)).toEqual(rasterizeSvg(ICON, 32));
+    });
+
+    it("rejects widths outside the supported range", () => {
+      expect(() => rasterizeSvg(ICON, 0)).toThrow(`PNG width must be an integer between 1 and ${MAX_PNG_PIXELS}: 0`);
+      expect(() => rasterizeSvg(ICON, MAX_PNG_PIXELS + 1)).toThrow("PNG width must be an integer");
+      expect(() => rasterizeSvg(ICON, 1.5)).toThrow("PNG width must be an integer");
+    });
+  });
+});
+
+describe("formatRasterSuffix", () => {
+  it("omits the scale for 1x", () => {
+    expect(formatRasterSuffix(32, 1)).toBe("32");
+    expect(formatRasterSuffix(32, 3)).toBe("32@3x");
+  });
+});
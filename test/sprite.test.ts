@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildSpriteSheet, createSprite, createSpriteSymbolId } from "../src/lib/sprite.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+import { readFixture } from "./fixtures.js";
+
+const gradientIcon = (color: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">` +
+  `<defs><linearGradient id="g"><stop stop-color="${color}"/></linearGradient>` +
+  `<clipPath id="clip"><rect width="12" height="12"/></clipPath></defs>` +
+  `<path class="shape" fill="url(#g)" clip-path="url(#clip)" d="M0 0h24v24H0z"/>` +
+  `<style>.shape { stroke: ${color}; }</style></svg>`;
+
+describe("createSpriteSymbolId", () => {
+  it("builds ids that are valid and stable for the same input", () => {
+    expect(createSpriteSymbolId("vivaldi-black", "light-inactive")).toBe("vivaldi-black-light-inactive");
+    expect(createSpriteSymbolId("nav/back icon", "active")).toBe("nav-back-icon-active");
+    expect(createSpriteSymbolId("2x", "active")).toBe("icon-2x-active");
+  });
+});
+
+describe("createSprite", () => {
+  it("names one symbol per variant after the prefix and variant name", () => {
+    const variants = generateIconVariants({ svgContent: readFixture("single-quoted.svg"), fill: "#ef3939", states: ["hover"] });
+    const sprite = createSprite(variants, { idPrefix: "back" });
+
+    expect(sprite.ids).toEqual(["back-active", "back-inactive", "back-hover"]);
+    expect(createSprite(variants, { idPrefix: "back" }).svg).toBe(sprite.svg);
+  });
+});
+
+describe("buildSpriteSheet", () => {
+  it("prefixes internal ids and styled classes that several icons share", () => {
+    const { svg } = buildSpriteSheet([
+      { id: "a-active", svg: gradientIcon("#ff0000") },
+      { id: "b-active", svg: gradientIcon("#0000ff") },
+    ]);
+
+    expect(svg).toContain(`<linearGradient id="a-active-g">`);
+    expect(svg).toContain(`<clipPath id="b-active-clip">`);
+    expect(svg).toContain(`<path class="b-active-shape" fill="url(#b-active-g)" clip-path="url(#b-active-clip)"`);
+    expect(svg).toContain(`.a-active-shape { stroke: #ff0000; }`);
+    expect(svg).not.toContain(`id="g"`);
+  });
+
+  it("keeps the names of an icon that shares nothing", () => {
+    const { svg } = buildSpriteSheet([{ id: "a-active", svg: gradientIcon("#ff0000") }]);
+    expect(svg).toContain(`<linearGradient id="g">`);
+    expect(svg).toContain(`class="shape"`);
+  });
+
+  it("hides the sprite without display: none so referenced paint servers still render", () => {
+    const { svg } = buildSpriteSheet([{ id: "a-active", svg: gradientIcon("#ff0000") }]);
+    expect(svg).not.toContain("display");
+    expect(svg).toMatch(/^<svg [^>]*width="0" height="0"[^>]*style="position: absolute; width: 0; height: 0; overflow: hidden"/);
+  });
+
+  it("rejects duplicate symbol ids", () => {
+    const entry = { id: "a-active", svg: gradientIcon("#ff0000") };
+    expect(() => buildSpriteSheet([entry, entry])).toThrow("Duplicate sprite symbol id: a-active");
+  });
+});
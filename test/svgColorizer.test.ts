@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { recolorVivaldiSvg } from "../src/lib/svgColorizer.js";
+import { FIXTURE_NAMES, readFixture } from "./fixtures.js";
+
+const COLORS = { fill: "#ef3939", stroke: "#1e88e5" };
+
+describe("recolorVivaldiSvg", () => {
+  it.each(FIXTURE_NAMES)("leaves %s byte-stable when no color is given", (name) => {
+    const source = readFixture(name);
+    expect(recolorVivaldiSvg(source, {})).toBe(source);
+  });
+
+  it("recolors single-quoted attributes and keeps their quotes", () => {
+    const output = recolorVivaldiSvg(readFixture("single-quoted.svg"), COLORS);
+    expect(output).toContain(`<path fill='#ef3939' d='M0 0h24v24H0z'/>`);
+    expect(output).toContain(`<circle stroke='#1e88e5' fill='none' cx='12' cy='12' r='6' style='stroke-width:2'/>`);
+  });
+
+  it("recolors declarations inside a CDATA <style> block", () => {
+    const output = recolorVivaldiSvg(readFixture("cdata-style.svg"), COLORS);
+    expect(output).toContain(`<style><![CDATA[\n    .shape { fill: #ef3939; }\n    .outline > path { stroke: #1e88e5; }\n  ]]></style>`);
+  });
+
+  it("does not touch text in comments or <metadata>", () => {
+    const source = readFixture("comment-text.svg");
+    const output = recolorVivaldiSvg(source, COLORS);
+    expect(output).toBe(source.replace(`<path fill="#000000"`, `<path fill="#ef3939"`));
+  });
+
+  it("only rewrites the changed attribute and keeps the rest of the markup", () => {
+    const source = readFixture("entities.svg");
+    const output = recolorVivaldiSvg(source, COLORS);
+    expect(output).toBe(source.replace(`fill = "#000"`, `fill="#ef3939"`));
+  });
+});
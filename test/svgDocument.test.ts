@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  findRootSvg,
+  getAttribute,
+  getTextContent,
+  parseSvgDocument,
+  serializeSvgDocument,
+  SvgElement,
+} from "../src/lib/svgDocument.js";
+import { FIXTURE_NAMES, readFixture } from "./fixtures.js";
+
+describe("parseSvgDocument / serializeSvgDocument", () => {
+  it.each(FIXTURE_NAMES)("round-trips %s byte for byte", (name) => {
+    const source = readFixture(name);
+    expect(serializeSvgDocument(parseSvgDocument(source))).toBe(source);
+  });
+
+  it("reads single-quoted attribute values", () => {
+    const root = findRootSvg(parseSvgDocument(readFixture("single-quoted.svg")));
+    const path = root?.children.find((node): node is SvgElement => node.type === "element" && node.name === "path");
+    expect(path && getAttribute(path, "fill")).toBe("#000000");
+  });
+
+  it("keeps CDATA inside <style> as a CDATA node", () => {
+    const root = findRootSvg(parseSvgDocument(readFixture("cdata-style.svg")));
+    const style = root?.children.find((node): node is SvgElement => node.type === "element" && node.name === "style");
+    expect(style?.children.map((node) => node.type)).toEqual(["cdata"]);
+    expect(style && getTextContent(style)).toContain(".shape { fill: #000; }");
+  });
+
+  it("decodes entities in attribute values", () => {
+    const root = findRootSvg(parseSvgDocument(readFixture("entities.svg")));
+    expect(root && getAttribute(root, "data-note")).toBe("a & b A &#x110000;");
+  });
+
+  it("keeps out-of-range character references as written", () => {
+    const source = `<svg data-a="&#x110000;" data-b="&#99999999999;"/>`;
+    const document = parseSvgDocument(source);
+    const root = findRootSvg(document);
+    expect(root && getAttribute(root, "data-a")).toBe("&#x110000;");
+    expect(root && getAttribute(root, "data-b")).toBe("&#99999999999;");
+    expect(serializeSvgDocument(document)).toBe(source);
+  });
+
+  it("reports malformed markup with its offset", () => {
+    expect(() => parseSvgDocument(`<svg><!-- open`)).toThrow("Unterminated comment at offset 9.");
+    expect(() => parseSvgDocument(`<svg a="1`)).toThrow("Unterminated attribute value in <svg> at offset 7.");
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { formatInspection, inspectSvg } from "../src/lib/svgInspector.js";
+import { CLI_TIMEOUT, createWorkspace, removeWorkspace, runCli } from "./cli.js";
+
+const GRADIENT_ICON =
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24"><style>.a { fill: red }</style>` +
+  `<defs><linearGradient id="g"><stop offset="0" stop-color="#fff"/><stop offset="1" stop-color="rgb(0 0 0 / 50%)"/>` +
+  `</linearGradient><linearGradient id="h" href="#g"/></defs><path class="a" d="M0 0"/>` +
+  `<rect fill="url(#h)" style="stroke: currentColor" width="2" height="2"/><circle fill="none" r="1"/></svg>`;
+
+const PROBLEM_ICON =
+  `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><path d="M0 0"/><path fill="var(--c, #000)" d="M0 0"/>` +
+  `<mask id="m"><rect fill="#fff" width="1" height="1"/></mask><image href="a.png"/><use href="other.svg#x"/>` +
+  `<script>x</script></svg>`;
+
+describe("inspectSvg", () => {
+  it("lists every paint with its source and location", () => {
+    const inspection = inspectSvg(GRADIENT_ICON);
+
+    expect(inspection.paints.map(({ property, color, source, location }) => [property, color, source, location])).toEqual([
+      ["fill", "#ff0000", "style-rule", ".a"],
+      ["stop-color", "#ffffff", "attribute", "stop[1]"],
+      ["stop-color", "#00000080", "attribute", "stop[2]"],
+      ["fill", undefined, "attribute", "rect[1]"],
+      ["stroke", undefined, "inline-style", "rect[1]"],
+      ["fill", undefined, "attribute", "circle[1]"],
+    ]);
+    expect(inspection.colors).toEqual(["#ff0000", "#ffffff", "#00000080"]);
+    expect(inspection.elementCounts).toMatchObject({ svg: 1, linearGradient: 2, stop: 2 });
+  });
+
+  it("follows gradient templates when deciding whether a gradient is used", () => {
+    const inspection = inspectSvg(GRADIENT_ICON);
+
+    expect(inspection.gradients).toEqual([
+      { id: "g", type: "linear", stops: ["#ffffff", "#00000080"], referenced: true },
+      { id: "h", type: "linear", stops: [], template: "g", referenced: true },
+    ]);
+    expect(inspection.warnings.map((warning) => warning.code)).toEqual(["gradient-flattened"]);
+  });
+
+  it("warns about what recoloring gets wrong", () => {
+    const inspection = inspectSvg(PROBLEM_ICON);
+
+    expect(inspection.viewBox).toBeUndefined();
+    expect(inspection.masks).toEqual(["mask#m"]);
+    expect(inspection.unsupported).toEqual(["href on <image>", "href on <use>", "<script>"]);
+    expect(inspection.warnings.map((warning) => warning.code)).toEqual([
+      "missing-viewbox",
+      "implicit-fill",
+      "css-variable",
+      "mask-content",
+      "raster-image",
+      "external-reference",
+      "unsupported-markup",
+    ]);
+    expect(inspection.warnings[1].message).toMatch(/: path\[1\]$/);
+  });
+
+  it("shortens long location lists", () => {
+    const paths = `<path d="M0 0"/>`.repeat(7);
+    const [warning] = inspectSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1">${paths}</svg>`).warnings;
+
+    expect(warning.message).toMatch(/: path\[1\], path\[2\], path\[3\], path\[4\], path\[5\] and 2 more$/);
+  });
+
+  it("rejects documents without an <svg> root", () => {
+    expect(() => inspectSvg("<p/>")).toThrow("Input does not contain an <svg> root element.");
+  });
+});
+
+describe("formatInspection", () => {
+  it("groups paint and notes preserved and inherited values", () => {
+    const report = formatInspection(inspectSvg(GRADIENT_ICON), "icon.svg").split("\n");
+
+    expect(report.slice(0, 2)).toEqual(["icon.svg", "  Size: viewBox 0 0 24 24, width 24"]);
+    expect(report).toContain("  Paint (3 distinct colors):");
+    expect(report).toContain("    stroke currentColor (inherits color) – inline style on rect[1]");
+    expect(report).toContain("    fill none (preserved) – attribute on circle[1]");
+    expect(report).toContain("  Gradient: linear #h (stops from #g)");
+  });
+
+  it("reports a clean icon", () => {
+    const report = formatInspection(
+      inspectSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="#000"><path d="M0 0"/></svg>`),
+    );
+
+    expect(report).toContain("  Paint (1 distinct color):");
+    expect(report.endsWith("  No recoloring issues found")).toBe(true);
+  });
+});
+
+describe("inspect command", { timeout: CLI_TIMEOUT }, () => {
+  let workspace: string | undefined;
+
+  afterEach(() => {
+    if (workspace) {
+      removeWorkspace(workspace);
+      workspace = undefined;
+    }
+  });
+
+  it("prints one JSON report per file", async () => {
+    workspace = createWorkspace({ "a.svg": GRADIENT_ICON, "b.svg": PROBLEM_ICON });
+
+    const result = await runCli(["inspect", "a.svg", "--input", "b.svg", "--json"], workspace);
+
+    expect(result.code).toBe(0);
+    const reports = JSON.parse(result.stdout);
+    expect(reports.map((report: { file: string }) => report.file)).toEqual(["a.svg", "b.svg"]);
+    expect(reports[1].warnings).toHaveLength(7);
+  });
+
+  it("names the file that cannot be inspected", async () => {
+    workspace = createWorkspace({ "broken.svg": "<p/>" });
+
+    const result = await runCli(["inspect", "broken.svg"], workspace);
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("Cannot inspect broken.svg: Input does not contain an <svg> root element.");
+  });
+});
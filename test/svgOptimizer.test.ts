@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { optimizeSvg } from "../src/lib/svgOptimizer.js";
+
+describe("optimizeSvg", () => {
+  it("keeps ids referenced from ARIA id-list attributes", () => {
+    const { svg } = optimizeSvg(
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" aria-labelledby="t" aria-describedby=" d  extra ">` +
+        `<title id="t">Back</title><desc id="d">Go back</desc><path id="unused" d="M0 0h24v24H0z"/></svg>`,
+    );
+
+    expect(svg).toContain(`<title id="t">Back</title>`);
+    expect(svg).toContain(`<desc id="d">Go back</desc>`);
+    expect(svg).not.toContain(`id="unused"`);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeSvg } from "../src/lib/svgSanitizer.js";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const wrap = (prefix: string) => `${prefix}<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24v24H0z"/></svg>`;
+
+describe("sanitizeSvg", () => {
+  it("rejects comments an HTML parser would end at --!>", () => {
+    expect(() => sanitizeSvg(wrap(`<!-- --!><img src=x onerror=alert(1)> -->`))).toThrow(
+      `Malformed comment at offset 0: "--" is not allowed inside comments.`,
+    );
+  });
+
+  it("removes comments an HTML parser would end at <!--->", () => {
+    const { svg } = sanitizeSvg(wrap(`<!---><img src=x onerror=alert(1)>-->`));
+    expect(svg).toBe(wrap(""));
+  });
+
+  it("drops an XML declaration that carries anything besides its known fields", () => {
+    const { svg, removed } = sanitizeSvg(wrap(`<?xml version="1.0" x="><img src=x onerror=alert(1)>"?>`));
+    expect(svg).toBe(wrap(""));
+    expect(removed).toEqual([{ kind: "instruction", name: "<?xml?>" }]);
+  });
+
+  it("keeps a plain XML declaration", () => {
+    const { svg, removed } = sanitizeSvg(wrap(`<?xml version='1.0' encoding='UTF-8' standalone='no'?>\n`));
+    expect(svg).toBe(wrap(`<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n`));
+    expect(removed).toEqual([]);
+  });
+
+  it("keeps the payloads out of the generated preview markup", () => {
+    for (const prefix of [`<!---><img src=x onerror=alert(1)>-->`, `<?xml version="1.0" x="><img src=x onerror=alert(1)>"?>`]) {
+      const variants = generateIconVariants({ svgContent: wrap(prefix), fill: "#ef3939" });
+      expect(variants.map((variant) => variant.svg).join("")).not.toContain("<img");
+    }
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { compileSelector } from "../src/lib/svgSelectors.js";
+import { createElement } from "../src/lib/svgDocument.js";
+
+describe("compileSelector", () => {
+  it("matches tag names, ids, classes and attributes", () => {
+    const path = createElement("path", { id: "dot", class: "shape primary", "data-layer": "secondary" });
+    expect(compileSelector("path#dot.shape[data-layer=secondary]")(path)).toBe(true);
+    expect(compileSelector("circle, .primary")(path)).toBe(true);
+    expect(compileSelector("#other")(path)).toBe(false);
+  });
+
+  it.each(["svg:hover", "path:first-child", ".shape:not(.primary)", "a::before"])("rejects the pseudo-class in %s", (selector) => {
+    expect(() => compileSelector(selector)).toThrow(`Unsupported selector: "${selector}"`);
+    expect(() => compileSelector(selector, { allowBareNames: true })).toThrow("Unsupported selector");
+  });
+});
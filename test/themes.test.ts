@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { rgbToOklab } from "../src/lib/colorSpaces.js";
+import { createAdaptiveBackgroundColor, createAdaptiveInactiveColor } from "../src/lib/colorTransforms.js";
+import { parseCssColor } from "../src/lib/cssColor.js";
+import { isThemeName } from "../src/lib/themes.js";
+import { generateThemedIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`;
+
+const lightness = (color: string) => rgbToOklab(parseCssColor(color)).l;
+
+describe("generateThemedIconVariants", () => {
+  it("prefixes each set with its theme and measures against that toolbar", () => {
+    const variants = generateThemedIconVariants({ svgContent: ICON, fill: "#ef3939" });
+
+    expect(variants.map((variant) => variant.name)).toEqual([
+      "light-active",
+      "light-inactive",
+      "dark-active",
+      "dark-inactive",
+    ]);
+    expect(variants.map((variant) => variant.theme)).toEqual(["light", "light", "dark", "dark"]);
+    expect(variants[0].contrastBackground).toBe("#ffffff");
+    expect(variants[2].contrastBackground).toBe("#2b2b2b");
+  });
+
+  it("derives a dark plate for the dark set and a light one for the light set", () => {
+    const variants = generateThemedIconVariants({ svgContent: ICON, fill: "#ef3939" });
+    const light = variants.find((variant) => variant.name === "light-inactive");
+    const dark = variants.find((variant) => variant.name === "dark-inactive");
+
+    expect(lightness(light?.backgroundColor as string)).toBeGreaterThan(0.5);
+    expect(lightness(dark?.backgroundColor as string)).toBeLessThan(0.5);
+  });
+
+  it("honors custom toolbars, a theme subset and rejects duplicates", () => {
+    const variants = generateThemedIconVariants({
+      svgContent: ICON,
+      fill: "#ef3939",
+      themes: ["dark"],
+      toolbarBackgrounds: { dark: "#000000" },
+    });
+
+    expect(variants.map((variant) => variant.name)).toEqual(["dark-active", "dark-inactive"]);
+    expect(variants[0].contrastBackground).toBe("#000000");
+    expect(() => generateThemedIconVariants({ svgContent: ICON, fill: "#ef3939", themes: ["light", "light"] })).toThrow(
+      "Duplicate theme in: light, light",
+    );
+  });
+
+  it("validates theme names", () => {
+    expect(isThemeName("dark")).toBe(true);
+    expect(isThemeName("sepia")).toBe(false);
+  });
+});
+
+describe("adaptive colors", () => {
+  it("moves the inactive color toward the toolbar lightness", () => {
+    const source = lightness("#ef3939");
+
+    expect(lightness(createAdaptiveInactiveColor("#ef3939", 0.5, "#ffffff"))).toBeGreaterThan(source);
+    expect(lightness(createAdaptiveInactiveColor("#ef3939", 0.5, "#2b2b2b"))).toBeLessThan(source);
+  });
+
+  it("lifts the plate slightly off the toolbar toward mid-gray", () => {
+    const light = lightness(createAdaptiveBackgroundColor("#ffffff", 0.5));
+    const dark = lightness(createAdaptiveBackgroundColor("#2b2b2b", 0.5));
+
+    expect(light).toBeLessThan(1);
+    expect(light).toBeGreaterThan(0.85);
+    expect(dark).toBeGreaterThan(lightness("#2b2b2b"));
+    expect(dark).toBeLessThan(0.5);
+  });
+});
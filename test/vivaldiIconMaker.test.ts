@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { generateIconVariants } from "../src/lib/vivaldiIconMaker.js";
+
+const TWO_LAYER_SVG =
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">` +
+  `<path id="dot" fill="#000" d="M0 0h4v4H0z"/><path fill="#000" d="M8 0h4v4H8z"/></svg>`;
+
+describe("generateIconVariants", () => {
+  it("reports the color map colors instead of a fill that is never drawn", () => {
+    const [active] = generateIconVariants({
+      svgContent: TWO_LAYER_SVG,
+      fill: "red",
+      colorMap: { "#dot": { fill: "lime" } },
+      generateInactive: false,
+    });
+
+    expect(active.svg).not.toContain("#ff0000");
+    expect(active.svg).toContain(`<path id="dot" fill="#00ff00"`);
+    expect(active.fill).toBeUndefined();
+    expect(active.contrastRatio).toBeCloseTo(1.37, 2);
+  });
+
+  it("measures contrast from the flat fill when no map is given", () => {
+    const [active] = generateIconVariants({ svgContent: TWO_LAYER_SVG, fill: "red", generateInactive: false });
+
+    expect(active.fill).toBe("#ff0000");
+    expect(active.contrastRatio).toBeCloseTo(4, 2);
+  });
+
+  it("nudges the inactive color to 3:1 against its plate by default", () => {
+    const [, inactive] = generateIconVariants({ svgContent: TWO_LAYER_SVG, fill: "#ef3939" });
+    const [, untouched] = generateIconVariants({ svgContent: TWO_LAYER_SVG, fill: "#ef3939", minContrastRatio: 1 });
+
+    expect(inactive.meetsContrast).toBe(true);
+    expect(inactive.contrastRatio).toBeGreaterThanOrEqual(3);
+    expect(untouched.contrastRatio).toBeLessThan(3);
+    expect(inactive.backgroundColor).toBe(untouched.backgroundColor);
+  });
+
+  it("keeps a color that cannot reach the default ratio and only fails for a requested one", () => {
+    const [, inactive] = generateIconVariants({ svgContent: TWO_LAYER_SVG, fill: "#ffffff00" });
+
+    expect(inactive.meetsContrast).toBe(false);
+    expect(() => generateIconVariants({ svgContent: TWO_LAYER_SVG, fill: "#ffffff00", minContrastRatio: 3 })).toThrow(
+      "cannot reach a contrast ratio of 3:1",
+    );
+  });
+});
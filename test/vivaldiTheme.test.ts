@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  createVivaldiThemeArchive,
+  createVivaldiThemeSettings,
+  VIVALDI_THEME_SETTINGS_FILE,
+  VivaldiThemeButton,
+} from "../src/lib/vivaldiTheme.js";
+import type { IconVariant } from "../src/lib/vivaldiIconMaker.js";
+import { createZipArchive } from "../src/lib/zipArchive.js";
+
+interface ReadEntry {
+  path: string;
+  crc: number;
+  text: string;
+}
+
+// Walks the central directory so the test checks what an unzip tool would read, not just the local headers.
+function readZip(archive: Uint8Array): ReadEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  let offset = view.getUint32(end + 16, true);
+  for (let index = 0; index < view.getUint16(end + 10, true); index += 1) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(offset + 28, true);
+    const size = view.getUint32(offset + 24, true);
+    const local = view.getUint32(offset + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      path: decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+      crc: view.getUint32(offset + 16, true),
+      text: decoder.decode(archive.subarray(dataStart, dataStart + size)),
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+const variant = (name: string, svg: string, theme?: "light" | "dark"): IconVariant => ({ name, svg, theme });
+
+const BUTTONS: VivaldiThemeButton[] = [
+  { name: "Back", variants: [variant("active", "<svg>back</svg>"), variant("inactive", "<svg>dim</svg>")] },
+  { name: "Reload", variants: [variant("light-active", "<svg>reload</svg>", "light")] },
+];
+
+describe("createZipArchive", () => {
+  it("stores entries with the standard CRC-32 and UTF-8 names", () => {
+    const entries = readZip(
+      createZipArchive([
+        { path: "check.txt", data: "123456789" },
+        { path: "日本/a.svg", data: "" },
+      ]),
+    );
+
+    expect(entries).toEqual([
+      { path: "check.txt", crc: 0xcbf43926, text: "123456789" },
+      { path: "日本/a.svg", crc: 0, text: "" },
+    ]);
+  });
+
+  it("normalizes separators and rejects escaping or duplicate paths", () => {
+    expect(readZip(createZipArchive([{ path: "\\icons\\a.svg", data: "a" }]))[0].path).toBe("icons/a.svg");
+    expect(() => createZipArchive([{ path: "../a.svg", data: "" }])).toThrow("Invalid archive path: ../a.svg");
+    expect(() => createZipArchive([{ path: "a", data: "" }, { path: "/a", data: "" }])).toThrow(
+      "Duplicate archive path: a",
+    );
+  });
+
+  it("produces the same bytes for the same entries", () => {
+    const entries = [{ path: "a.svg", data: "<svg/>" }];
+    expect(createZipArchive(entries)).toEqual(createZipArchive(entries));
+  });
+});
+
+describe("Vivaldi theme archive", () => {
+  it("holds settings.json and one active icon per button at the archive root", () => {
+    const entries = readZip(createVivaldiThemeArchive({ name: "Red", accentColor: "#ef3939", buttons: BUTTONS }));
+
+    expect(entries.map((entry) => entry.path)).toEqual([VIVALDI_THEME_SETTINGS_FILE, "Back.svg", "Reload.svg"]);
+    expect(entries[1].text).toBe("<svg>back</svg>");
+    expect(entries[2].text).toBe("<svg>reload</svg>");
+
+    const settings = JSON.parse(entries[0].text);
+    expect(settings.buttons).toEqual({ Back: "Back.svg", Reload: "Reload.svg" });
+    expect(settings.colorAccentBg).toBe("#ef3939");
+  });
+
+  it("derives a stable UUID and a readable foreground", () => {
+    const settings = createVivaldiThemeSettings({ name: "Red", accentColor: "red", buttons: BUTTONS });
+
+    expect(settings.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(createVivaldiThemeSettings({ name: "Red", accentColor: "#ff0000", buttons: BUTTONS }).id).toBe(settings.id);
+    expect(createVivaldiThemeSettings({ name: "Blue", accentColor: "#ff0000", buttons: BUTTONS }).id).not.toBe(
+      settings.id,
+    );
+    expect(settings.colorFg).toBe("#000000");
+  });
+
+  it("rejects bad button names, duplicates, missing variants and keyword accents", () => {
+    const theme = (buttons: VivaldiThemeButton[], accentColor = "#ef3939") =>
+      createVivaldiThemeArchive({ name: "Red", accentColor, buttons });
+
+    expect(() => theme([])).toThrow("A Vivaldi theme needs at least one toolbar button icon.");
+    expect(() => theme([{ name: "Go Back", variants: BUTTONS[0].variants }])).toThrow(
+      "Invalid toolbar button name: Go Back.",
+    );
+    expect(() => theme([BUTTONS[0], { ...BUTTONS[0], name: "back" }])).toThrow("Duplicate toolbar button: back");
+    expect(() => theme([{ name: "Home", variants: [variant("inactive", "<svg/>")] }])).toThrow(
+      "Toolbar button Home has no active variant.",
+    );
+    expect(() => theme(BUTTONS, "currentColor")).toThrow("Theme accent color must be a concrete color: currentColor");
+  });
+});
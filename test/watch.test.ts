@@ -0,0 +1,47 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { CLI_TIMEOUT, CliProcess, createWorkspace, listFiles, removeWorkspace, startCli } from "./cli.js";
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path fill="#000" d="M0 0h4v4H0z"/></svg>`;
+
+let workspace: string | undefined;
+let cli: CliProcess | undefined;
+
+afterEach(async () => {
+  await cli?.stop();
+  cli = undefined;
+  if (workspace) {
+    removeWorkspace(workspace);
+    workspace = undefined;
+  }
+});
+
+describe("watch mode", { timeout: CLI_TIMEOUT * 2 }, () => {
+  it("rebuilds only the changed input and leaves no temporary files behind", async () => {
+    workspace = createWorkspace({ "icons/back.svg": ICON, "icons/forward.svg": ICON });
+    const output = path.join(workspace, "out");
+    cli = startCli(["icons", "--fill", "#ef3939", "--output", "out", "--no-inactive", "--watch"], workspace);
+
+    await cli.waitForOutput("Watching");
+    const forward = readFileSync(path.join(output, "forward-fill-ef3939-active.svg"), "utf8");
+    writeFileSync(path.join(workspace, "icons", "back.svg"), ICON.replace("h4v4H0z", "h8v8H0z"), "utf8");
+    await cli.waitForOutput("Rebuilding 1 file(s)");
+    await cli.waitForOutput("Rebuild finished");
+
+    expect(readFileSync(path.join(output, "back-fill-ef3939-active.svg"), "utf8")).toContain(`d="M0 0h8v8H0z"`);
+    expect(readFileSync(path.join(output, "forward-fill-ef3939-active.svg"), "utf8")).toBe(forward);
+    expect(listFiles(output)).toEqual(["back-fill-ef3939-active.svg", "forward-fill-ef3939-active.svg"]);
+  });
+
+  it("builds inputs added to a watched directory", async () => {
+    workspace = createWorkspace({ "icons/back.svg": ICON });
+    cli = startCli(["icons", "--fill", "#ef3939", "--output", "out", "--no-inactive", "--watch"], workspace);
+
+    await cli.waitForOutput("Watching");
+    writeFileSync(path.join(workspace, "icons", "home.svg"), ICON, "utf8");
+    await cli.waitForOutput("Rebuild finished");
+
+    expect(listFiles(path.join(workspace, "out"))).toEqual(["back-fill-ef3939-active.svg", "home-fill-ef3939-active.svg"]);
+  });
+});